@@ -20,6 +20,8 @@
 import type { PlanRegistry } from './PlanRegistry.js';
 import type { PlanContext } from './types/context.js';
 import { EventEmitter } from 'events';
+import { TimeoutError, CancelledError } from './errors.js';
+import { throwIfCancelled } from './cancellation.js';
 
 /**
  * Progress event for multi-step workflows
@@ -63,11 +65,26 @@ export abstract class CoordinationPlan extends EventEmitter {
     this.emit('progress', { step, percent, message } as ProgressEvent);
   }
 
+  /**
+   * Stop the workflow if the request was cancelled or timed out
+   *
+   * Call between steps that do not go through `invokeAtomicPlan()`
+   * (which checks the signal itself).
+   *
+   * @throws TimeoutError or CancelledError if `context.signal` fired
+   */
+  protected throwIfCancelled(context: PlanContext, step: string): void {
+    throwIfCancelled(context, step);
+  }
+
   /**
    * Invoke an atomic plan operation
    *
    * Helper method that wraps `api.invoke()` with error context.
    * Provides consistent error handling and logging across coordination plans.
+   * The context (and its cancellation signal) is passed through, so a
+   * cancelled or timed-out workflow stops at the next atomic operation;
+   * those errors are rethrown unchanged.
    *
    * @param operation - Operation name
    * @param request - Request payload
@@ -82,6 +99,11 @@ export abstract class CoordinationPlan extends EventEmitter {
     try {
       return await this.api.invoke<TRequest, TResponse>(operation, request, context);
     } catch (error) {
+      // Cancellation/timeout keeps its standard code for the transport
+      if (error instanceof TimeoutError || error instanceof CancelledError) {
+        throw error;
+      }
+
       // Add coordination context to error
       const err = error as Error;
       throw new Error(
@@ -0,0 +1,217 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from './PlanRegistry.js';
+import { InterceptorPriority } from './interceptors.js';
+import { EchoPlan, contextWith, createTestRegistry } from './test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('PlanRegistry', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  describe('interceptors', () => {
+    it('should register built-in interceptors in priority order', () => {
+      expect(registry.listInterceptors()).toEqual([
+        { name: 'metrics', priority: InterceptorPriority.METRICS },
+        { name: 'cancellation', priority: InterceptorPriority.CANCELLATION },
+        { name: 'capabilities', priority: InterceptorPriority.AUTHORIZATION },
+        { name: 'validation', priority: InterceptorPriority.VALIDATION },
+        { name: 'idempotency', priority: InterceptorPriority.IDEMPOTENCY },
+        { name: 'retry', priority: InterceptorPriority.RETRY },
+        { name: 'circuitBreaker', priority: InterceptorPriority.CIRCUIT_BREAKER }
+      ]);
+    });
+
+    it('should run before/around/after in priority order', async () => {
+      const calls: string[] = [];
+
+      registry.addInterceptor({
+        name: 'inner',
+        priority: 600,
+        before: () => { calls.push('inner:before'); },
+        after: (_inv, result) => { calls.push('inner:after'); return result; }
+      });
+      registry.addInterceptor({
+        name: 'outer',
+        priority: 200,
+        async around(_inv, next) {
+          calls.push('outer:around:start');
+          const result = await next();
+          calls.push('outer:around:end');
+          return result;
+        }
+      });
+
+      await registry.invoke('test:echo', {}, contextWith(['test:echo']));
+
+      expect(calls).toEqual([
+        'outer:around:start',
+        'inner:before',
+        'inner:after',
+        'outer:around:end'
+      ]);
+    });
+
+    it('should allow rewriting requests and results', async () => {
+      registry.addInterceptor({
+        name: 'rewrite',
+        before(invocation) {
+          invocation.request = { ...invocation.request, rewritten: true };
+        },
+        after: (_inv, result) => ({ ...result, wrapped: true })
+      });
+
+      const result = await registry.invoke('test:echo', { a: 1 }, contextWith(['test:echo']));
+
+      expect(result).toEqual({ echoed: { a: 1, rewritten: true }, wrapped: true });
+    });
+
+    it('should short-circuit without invoking the plan', async () => {
+      registry.addInterceptor({
+        name: 'cache',
+        before: () => ({ result: 'cached' })
+      });
+
+      const result = await registry.invoke('test:echo', {}, contextWith(['test:echo']));
+
+      expect(result).toBe('cached');
+    });
+
+    it('should check capabilities before custom interceptors', async () => {
+      let reached = false;
+      registry.addInterceptor({
+        name: 'cache',
+        before: () => { reached = true; return { result: 'cached' }; }
+      });
+
+      await expect(
+        registry.invoke('test:echo', {}, contextWith([]))
+      ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      expect(reached).toBe(false);
+    });
+
+    it('should record failures from interceptors in metrics', async () => {
+      await expect(
+        registry.invoke('test:echo', {}, contextWith([]))
+      ).rejects.toThrow();
+
+      const metrics = registry.getMetrics('test:echo');
+      expect(metrics.count).toBe(1);
+      expect(metrics.failureCount).toBe(1);
+    });
+
+    it('should remove interceptors by name', async () => {
+      expect(registry.removeInterceptor('capabilities')).toBe(true);
+      expect(registry.removeInterceptor('capabilities')).toBe(false);
+
+      const result = await registry.invoke('test:echo', 'x', contextWith([]));
+      expect(result).toEqual({ echoed: 'x' });
+    });
+
+    it('should reject duplicate interceptor names', () => {
+      expect(() => registry.addInterceptor({ name: 'metrics' })).toThrow(/collision/);
+    });
+  });
+
+  describe('hot reload', () => {
+    class GatePlan {
+      private gate?: () => void;
+
+      constructor(private name: string) {}
+
+      async run() {
+        await new Promise<void>(resolve => { this.gate = resolve; });
+        return this.name;
+      }
+
+      async ping() {
+        return this.name;
+      }
+
+      open() {
+        this.gate?.();
+      }
+    }
+
+    it('should keep separate instances of the same class per domain', async () => {
+      registry.register({ domain: 'alpha', method: 'ping', plan: new GatePlan('a'), version: '1.0.0' });
+      registry.register({ domain: 'beta', method: 'ping', plan: new GatePlan('b'), version: '1.0.0' });
+
+      expect(await registry.invoke('alpha:ping', {})).toBe('a');
+      expect(await registry.invoke('beta:ping', {})).toBe('b');
+    });
+
+    it('should unregister operations', async () => {
+      expect(await registry.unregister('test:echo')).toBe(true);
+      expect(await registry.unregister('test:echo')).toBe(false);
+      expect(registry.has('test:echo')).toBe(false);
+      await expect(registry.invoke('test:echo', {})).rejects.toMatchObject({ code: 'UNKNOWN_OPERATION' });
+      expect(() => registry.getMetrics('test:echo')).toThrow();
+    });
+
+    it('should drain in-flight calls on the old plan when replacing', async () => {
+      const oldPlan = new GatePlan('old');
+      const newPlan = new GatePlan('new');
+      registry.register({ domain: 'jobs', method: 'run', plan: oldPlan, version: '1.0.0' });
+      registry.register({ domain: 'jobs', method: 'ping', plan: oldPlan, version: '1.0.0' });
+
+      const running = registry.invoke('jobs:run', {});
+      let drained = false;
+      const replaced = registry.replacePlan('jobs', newPlan).then(() => { drained = true; });
+
+      expect(await registry.invoke('jobs:ping', {})).toBe('new');
+      expect(drained).toBe(false);
+
+      oldPlan.open();
+      expect(await running).toBe('old');
+      await replaced;
+      expect(drained).toBe(true);
+    });
+
+    it('should keep draining cancelled calls until the plan method returns', async () => {
+      const oldPlan = new GatePlan('old');
+      registry.register({ domain: 'jobs', method: 'run', plan: oldPlan, version: '1.0.0' });
+
+      const controller = new AbortController();
+      const running = registry.invoke('jobs:run', {}, { ...contextWith([]), signal: controller.signal });
+      controller.abort();
+      await expect(running).rejects.toMatchObject({ code: 'CANCELLED' });
+
+      let drained = false;
+      const removed = registry.unregister('jobs:run').then(() => { drained = true; });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(drained).toBe(false);
+
+      oldPlan.open();
+      await removed;
+      expect(drained).toBe(true);
+    });
+
+    it('should reject a replacement plan lacking a method without swapping', async () => {
+      await expect(
+        registry.replacePlan('test', { other: async () => null })
+      ).rejects.toMatchObject({ code: 'INVALID_PLAN' });
+      expect(await registry.invoke('test:echo', 'x')).toEqual({ echoed: 'x' });
+    });
+
+    it('should keep metrics when replacing a single operation', async () => {
+      await registry.invoke('test:echo', 'x');
+      await expect(
+        registry.replace({ domain: 'test', method: 'echo', plan: new EchoPlan(), version: '2.0.0' })
+      ).rejects.toMatchObject({ code: 'UNSUPPORTED_VERSION' });
+      await registry.replace({
+        domain: 'test',
+        method: 'echo',
+        plan: { echo: async () => 'replaced' },
+        version: '1.0.0'
+      });
+
+      expect(await registry.invoke('test:echo', 'x')).toBe('replaced');
+      expect(registry.getMetrics('test:echo').count).toBe(2);
+    });
+  });
+});
@@ -6,23 +6,62 @@
  *
  * Key responsibilities:
  * - Operation registration with metadata
+ * - Side-by-side operation versions with version range resolution
  * - Capability-based authorization
- * - Performance metrics collection
+ * - Per-identity rate limits and daily quotas
+ * - Idempotency keys (retries replay the first response)
+ * - Per-operation retry and circuit breaker policies
+ * - Request/response schema validation
+ * - Performance metrics collection (with OpenMetrics export)
+ * - Interceptor pipeline for cross-cutting behavior
+ * - Batch invocation with compensation for atomic batches
+ * - Hot unregister/replace of operations and plans (in-flight calls drain)
  * - Operation introspection
  *
- * Type safety is enforced at compile time via TypeScript.
- * No runtime validation - transports are trusted and types are checked at compile time.
+ * Type safety is enforced at compile time via TypeScript. Operations that
+ * declare `requestSchema`/`responseSchema` are additionally validated at
+ * runtime, since HTTP and stdio callers are untrusted.
  */
 
 import type { PlanMetadata, OperationMetadata } from './types/metadata.js';
 import type { PlanContext } from './types/context.js';
+import type { PlanInterceptor, MetricsSample } from './interceptors.js';
+import type { BatchRequest, BatchResult } from './batch.js';
+import { createValidationInterceptor } from './validation.js';
+import { createCancellationInterceptor } from './cancellation.js';
+import { RateLimiter, createRateLimitInterceptor } from './ratelimit.js';
+import type { RateLimitConfig } from './ratelimit.js';
+import { IdempotencyCache, createIdempotencyInterceptor, idempotencyScope } from './idempotency.js';
+import {
+  CircuitBreakers,
+  createRetryInterceptor,
+  createCircuitBreakerInterceptor
+} from './resilience.js';
+import type { CircuitSnapshot } from './resilience.js';
+import { executeBatch } from './batch.js';
+import { isAsyncIterable, observeStream } from './streaming.js';
+import {
+  OpenMetricsCollector,
+  DEFAULT_LATENCY_BUCKETS,
+  outcomeLabel,
+  transportLabel
+} from './openmetrics.js';
+import { LatencyTracker, DEFAULT_LATENCY_WINDOWS } from './quantiles.js';
+import type { LatencySummary } from './quantiles.js';
+import { isValidVersion, compareVersions, satisfies } from './versioning.js';
 import {
   PlanError,
   UnknownOperationError,
-  ForbiddenError
+  UnsupportedVersionError
 } from './errors.js';
-import { hasCapability } from './types/context.js';
 import { toOperationMetadata } from './types/metadata.js';
+import {
+  sortInterceptors,
+  runInterceptors,
+  createCapabilityInterceptor,
+  createMetricsInterceptor,
+  InterceptorPriority
+} from './interceptors.js';
 
 /**
  * Operation performance metrics
@@ -40,6 +79,45 @@ export interface OperationMetrics {
   p95: number;
   p99: number;
   lastInvocation: number;
+
+  /**
+   * Latency quantiles over recent time windows (e.g. '1m', '5m', '1h')
+   *
+   * p50/p95/p99 above cover all invocations since registration or reset.
+   * All quantiles are estimates within 1% relative error.
+   */
+  windows: Record<string, LatencySummary>;
+
+  /**
+   * Streaming invocations that produced at least one chunk
+   *
+   * For streaming operations, the timing fields above cover the whole
+   * stream (until exhausted, closed or failed); time-to-first-chunk is
+   * tracked separately below.
+   */
+  streamCount: number;
+  avgTimeToFirstChunk: number;
+  minTimeToFirstChunk: number;
+  maxTimeToFirstChunk: number;
+
+  /**
+   * Retry attempts made under the operation's retry policy
+   */
+  retries: number;
+
+  /**
+   * Circuit breaker state (only for operations with a circuit breaker
+   * policy that have been invoked)
+   */
+  circuit?: CircuitSnapshot;
+}
+
+/**
+ * Invocations in flight on one registration
+ */
+interface InFlightCalls {
+  count: number;
+  drained: Array<() => void>;
 }
 
 /**
@@ -60,169 +138,439 @@ export interface PlanRegistryConfig {
    * Log slow operations (milliseconds threshold)
    */
   slowOperationThreshold?: number;
+
+  /**
+   * Histogram bucket upper bounds for OpenMetrics export (seconds)
+   */
+  metricsBuckets?: number[];
+
+  /**
+   * Time windows for latency quantiles (name to duration in ms)
+   *
+   * Default: { '1m': 60000, '5m': 300000, '1h': 3600000 }
+   */
+  latencyWindows?: Record<string, number>;
+
+  /**
+   * Token bucket limits and daily quotas (default: none)
+   *
+   * Applied to invocations with context; see RateLimiter.
+   */
+  rateLimits?: RateLimitConfig;
+
+  /**
+   * How long responses are kept for idempotency key replay (ms, default: 24h)
+   */
+  idempotencyTTL?: number;
 }
 
 /**
  * Central plan registry
  */
 export class PlanRegistry {
-  private plans = new Map<string, PlanMetadata>();
-  private planInstances = new Map<string, any>(); // Singleton instances
+  private plans = new Map<string, PlanMetadata[]>(); // Versions, highest first
+  private inFlight = new Map<PlanMetadata, InFlightCalls>(); // By registration, for draining
   private metrics = new Map<string, OperationMetrics>();
-  private latencies = new Map<string, number[]>(); // For percentile calculation
+  private latencies = new Map<string, LatencyTracker>(); // For percentile calculation
+  private openMetrics: OpenMetricsCollector;
+  private breakers = new CircuitBreakers();
+  private idempotency: IdempotencyCache;
+  private interceptors: PlanInterceptor[] = []; // Sorted by priority
   private config: Required<PlanRegistryConfig>;
 
   constructor(config: PlanRegistryConfig = {}) {
     this.config = {
       devMode: config.devMode ?? process.env.NODE_ENV === 'development',
       enableMetrics: config.enableMetrics ?? true,
-      slowOperationThreshold: config.slowOperationThreshold ?? 100
+      slowOperationThreshold: config.slowOperationThreshold ?? 100,
+      metricsBuckets: config.metricsBuckets ?? DEFAULT_LATENCY_BUCKETS,
+      latencyWindows: config.latencyWindows ?? DEFAULT_LATENCY_WINDOWS,
+      rateLimits: config.rateLimits ?? {},
+      idempotencyTTL: config.idempotencyTTL ?? 24 * 60 * 60 * 1000
     };
+    this.openMetrics = new OpenMetricsCollector(this.config.metricsBuckets);
+    this.idempotency = new IdempotencyCache(this.config.idempotencyTTL);
+
+    // Built-in interceptors
+    this.addInterceptor(
+      createMetricsInterceptor(
+        sample => this.updateMetrics(sample),
+        this.config.slowOperationThreshold
+      )
+    );
+    this.addInterceptor(createCancellationInterceptor());
+    const rateLimiter = new RateLimiter(this.config.rateLimits);
+    if (rateLimiter.enabled) {
+      this.addInterceptor(createRateLimitInterceptor(rateLimiter));
+    }
+    this.addInterceptor(createCapabilityInterceptor());
+    this.addInterceptor(createValidationInterceptor());
+    this.addInterceptor(
+      createIdempotencyInterceptor(this.idempotency)
+    );
+    this.addInterceptor(createRetryInterceptor(operation => this.countRetry(operation)));
+    this.addInterceptor(createCircuitBreakerInterceptor(this.breakers));
   }
 
   /**
-   * Register an operation
+   * Add an interceptor to the invocation pipeline
    *
-   * @throws PlanError if operation name is invalid or already registered
+   * @throws PlanError if an interceptor with the same name is registered
    */
-  register(metadata: PlanMetadata): void {
-    const operationName = `${metadata.domain}:${metadata.method}`;
-
-    // Validate operation name format
-    if (!/^[a-z][a-zA-Z]*:[a-z][a-zA-Z]*$/.test(operationName)) {
+  addInterceptor(interceptor: PlanInterceptor): void {
+    if (this.interceptors.some(i => i.name === interceptor.name)) {
       throw new PlanError(
-        `Invalid operation name: ${operationName}. Must match pattern: domain:method`,
-        'INVALID_OPERATION_NAME',
-        { operationName }
+        `Interceptor collision: ${interceptor.name} already registered`,
+        'INTERCEPTOR_COLLISION',
+        { name: interceptor.name }
       );
     }
 
+    this.interceptors = sortInterceptors([...this.interceptors, interceptor]);
+  }
+
+  /**
+   * Remove an interceptor by name
+   *
+   * Built-in interceptors ('metrics', 'cancellation', 'rateLimit',
+   * 'capabilities', 'validation', 'idempotency', 'retry', 'circuitBreaker')
+   * can be removed too.
+   *
+   * @returns true if an interceptor was removed
+   */
+  removeInterceptor(name: string): boolean {
+    const remaining = this.interceptors.filter(i => i.name !== name);
+    const removed = remaining.length !== this.interceptors.length;
+    this.interceptors = remaining;
+    return removed;
+  }
+
+  /**
+   * List interceptor names and priorities in execution order
+   */
+  listInterceptors(): Array<{ name: string; priority: number }> {
+    return this.interceptors.map(i => ({
+      name: i.name,
+      priority: i.priority ?? InterceptorPriority.DEFAULT
+    }));
+  }
+
+  /**
+   * Register an operation
+   *
+   * Registering another version of an existing operation adds it side by
+   * side; only registering the same version twice is a collision. Each
+   * registration keeps its own plan instance, so several instances of the
+   * same class can serve different domains.
+   *
+   * @throws PlanError if operation name or version is invalid or the
+   *   version is already registered
+   */
+  register(metadata: PlanMetadata): void {
+    const operationName = this.validateRegistration(metadata);
+
     // Check for collision
-    if (this.plans.has(operationName)) {
+    const versions = this.plans.get(operationName) ?? [];
+    if (versions.some(v => v.version === metadata.version)) {
       throw new PlanError(
-        `Operation collision: ${operationName} already registered`,
+        `Operation collision: ${operationName}@${metadata.version} already registered`,
         'OPERATION_COLLISION',
-        { operationName }
+        { operationName, version: metadata.version }
       );
     }
 
-    // Validate plan has the method
-    if (typeof metadata.plan[metadata.method] !== 'function') {
-      throw new PlanError(
-        `Plan does not have method: ${metadata.method}`,
-        'INVALID_PLAN',
-        { domain: metadata.domain, method: metadata.method }
+    // Store metadata (versions sorted highest first)
+    this.plans.set(
+      operationName,
+      [...versions, { ...metadata }].sort((a, b) => compareVersions(b.version, a.version))
+    );
+
+    // Initialize metrics (shared by all versions)
+    if (this.config.enableMetrics && versions.length === 0) {
+      this.metrics.set(operationName, this.createMetrics(operationName));
+      this.latencies.set(operationName, new LatencyTracker(this.config.latencyWindows));
+    }
+  }
+
+  /**
+   * Replace a registered operation version at runtime
+   *
+   * New invocations use the replacement as soon as this returns control;
+   * invocations already running finish on the old registration. Metrics
+   * are kept; the circuit breaker starts closed again.
+   *
+   * @returns Promise resolving once in-flight invocations of the old
+   *   registration have finished (streams when exhausted, closed or failed)
+   * @throws UnknownOperationError if the operation is not registered
+   * @throws UnsupportedVersionError if the version is not registered
+   * @throws PlanError if the replacement is invalid
+   */
+  async replace(metadata: PlanMetadata): Promise<void> {
+    const operationName = this.validateRegistration(metadata);
+
+    const versions = this.plans.get(operationName);
+    if (!versions) {
+      throw new UnknownOperationError(operationName);
+    }
+    const previous = versions.find(v => v.version === metadata.version);
+    if (!previous) {
+      throw new UnsupportedVersionError(
+        operationName,
+        metadata.version,
+        versions.map(v => v.version)
       );
     }
 
-    // Store plan instance (singleton pattern)
-    const planKey = metadata.plan.constructor.name;
-    if (!this.planInstances.has(planKey)) {
-      this.planInstances.set(planKey, metadata.plan);
-    }
-
-    // Store metadata with shared plan instance
-    this.plans.set(operationName, {
-      ...metadata,
-      plan: this.planInstances.get(planKey)
-    });
-
-    // Initialize metrics
-    if (this.config.enableMetrics) {
-      this.metrics.set(operationName, {
-        operation: operationName,
-        count: 0,
-        successCount: 0,
-        failureCount: 0,
-        totalTime: 0,
-        avgTime: 0,
-        minTime: Infinity,
-        maxTime: 0,
-        p50: 0,
-        p95: 0,
-        p99: 0,
-        lastInvocation: 0
-      });
-      this.latencies.set(operationName, []);
+    this.plans.set(
+      operationName,
+      versions.map(v => v === previous ? { ...metadata } : v)
+    );
+    this.breakers.delete(operationName);
+
+    await this.drain([previous]);
+  }
+
+  /**
+   * Swap the plan instance of every operation in a domain
+   *
+   * All operations switch atomically: the new plan is checked for every
+   * method (and compensation) before anything is replaced.
+   *
+   * @returns Promise resolving once in-flight invocations on the old plan
+   *   instances have finished
+   * @throws PlanError if no operation is registered in the domain or the
+   *   plan lacks a method
+   */
+  async replacePlan(domain: string, plan: any): Promise<void> {
+    const operations = this.domainOperations(domain);
+    if (operations.length === 0) {
+      throw new PlanError(`No operations registered in domain: ${domain}`, 'UNKNOWN_DOMAIN', { domain });
+    }
+
+    const previous: PlanMetadata[] = [];
+    for (const operation of operations) {
+      for (const metadata of this.plans.get(operation)!) {
+        this.validateRegistration({ ...metadata, plan });
+        previous.push(metadata);
+      }
     }
+
+    for (const operation of operations) {
+      this.plans.set(
+        operation,
+        this.plans.get(operation)!.map(metadata => ({ ...metadata, plan }))
+      );
+      this.breakers.delete(operation);
+    }
+
+    await this.drain(previous);
+  }
+
+  /**
+   * Unregister an operation, or a single version of it
+   *
+   * The operation is unavailable to new invocations immediately. Metrics
+   * are dropped together with the last version.
+   *
+   * @param operation - Operation name in domain:method format
+   * @param version - Exact version to remove (all versions if omitted)
+   * @returns Promise resolving to false if nothing was registered, once
+   *   in-flight invocations of the removed registrations have finished
+   */
+  async unregister(operation: string, version?: string): Promise<boolean> {
+    const versions = this.plans.get(operation);
+    if (!versions) {
+      return false;
+    }
+
+    const removed = versions.filter(v => version === undefined || v.version === version);
+    if (removed.length === 0) {
+      return false;
+    }
+
+    const remaining = versions.filter(v => !removed.includes(v));
+    if (remaining.length > 0) {
+      this.plans.set(operation, remaining);
+    } else {
+      this.plans.delete(operation);
+      this.metrics.delete(operation);
+      this.latencies.delete(operation);
+      this.openMetrics.reset(operation);
+      this.breakers.delete(operation);
+    }
+
+    await this.drain(removed);
+    return true;
+  }
+
+  /**
+   * Unregister all operations of a domain (e.g. to unload a plan module)
+   *
+   * @returns Promise resolving to the removed operation names, once
+   *   in-flight invocations have finished
+   */
+  async unregisterDomain(domain: string): Promise<string[]> {
+    const operations = this.domainOperations(domain);
+    await Promise.all(operations.map(operation => this.unregister(operation)));
+    return operations;
   }
 
   /**
    * Invoke an operation
    *
+   * Runs the invocation through the interceptor pipeline (metrics,
+   * cancellation, capability checks, schema validation, custom
+   * interceptors) before calling the plan method.
+   *
+   * The invoked version is the highest one satisfying
+   * `context.versionRange`, or the latest version if no range is given.
+   *
    * @param operation - Operation name in domain:method format
    * @param request - Request payload (will be validated)
    * @param context - Optional execution context with auth/tracking
-   * @returns Promise resolving to validated response
-   * @throws PlanError for validation, authorization, or execution errors
+   * @returns Promise resolving to validated response, or to an
+   *   AsyncIterableIterator of chunks for streaming operations
+   * @throws PlanError for validation, authorization, or execution errors;
+   *   TimeoutError/CancelledError if `context.signal` fires
    */
   async invoke<TRequest, TResponse>(
     operation: string,
     request: TRequest,
     context?: PlanContext
   ): Promise<TResponse> {
-    const startTime = performance.now();
-    const metadata = this.plans.get(operation);
-
-    if (!metadata) {
-      throw new UnknownOperationError(operation);
-    }
+    const metadata = this.resolveVersion(operation, context?.versionRange);
+    const release = this.track(metadata);
 
+    const planCalls: unknown[] = [];
+    let result: unknown;
     try {
-      // Check capabilities
-      if (context && metadata.requiredCapability) {
-        if (!hasCapability(context.auth, metadata.requiredCapability)) {
-          throw new ForbiddenError(
-            `Insufficient permissions for ${operation}`,
-            {
-              required: metadata.requiredCapability,
-              actual: context.auth.capabilities
-            }
+      result = await runInterceptors(
+        this.interceptors,
+        { operation, metadata, request, context },
+        // Invoke plan method (TypeScript ensures type safety at compile time)
+        (invocation) => {
+          const call = invocation.metadata.plan[invocation.metadata.method](
+            invocation.request,
+            invocation.context
           );
+          planCalls.push(call);
+          return call;
         }
-      }
+      );
+    } catch (error) {
+      // A cancelled plan method may still be running; drain waits for it
+      void Promise.allSettled(planCalls).then(release);
+      throw error;
+    }
 
-      // Invoke plan method (TypeScript ensures type safety at compile time)
-      const result = await metadata.plan[metadata.method](request, context);
+    // Streams keep the registration busy until they end
+    if (isAsyncIterable(result)) {
+      return observeStream(result, { onEnd: release }) as TResponse;
+    }
 
-      // Update metrics (success)
-      const duration = performance.now() - startTime;
-      this.updateMetrics(operation, duration, true);
+    release();
+    return result as TResponse;
+  }
 
-      // Log slow operations
-      if (duration > this.config.slowOperationThreshold) {
-        console.warn(
-          `Slow operation: ${operation} took ${duration.toFixed(2)}ms`
-        );
-      }
+  /**
+   * Invoke several operations in one call
+   *
+   * See `batch.ts` for execution modes, `$ref` references and atomic
+   * (all-or-nothing) semantics. Each entry passes through the full
+   * interceptor pipeline; entry failures are reported per entry.
+   *
+   * @param batch - Entries and execution options
+   * @param context - Optional execution context shared by all entries
+   * @throws ValidationError if the batch is malformed (nothing is executed)
+   */
+  async invokeBatch(batch: BatchRequest, context?: PlanContext): Promise<BatchResult> {
+    return executeBatch(this, batch, context, this.config.devMode);
+  }
 
-      return result as TResponse;
-    } catch (error) {
-      // Update metrics (failure)
-      const duration = performance.now() - startTime;
-      this.updateMetrics(operation, duration, false);
+  /**
+   * Run the compensating action of an operation
+   *
+   * The idempotency key of the compensated invocation (from `context`) is
+   * forgotten, so a retry with that key runs the operation again.
+   *
+   * @param operation - Operation name in domain:method format
+   * @param request - Request the operation was invoked with
+   * @param result - Result the operation returned
+   * @param context - Optional execution context
+   * @returns false if the operation declares no compensation
+   */
+  async compensate(
+    operation: string,
+    request: unknown,
+    result: unknown,
+    context?: PlanContext
+  ): Promise<boolean> {
+    const metadata = this.resolveVersion(operation, context?.versionRange);
+    if (metadata.compensate === undefined) {
+      return false;
+    }
 
-      // Re-throw for transport plan to handle
-      throw error;
+    const release = this.track(metadata);
+    try {
+      await metadata.plan[metadata.compensate](request, result, context);
+    } finally {
+      release();
+    }
+
+    const scope = idempotencyScope(operation, context);
+    if (scope !== undefined) {
+      this.idempotency.forget(scope);
     }
+    return true;
+  }
+
+  /**
+   * Resolve the version of an operation that would be invoked
+   *
+   * @param operation - Operation name in domain:method format
+   * @param versionRange - Requested version range (latest if omitted)
+   * @throws UnknownOperationError if the operation is not registered
+   * @throws UnsupportedVersionError if no version satisfies the range
+   */
+  resolve(operation: string, versionRange?: string): OperationMetadata {
+    return this.introspect(this.resolveVersion(operation, versionRange));
   }
 
   /**
    * List all registered operations
+   *
+   * Returns the latest version of each operation, with all registered
+   * versions in `versions`.
    */
   list(): OperationMetadata[] {
-    return Array.from(this.plans.values()).map(toOperationMetadata);
+    return Array.from(this.plans.values()).map(versions => ({
+      ...this.introspect(versions[0]),
+      versions: versions.map(v => v.version)
+    }));
+  }
+
+  /**
+   * List all registered versions of an operation (highest first)
+   */
+  listVersions(operation: string): OperationMetadata[] {
+    return (this.plans.get(operation) ?? []).map(metadata => this.introspect(metadata));
   }
 
   /**
    * Get metadata for a specific operation
+   *
+   * @param operation - Operation name in domain:method format
+   * @param versionRange - Requested version range (latest if omitted)
    */
-  describe(operation: string): OperationMetadata | null {
-    const metadata = this.plans.get(operation);
+  describe(operation: string, versionRange?: string): OperationMetadata | null {
+    const versions = this.plans.get(operation);
+    const metadata = versionRange === undefined
+      ? versions?.[0]
+      : versions?.find(v => satisfies(v.version, versionRange));
     if (!metadata) {
       return null;
     }
-    return toOperationMetadata(metadata);
+    return this.introspect(metadata);
   }
 
   /**
@@ -230,13 +578,19 @@ export class PlanRegistry {
    *
    * @param operation - Optional operation name (returns all if omitted)
    */
+  getMetrics(operation: string): OperationMetrics;
+  getMetrics(): Map<string, OperationMetrics>;
   getMetrics(operation?: string): OperationMetrics | Map<string, OperationMetrics> {
     if (operation) {
       const metrics = this.metrics.get(operation);
       if (!metrics) {
         throw new UnknownOperationError(operation);
       }
-      return metrics;
+      return this.refreshMetrics(metrics);
+    }
+
+    for (const metrics of this.metrics.values()) {
+      this.refreshMetrics(metrics);
     }
     return this.metrics;
   }
@@ -250,21 +604,9 @@ export class PlanRegistry {
       if (!metadata) {
         throw new UnknownOperationError(operation);
       }
-      this.metrics.set(operation, {
-        operation,
-        count: 0,
-        successCount: 0,
-        failureCount: 0,
-        totalTime: 0,
-        avgTime: 0,
-        minTime: Infinity,
-        maxTime: 0,
-        p50: 0,
-        p95: 0,
-        p99: 0,
-        lastInvocation: 0
-      });
-      this.latencies.set(operation, []);
+      this.metrics.set(operation, this.createMetrics(operation));
+      this.latencies.set(operation, new LatencyTracker(this.config.latencyWindows));
+      this.openMetrics.reset(operation);
     } else {
       // Reset all
       for (const op of this.plans.keys()) {
@@ -273,6 +615,16 @@ export class PlanRegistry {
     }
   }
 
+  /**
+   * Export metrics in OpenMetrics text format
+   *
+   * Latency histograms are labelled by operation, domain, transport and
+   * outcome. Served by HTTPTransportPlan at `GET /metrics`.
+   */
+  exportMetrics(): string {
+    return this.openMetrics.export();
+  }
+
   /**
    * Check if an operation is registered
    */
@@ -287,14 +639,209 @@ export class PlanRegistry {
     return this.plans.size;
   }
 
+  /**
+   * Validate operation name, version and plan methods of a registration
+   *
+   * @returns Operation name in domain:method format
+   */
+  private validateRegistration(metadata: PlanMetadata): string {
+    const operationName = `${metadata.domain}:${metadata.method}`;
+
+    // Validate operation name format
+    if (!/^[a-z][a-zA-Z]*:[a-z][a-zA-Z]*$/.test(operationName)) {
+      throw new PlanError(
+        `Invalid operation name: ${operationName}. Must match pattern: domain:method`,
+        'INVALID_OPERATION_NAME',
+        { operationName }
+      );
+    }
+
+    // Validate version
+    if (!isValidVersion(metadata.version)) {
+      throw new PlanError(
+        `Invalid version for ${operationName}: ${metadata.version}. Must match pattern: MAJOR.MINOR.PATCH`,
+        'INVALID_VERSION',
+        { operationName, version: metadata.version }
+      );
+    }
+
+    if (metadata.deprecated && (!metadata.sunset || isNaN(Date.parse(metadata.sunset)))) {
+      throw new PlanError(
+        `Deprecated operation ${operationName}@${metadata.version} must declare a valid sunset date`,
+        'INVALID_VERSION',
+        { operationName, version: metadata.version, sunset: metadata.sunset }
+      );
+    }
+
+    // Validate plan has the method
+    if (typeof metadata.plan?.[metadata.method] !== 'function') {
+      throw new PlanError(
+        `Plan does not have method: ${metadata.method}`,
+        'INVALID_PLAN',
+        { domain: metadata.domain, method: metadata.method }
+      );
+    }
+
+    if (metadata.compensate !== undefined && typeof metadata.plan[metadata.compensate] !== 'function') {
+      throw new PlanError(
+        `Plan does not have compensation method: ${metadata.compensate}`,
+        'INVALID_PLAN',
+        { domain: metadata.domain, method: metadata.method, compensate: metadata.compensate }
+      );
+    }
+
+    return operationName;
+  }
+
+  /**
+   * Names of the operations registered in a domain
+   */
+  private domainOperations(domain: string): string[] {
+    return Array.from(this.plans.keys()).filter(op => op.startsWith(`${domain}:`));
+  }
+
+  /**
+   * Count an invocation against a registration until released
+   *
+   * @returns Release callback (idempotent)
+   */
+  private track(metadata: PlanMetadata): () => void {
+    let calls = this.inFlight.get(metadata);
+    if (!calls) {
+      calls = { count: 0, drained: [] };
+      this.inFlight.set(metadata, calls);
+    }
+    calls.count++;
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      if (--calls!.count === 0) {
+        this.inFlight.delete(metadata);
+        calls!.drained.forEach(resolve => resolve());
+      }
+    };
+  }
+
+  /**
+   * Wait until no invocations of the registrations are in flight
+   */
+  private async drain(registrations: PlanMetadata[]): Promise<void> {
+    await Promise.all(registrations.map(metadata => {
+      const calls = this.inFlight.get(metadata);
+      return calls && new Promise<void>(resolve => calls.drained.push(resolve));
+    }));
+  }
+
+  /**
+   * Introspection metadata including the current circuit breaker state
+   */
+  private introspect(metadata: PlanMetadata): OperationMetadata {
+    const operation = toOperationMetadata(metadata);
+    if (metadata.circuitBreaker) {
+      operation.circuit = this.breakers.snapshot(operation.operation) ?? {
+        state: 'closed',
+        consecutiveFailures: 0
+      };
+    }
+    return operation;
+  }
+
+  /**
+   * Find the highest registered version satisfying a range
+   */
+  private resolveVersion(operation: string, versionRange?: string): PlanMetadata {
+    const versions = this.plans.get(operation);
+    if (!versions) {
+      throw new UnknownOperationError(operation);
+    }
+
+    if (versionRange === undefined) {
+      return versions[0];
+    }
+
+    const metadata = versions.find(v => satisfies(v.version, versionRange));
+    if (!metadata) {
+      throw new UnsupportedVersionError(
+        operation,
+        versionRange,
+        versions.map(v => v.version)
+      );
+    }
+    return metadata;
+  }
+
+  /**
+   * Create empty metrics for an operation
+   */
+  private createMetrics(operation: string): OperationMetrics {
+    return {
+      operation,
+      count: 0,
+      successCount: 0,
+      failureCount: 0,
+      totalTime: 0,
+      avgTime: 0,
+      minTime: Infinity,
+      maxTime: 0,
+      p50: 0,
+      p95: 0,
+      p99: 0,
+      lastInvocation: 0,
+      windows: {},
+      streamCount: 0,
+      avgTimeToFirstChunk: 0,
+      minTimeToFirstChunk: Infinity,
+      maxTimeToFirstChunk: 0,
+      retries: 0
+    };
+  }
+
+  /**
+   * Compute percentiles from the operation's latency sketches and attach
+   * the circuit breaker state
+   *
+   * Done on read rather than per invocation to keep invoke() overhead
+   * independent of call volume.
+   */
+  private refreshMetrics(metrics: OperationMetrics): OperationMetrics {
+    const latencies = this.latencies.get(metrics.operation);
+    if (latencies) {
+      const { p50, p95, p99 } = latencies.summary();
+      metrics.p50 = p50;
+      metrics.p95 = p95;
+      metrics.p99 = p99;
+      metrics.windows = latencies.windowSummaries();
+    }
+    metrics.circuit = this.breakers.snapshot(metrics.operation);
+    return metrics;
+  }
+
+  /**
+   * Count a retry attempt
+   */
+  private countRetry(operation: string): void {
+    const metrics = this.metrics.get(operation);
+    if (this.config.enableMetrics && metrics) {
+      metrics.retries++;
+    }
+  }
+
   /**
    * Update performance metrics after invocation
    */
-  private updateMetrics(operation: string, duration: number, success: boolean): void {
+  private updateMetrics(sample: MetricsSample): void {
     if (!this.config.enableMetrics) {
       return;
     }
 
+    const { operation, duration, error, timeToFirstChunk, context } = sample;
+    const success = error === undefined;
+
     const metrics = this.metrics.get(operation);
     const latencies = this.latencies.get(operation);
 
@@ -317,29 +864,29 @@ export class PlanRegistry {
     metrics.maxTime = Math.max(metrics.maxTime, duration);
     metrics.lastInvocation = Date.now();
 
-    // Store latency for percentile calculation
-    latencies.push(duration);
-
-    // Keep only last 1000 latencies for memory efficiency
-    if (latencies.length > 1000) {
-      latencies.shift();
+    // Update streaming timing
+    if (timeToFirstChunk !== undefined) {
+      metrics.streamCount++;
+      metrics.avgTimeToFirstChunk +=
+        (timeToFirstChunk - metrics.avgTimeToFirstChunk) / metrics.streamCount;
+      metrics.minTimeToFirstChunk = Math.min(metrics.minTimeToFirstChunk, timeToFirstChunk);
+      metrics.maxTimeToFirstChunk = Math.max(metrics.maxTimeToFirstChunk, timeToFirstChunk);
     }
 
-    // Calculate percentiles
-    const sorted = [...latencies].sort((a, b) => a - b);
-    metrics.p50 = this.percentile(sorted, 0.5);
-    metrics.p95 = this.percentile(sorted, 0.95);
-    metrics.p99 = this.percentile(sorted, 0.99);
-  }
+    // Record latency (percentiles are computed when metrics are read)
+    latencies.record(duration, metrics.lastInvocation);
 
-  /**
-   * Calculate percentile from sorted array
-   */
-  private percentile(sorted: number[], p: number): number {
-    if (sorted.length === 0) {
-      return 0;
-    }
-    const index = Math.ceil(sorted.length * p) - 1;
-    return sorted[Math.max(0, index)];
+    // Labelled histograms for OpenMetrics export
+    this.openMetrics.record(
+      {
+        operation,
+        domain: operation.split(':')[0],
+        transport: transportLabel(context),
+        outcome: outcomeLabel(error)
+      },
+      duration,
+      timeToFirstChunk
+    );
   }
+
 }
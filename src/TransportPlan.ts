@@ -15,10 +15,18 @@
 
 import type { PlanRegistry } from './PlanRegistry.js';
 import type { AuthContext, PlanContext } from './types/context.js';
-import { PlanError } from './errors.js';
+import { TimeoutError, CancelledError, toPlanError } from './errors.js';
+import { isAsyncIterable, observeStream } from './streaming.js';
 import { createPlanContext } from './types/context.js';
-import { error as errorResponse, errorFromException } from './types/responses.js';
-import type { OperationResponse } from './types/responses.js';
+import { error as errorResponse } from './types/responses.js';
+import type { OperationMetadata } from './types/metadata.js';
+import type { BatchRequest, BatchResult } from './batch.js';
+import type {
+  OperationResponse,
+  ErrorResponse,
+  DeprecationNotice,
+  StreamFrame
+} from './types/responses.js';
 
 /**
  * Transport plan configuration
@@ -30,11 +38,48 @@ export interface TransportConfig {
   devMode?: boolean;
 
   /**
-   * Request timeout (milliseconds)
+   * Request timeout (milliseconds, 0 disables)
+   *
+   * Enforced through the PlanContext signal: the registry rejects the
+   * invocation with a TIMEOUT error once it elapses. For streaming
+   * operations it covers the time until the stream is returned.
    */
   timeout?: number;
 }
 
+/**
+ * Per-invocation options extracted by a transport
+ */
+export interface InvokeOperationOptions {
+  /**
+   * Request ID (generated if not provided)
+   */
+  requestId?: string;
+
+  /**
+   * Requested operation version range (latest version if not provided)
+   *
+   * Transports take this from a protocol-specific location, e.g. the
+   * `Accept-Version` header, a stdio `version` field or an IPC argument.
+   */
+  versionRange?: string;
+
+  /**
+   * Transport-level cancellation (client disconnect, cancel message)
+   *
+   * Combined with the request timeout into the PlanContext signal.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Idempotency key for replay-safe retries
+   *
+   * Passed to the registry as `context.metadata.idempotencyKey`, e.g. from
+   * the `Idempotency-Key` header or a stdio `idempotencyKey` field.
+   */
+  idempotencyKey?: string;
+}
+
 /**
  * Base class for transport plans
  *
@@ -43,6 +88,7 @@ export interface TransportConfig {
  */
 export abstract class TransportPlan {
   protected config: Required<TransportConfig>;
+  private activeRequests = new Map<string, { operation: string; controller: AbortController }>();
 
   constructor(
     protected registry: PlanRegistry,
@@ -96,20 +142,29 @@ export abstract class TransportPlan {
    * Invoke an operation through the registry
    *
    * This is the core routing method that all transport plans use.
-   * It creates a plan context and routes to the registry.
+   * It creates a plan context and routes to the registry. Responses from
+   * deprecated operation versions carry a deprecation notice.
+   *
+   * The context carries an AbortSignal that fires on timeout, when
+   * `options.signal` fires, or when `cancelRequest()` is called with the
+   * request ID.
    *
    * @param operation - Operation name
    * @param request - Request payload
    * @param transportRequest - Transport-specific request for auth extraction
-   * @param requestId - Optional request ID (generated if not provided)
+   * @param options - Request ID, version range and cancellation signal
    * @returns Operation response (success or error)
    */
   protected async invokeOperation<TRequest, TResponse>(
     operation: string,
     request: TRequest,
     transportRequest: any,
-    requestId?: string
+    options: InvokeOperationOptions = {}
   ): Promise<OperationResponse<TResponse>> {
+    const requestId = options.requestId || this.generateRequestId();
+    const tracked = this.trackRequest(operation, requestId, options.signal);
+    let streaming = false;
+
     try {
       // Extract auth context
       const auth = await this.extractAuthContext(transportRequest);
@@ -118,52 +173,249 @@ export abstract class TransportPlan {
         return errorResponse('UNAUTHORIZED', 'Authentication required');
       }
 
-      // Create plan context
+      // Resolve version up front so the response can report deprecation
+      const resolved = this.registry.resolve(operation, options.versionRange);
+
+      // Create plan context (pinned to the resolved version)
       const context: PlanContext = createPlanContext(
         auth,
-        requestId || this.generateRequestId(),
-        { transport: this.constructor.name }
+        requestId,
+        this.contextMetadata(options)
       );
+      context.versionRange = resolved.version;
+      context.signal = tracked.signal;
 
       // Invoke through registry
-      const result = await this.registry.invoke<TRequest, TResponse>(
+      let result: TResponse = await this.registry.invoke<TRequest, TResponse>(
         operation,
         request,
         context
       );
 
+      // Streams stay cancellable until they end; the timeout no longer applies
+      if (isAsyncIterable(result)) {
+        streaming = true;
+        tracked.stopTimer();
+        result = observeStream(result, { onEnd: tracked.release }) as TResponse;
+      }
+
       return {
         success: true,
-        result
+        result,
+        ...(resolved.deprecated && { deprecation: this.deprecationNotice(resolved) })
       };
     } catch (err) {
-      return this.formatError(err as Error);
+      return this.formatError(err);
+    } finally {
+      if (!streaming) {
+        tracked.release();
+      }
     }
   }
 
   /**
-   * Format error for transport protocol
+   * Invoke a batch of operations through the registry
    *
-   * Converts plan errors to standard error response format.
-   * Stack traces are included in development mode only.
+   * Authenticates once and runs all entries under one plan context; the
+   * request timeout and cancellation apply to the batch as a whole.
    *
-   * @param err - Error to format
-   * @returns Error response
+   * @param batch - Entries and execution options
+   * @param transportRequest - Transport-specific request for auth extraction
+   * @param options - Request ID, version range and cancellation signal
+   * @returns Batch result with one OperationResponse per entry
+   */
+  protected async invokeBatch(
+    batch: BatchRequest,
+    transportRequest: any,
+    options: InvokeOperationOptions = {}
+  ): Promise<OperationResponse<BatchResult>> {
+    const requestId = options.requestId || this.generateRequestId();
+    const tracked = this.trackRequest('batch', requestId, options.signal);
+
+    try {
+      const auth = await this.extractAuthContext(transportRequest);
+
+      if (!auth) {
+        return errorResponse('UNAUTHORIZED', 'Authentication required');
+      }
+
+      const context: PlanContext = createPlanContext(
+        auth,
+        requestId,
+        this.contextMetadata(options)
+      );
+      context.versionRange = options.versionRange;
+      context.signal = tracked.signal;
+
+      return {
+        success: true,
+        result: await this.registry.invokeBatch(batch, context)
+      };
+    } catch (err) {
+      return this.formatError(err);
+    } finally {
+      tracked.release();
+    }
+  }
+
+  /**
+   * Build the plan context metadata for an invocation
+   */
+  private contextMetadata(options: InvokeOperationOptions): Record<string, any> {
+    return {
+      transport: this.constructor.name,
+      ...(options.idempotencyKey && { idempotencyKey: options.idempotencyKey })
+    };
+  }
+
+  /**
+   * Register an in-flight request for timeout and cancellation
+   *
+   * The returned signal fires on timeout, when `signal` fires, or on
+   * `cancelRequest(requestId)`. Call `release()` once the request is done.
    */
-  protected formatError(err: Error): OperationResponse<never> {
-    const includeStack = this.config.devMode;
+  private trackRequest(operation: string, requestId: string, signal?: AbortSignal): {
+    signal: AbortSignal;
+    stopTimer: () => void;
+    release: () => void;
+  } {
+    const controller = new AbortController();
+    const onCancel = () => controller.abort(new CancelledError(operation));
+    let timer: ReturnType<typeof setTimeout> | undefined;
 
-    if (err instanceof PlanError) {
-      return errorResponse(
-        err.code,
-        err.message,
-        err.details,
-        includeStack ? err.stack : undefined
+    this.activeRequests.set(requestId, { operation, controller });
+    if (signal?.aborted) {
+      onCancel();
+    } else {
+      signal?.addEventListener('abort', onCancel, { once: true });
+    }
+    if (this.config.timeout > 0) {
+      timer = setTimeout(
+        () => controller.abort(new TimeoutError(operation, this.config.timeout)),
+        this.config.timeout
       );
     }
 
-    // Unexpected error
-    return errorFromException(err, 'INTERNAL_ERROR', includeStack);
+    return {
+      signal: controller.signal,
+      stopTimer: () => clearTimeout(timer),
+      release: () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onCancel);
+        if (this.activeRequests.get(requestId)?.controller === controller) {
+          this.activeRequests.delete(requestId);
+        }
+      }
+    };
+  }
+
+  /**
+   * Cancel an in-flight request
+   *
+   * Fires the request's PlanContext signal; the invocation fails with a
+   * CANCELLED error and streams stop producing chunks.
+   *
+   * @param requestId - ID of the request to cancel
+   * @param reason - Optional reason reported in the error
+   * @returns true if a matching in-flight request was found
+   */
+  protected cancelRequest(requestId: string, reason?: string): boolean {
+    const active = this.activeRequests.get(requestId);
+    if (!active) {
+      return false;
+    }
+
+    active.controller.abort(new CancelledError(active.operation, reason));
+    return true;
+  }
+
+  /**
+   * Cancel all in-flight requests (e.g. when the client went away)
+   *
+   * @param reason - Optional reason reported in the errors
+   */
+  protected cancelAllRequests(reason?: string): void {
+    for (const requestId of [...this.activeRequests.keys()]) {
+      this.cancelRequest(requestId, reason);
+    }
+  }
+
+  /**
+   * Build the deprecation notice for a deprecated operation version
+   */
+  protected deprecationNotice(metadata: OperationMetadata): DeprecationNotice {
+    return {
+      operation: metadata.operation,
+      version: metadata.version,
+      sunset: metadata.sunset,
+      message: `${metadata.operation}@${metadata.version} is deprecated` +
+        (metadata.sunset ? ` and will be removed after ${metadata.sunset}` : '')
+    };
+  }
+
+  /**
+   * Forward a streaming result as a sequence of frames
+   *
+   * Sends one chunk frame per item, then an end frame. If the producer
+   * throws, the stream ends with an error frame instead. Once `isOpen`
+   * returns false (e.g. the client disconnected), the producer is closed
+   * and nothing more is sent. If `send` returns a promise, the next chunk
+   * is pulled only after it resolves (backpressure).
+   *
+   * @param stream - Streaming result from the registry
+   * @param send - Writes a frame using the transport's framing
+   * @param isOpen - Whether the receiving side is still connected
+   */
+  protected async forwardStream<T>(
+    stream: AsyncIterable<T>,
+    send: (frame: StreamFrame<T>) => void | Promise<void>,
+    isOpen: () => boolean = () => true
+  ): Promise<void> {
+    const iterator = stream[Symbol.asyncIterator]();
+    let chunks = 0;
+
+    try {
+      while (true) {
+        const step = await iterator.next();
+        if (step.done) {
+          break;
+        }
+
+        if (!isOpen()) {
+          await iterator.return?.();
+          return;
+        }
+
+        await send({ success: true, chunk: step.value });
+        chunks++;
+      }
+
+      await send({ success: true, done: true, chunks });
+    } catch (err) {
+      if (isOpen()) {
+        await send(this.formatError(err));
+      }
+    }
+  }
+
+  /**
+   * Format error for transport protocol
+   *
+   * Converts anything thrown to the standard error response format (see
+   * toPlanError). Stack traces are included in development mode only.
+   *
+   * @param err - Error to format
+   * @returns Error response
+   */
+  protected formatError(err: unknown): ErrorResponse {
+    const error = toPlanError(err);
+
+    return errorResponse(
+      error.code,
+      error.message,
+      error.details,
+      this.config.devMode ? error.stack : undefined
+    );
   }
 
   /**
@@ -0,0 +1,138 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from './PlanRegistry.js';
+import { createPlanContext } from './types/context.js';
+import { authWith, createTestRegistry } from './test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('batch', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  let store: Map<string, any>;
+  let flakyFailures: number;
+
+  class StorePlan {
+    async put(request: { id: string; value: any }) {
+      if (request.value === 'fail') {
+        throw new Error('Cannot store fail');
+      }
+      if (request.value === 'flaky' && flakyFailures-- > 0) {
+        throw new Error('Transient failure');
+      }
+      if (request.value === 'offline') {
+        throw Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:5432'), { code: 'ECONNREFUSED' });
+      }
+      store.set(request.id, request.value);
+      return { idHash: `hash-${request.id}` };
+    }
+
+    async remove(request: { id: string }) {
+      store.delete(request.id);
+    }
+
+    async get(request: { id: string }) {
+      return store.get(request.id);
+    }
+  }
+
+  beforeEach(() => {
+    store = new Map();
+    flakyFailures = 1;
+    const plan = new StorePlan();
+    registry.register({ domain: 'store', method: 'put', plan, version: '1.0.0', compensate: 'remove' });
+    registry.register({ domain: 'store', method: 'get', plan, version: '1.0.0' });
+  });
+
+  it('should run entries in order and resolve references', async () => {
+    const batch = await registry.invokeBatch({
+      entries: [
+        { operation: 'store:put', request: { id: 'a', value: 1 } },
+        { operation: 'store:put', request: { id: 'b', value: { $ref: '#0.result.idHash' } } },
+        { operation: 'store:get', request: { id: 'b' } }
+      ]
+    });
+
+    expect(batch.success).toBe(true);
+    expect(batch.results[2]).toEqual({ success: true, result: 'hash-a' });
+  });
+
+  it('should report per-entry failures and dependent entries', async () => {
+    const batch = await registry.invokeBatch({
+      mode: 'parallel',
+      entries: [
+        { operation: 'store:put', request: { id: 'a', value: 'fail' } },
+        { operation: 'store:put', request: { id: 'b', value: 2 } },
+        { operation: 'store:put', request: { id: 'c', value: { $ref: '#0.result.idHash' } } }
+      ]
+    });
+
+    expect(batch.success).toBe(false);
+    expect(batch.rolledBack).toBe(false);
+    expect(batch.results.map(r => r.success)).toEqual([false, true, false]);
+    expect(batch.results[2]).toMatchObject({ error: { code: 'DEPENDENCY_FAILED' } });
+    expect(store.get('b')).toBe(2);
+  });
+
+  it('should not leak system error codes or resolve inherited properties', async () => {
+    const batch = await registry.invokeBatch({
+      mode: 'parallel',
+      entries: [
+        { operation: 'store:put', request: { id: 'a', value: 'offline' } },
+        { operation: 'store:put', request: { id: 'b', value: 2 } },
+        { operation: 'store:put', request: { id: 'c', value: { $ref: '#1.result.constructor' } } }
+      ]
+    });
+
+    expect(batch.results[0]).toMatchObject({ error: { code: 'INTERNAL_ERROR' } });
+    expect(batch.results[2]).toMatchObject({ error: { code: 'VALIDATION_ERROR' } });
+    expect(store.has('c')).toBe(false);
+  });
+
+  it('should compensate completed entries in atomic mode', async () => {
+    const batch = await registry.invokeBatch({
+      atomic: true,
+      entries: [
+        { operation: 'store:put', request: { id: 'a', value: 1 } },
+        { operation: 'store:put', request: { id: 'b', value: 'fail' } },
+        { operation: 'store:put', request: { id: 'c', value: 3 } }
+      ]
+    });
+
+    expect(batch.success).toBe(false);
+    expect(batch.rolledBack).toBe(true);
+    expect(batch.results[2]).toMatchObject({ error: { code: 'BATCH_ABORTED' } });
+    expect(store.size).toBe(0);
+  });
+
+  it('should run a rolled back atomic batch again when retried with its key', async () => {
+    const context = createPlanContext(authWith([]), 'req-1', { idempotencyKey: 'k1' });
+    const batch = {
+      atomic: true,
+      entries: [
+        { operation: 'store:put', request: { id: 'a', value: 1 } },
+        { operation: 'store:put', request: { id: 'b', value: 'flaky' } }
+      ]
+    };
+
+    expect(await registry.invokeBatch(batch, context)).toMatchObject({ success: false, rolledBack: true });
+    expect(store.size).toBe(0);
+
+    expect(await registry.invokeBatch(batch, context)).toMatchObject({ success: true });
+    expect([...store.keys()]).toEqual(['a', 'b']);
+  });
+
+  it('should reject malformed batches before running anything', async () => {
+    await expect(registry.invokeBatch({
+      entries: [
+        { operation: 'store:put', request: { id: 'a', value: { $ref: '#1.result' } } },
+        { operation: 'store:missing', request: {} }
+      ]
+    })).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(store.size).toBe(0);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Batch invocation - several operations in one round trip
+ *
+ * A batch is an ordered list of `{operation, request}` entries executed
+ * sequentially or in parallel. Later entries can reference results of
+ * earlier ones with `{ "$ref": "#0.result.idHash" }` anywhere in their
+ * request; in parallel mode an entry waits only for the entries it
+ * references.
+ *
+ * In atomic (all-or-nothing) mode the first failure stops the batch and
+ * the compensating actions of all completed entries are run in reverse
+ * order. Compensations are declared per operation via
+ * `PlanMetadata.compensate`; operations without one are assumed to have
+ * nothing to undo.
+ */
+
+import type { PlanContext } from './types/context.js';
+import type { OperationMetadata } from './types/metadata.js';
+import type { OperationResponse, ErrorResponse } from './types/responses.js';
+import { PlanError, ValidationError, toPlanError } from './errors.js';
+import { error as errorResponse } from './types/responses.js';
+
+/**
+ * Single batch entry
+ */
+export interface BatchEntry {
+  /**
+   * Operation name (domain:method)
+   */
+  operation: string;
+
+  /**
+   * Request payload (may contain `{ $ref: '#N.path' }` references)
+   */
+  request: any;
+
+  /**
+   * Version range for this entry (default: the batch context's range)
+   */
+  version?: string;
+}
+
+/**
+ * Batch execution options
+ */
+export interface BatchOptions {
+  /**
+   * Execution mode (default: 'sequential')
+   *
+   * - sequential: entries run one after another in list order
+   * - parallel: entries run concurrently, waiting only for referenced entries
+   */
+  mode?: 'sequential' | 'parallel';
+
+  /**
+   * All-or-nothing execution (default: false)
+   *
+   * Stops at the first failure and runs compensations for completed entries.
+   */
+  atomic?: boolean;
+}
+
+/**
+ * Batch request as sent by clients
+ */
+export interface BatchRequest extends BatchOptions {
+  entries: BatchEntry[];
+}
+
+/**
+ * Batch execution result
+ */
+export interface BatchResult {
+  /**
+   * True if every entry succeeded
+   */
+  success: boolean;
+
+  /**
+   * One response per entry, in entry order
+   */
+  results: OperationResponse<any>[];
+
+  /**
+   * True if an atomic batch failed and completed entries were compensated
+   */
+  rolledBack: boolean;
+
+  /**
+   * Compensations that failed during rollback (entry index and error)
+   */
+  compensationErrors?: Array<{ index: number; error: ErrorResponse['error'] }>;
+}
+
+/**
+ * Operations needed to execute a batch (implemented by PlanRegistry)
+ */
+export interface BatchInvoker {
+  invoke(operation: string, request: any, context?: PlanContext): Promise<any>;
+  resolve(operation: string, versionRange?: string): OperationMetadata;
+  compensate(operation: string, request: any, result: any, context?: PlanContext): Promise<boolean>;
+}
+
+/**
+ * Reference to an earlier entry's response
+ */
+interface BatchReference {
+  index: number;
+  path: string[];
+}
+
+/**
+ * Execute a batch
+ *
+ * @throws ValidationError if the batch is malformed (before anything runs)
+ */
+export async function executeBatch(
+  invoker: BatchInvoker,
+  batch: BatchRequest,
+  context?: PlanContext,
+  devMode = false
+): Promise<BatchResult> {
+  validateBatch(invoker, batch, context);
+
+  const { entries, mode = 'sequential', atomic = false } = batch;
+  const results: Array<OperationResponse<any> | undefined> = new Array(entries.length);
+  const requests: any[] = new Array(entries.length);
+  const toResponse = (err: unknown) => {
+    const error = toPlanError(err);
+    return errorResponse(error.code, error.message, error.details, devMode ? error.stack : undefined);
+  };
+  let failed = false;
+
+  const runEntry = async (index: number, dependencies: Promise<void>[]): Promise<void> => {
+    await Promise.all(dependencies);
+
+    // Atomic batches stop at the first failure
+    if (atomic && failed) {
+      results[index] = errorResponse('BATCH_ABORTED', 'Not executed: an earlier entry failed', { index });
+      return;
+    }
+
+    const entry = entries[index];
+    try {
+      requests[index] = resolveReferences(entry.request, results);
+      const result = await invoker.invoke(
+        entry.operation,
+        requests[index],
+        context && entryContext(context, entry, index)
+      );
+      results[index] = { success: true, result };
+    } catch (err) {
+      failed = true;
+      results[index] = toResponse(err);
+    }
+  };
+
+  if (mode === 'parallel') {
+    const done: Promise<void>[] = [];
+    entries.forEach((entry, index) => {
+      const dependencies = collectReferences(entry.request).map(ref => done[ref.index]);
+      done[index] = runEntry(index, dependencies);
+    });
+    await Promise.all(done);
+  } else {
+    for (let index = 0; index < entries.length; index++) {
+      await runEntry(index, []);
+    }
+  }
+
+  const finalResults = results as OperationResponse<any>[];
+  const batchResult: BatchResult = {
+    success: !failed,
+    results: finalResults,
+    rolledBack: false
+  };
+
+  if (atomic && failed) {
+    const compensationErrors: NonNullable<BatchResult['compensationErrors']> = [];
+
+    // Undo completed entries in reverse order
+    for (let index = entries.length - 1; index >= 0; index--) {
+      const response = finalResults[index];
+      if (!response.success) {
+        continue;
+      }
+
+      try {
+        await invoker.compensate(
+          entries[index].operation,
+          requests[index],
+          response.result,
+          context && entryContext(context, entries[index], index)
+        );
+      } catch (err) {
+        compensationErrors.push({ index, error: toResponse(err).error });
+      }
+    }
+
+    batchResult.rolledBack = true;
+    if (compensationErrors.length > 0) {
+      batchResult.compensationErrors = compensationErrors;
+    }
+  }
+
+  return batchResult;
+}
+
+/**
+ * Derive the plan context of one entry from the batch context
+ *
+ * An idempotency key on the batch becomes one key per entry, so a retried
+ * batch replays the entries that completed before. Compensation forgets
+ * the entry keys, so a retried atomic batch that rolled back runs again.
+ */
+function entryContext(context: PlanContext, entry: BatchEntry, index: number): PlanContext {
+  const idempotencyKey = context.metadata?.idempotencyKey;
+
+  return {
+    ...context,
+    requestId: `${context.requestId}#${index}`,
+    versionRange: entry.version ?? context.versionRange,
+    ...(idempotencyKey && {
+      metadata: { ...context.metadata, idempotencyKey: `${idempotencyKey}#${index}` }
+    })
+  };
+}
+
+/**
+ * Check batch structure, operation names and references before execution
+ */
+function validateBatch(invoker: BatchInvoker, batch: BatchRequest, context?: PlanContext): void {
+  if (!batch || !Array.isArray(batch.entries) || batch.entries.length === 0) {
+    throw new ValidationError('Batch must contain a non-empty "entries" array');
+  }
+
+  if (batch.mode !== undefined && batch.mode !== 'sequential' && batch.mode !== 'parallel') {
+    throw new ValidationError(`Invalid batch mode: ${batch.mode}`, { mode: batch.mode });
+  }
+
+  const errors: Array<{ index: number; message: string }> = [];
+
+  batch.entries.forEach((entry, index) => {
+    if (!entry || typeof entry.operation !== 'string') {
+      errors.push({ index, message: 'Missing or invalid "operation" field' });
+      return;
+    }
+
+    try {
+      if (invoker.resolve(entry.operation, entry.version ?? context?.versionRange).streaming) {
+        errors.push({ index, message: `Streaming operation ${entry.operation} cannot be batched` });
+      }
+    } catch (err) {
+      errors.push({ index, message: (err as Error).message });
+    }
+
+    try {
+      for (const ref of collectReferences(entry.request)) {
+        if (ref.index >= index) {
+          errors.push({ index, message: `Reference #${ref.index} must point to an earlier entry` });
+        }
+      }
+    } catch (err) {
+      errors.push({ index, message: (err as Error).message });
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid batch', { errors });
+  }
+}
+
+/**
+ * Parse a `$ref` string ('#0.result.idHash')
+ */
+function parseReference(ref: unknown): BatchReference {
+  const match = typeof ref === 'string' ? /^#(\d+)((?:\.[^.]+)*)$/.exec(ref) : null;
+  if (!match) {
+    throw new ValidationError(`Invalid reference: ${String(ref)}. Expected '#<index>.<path>'`);
+  }
+
+  return {
+    index: Number(match[1]),
+    path: match[2].split('.').filter(Boolean)
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function isReference(value: unknown): value is { $ref: unknown } {
+  return isPlainObject(value) && Object.keys(value).length === 1 && '$ref' in value;
+}
+
+/**
+ * Collect all references in a request
+ */
+function collectReferences(value: unknown, refs: BatchReference[] = []): BatchReference[] {
+  if (isReference(value)) {
+    refs.push(parseReference(value.$ref));
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectReferences(item, refs));
+  } else if (isPlainObject(value)) {
+    Object.values(value).forEach(item => collectReferences(item, refs));
+  }
+  return refs;
+}
+
+/**
+ * Replace references with values from earlier responses
+ *
+ * @throws PlanError if a referenced entry failed or the path does not exist
+ */
+function resolveReferences(
+  value: unknown,
+  results: Array<OperationResponse<any> | undefined>
+): any {
+  if (isReference(value)) {
+    const ref = parseReference(value.$ref);
+    const response = results[ref.index];
+
+    if (!response || !response.success) {
+      throw new PlanError(
+        `Referenced entry #${ref.index} did not succeed`,
+        'DEPENDENCY_FAILED',
+        { ref: value.$ref }
+      );
+    }
+
+    let resolved: any = response;
+    for (const key of ref.path) {
+      if (resolved === null || typeof resolved !== 'object' || !Object.hasOwn(resolved, key)) {
+        throw new ValidationError(`Unresolved reference: ${value.$ref}`, { ref: value.$ref });
+      }
+      resolved = resolved[key];
+    }
+    return resolved;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => resolveReferences(item, results));
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveReferences(item, results)])
+    );
+  }
+
+  return value;
+}
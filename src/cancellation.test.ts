@@ -0,0 +1,68 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from './PlanRegistry.js';
+import { TimeoutError } from './errors.js';
+import { contextWith, createTestRegistry } from './test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('cancellation', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  class SlowPlan {
+    async wait(_request: any, context: any) {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      return context.signal.aborted ? 'aborted' : 'done';
+    }
+
+    async *ticks() {
+      yield 1;
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      yield 2;
+    }
+  }
+
+  beforeEach(() => {
+    const plan = new SlowPlan();
+    registry.register({ domain: 'slow', method: 'wait', plan, version: '1.0.0' });
+    registry.register({ domain: 'slow', method: 'ticks', plan, version: '1.0.0', streaming: true });
+  });
+
+  function contextWithSignal(signal: AbortSignal) {
+    return { ...contextWith([]), signal };
+  }
+
+  it('should reject invocations whose signal already fired', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      registry.invoke('slow:wait', {}, contextWithSignal(controller.signal))
+    ).rejects.toMatchObject({ code: 'CANCELLED' });
+  });
+
+  it('should reject with the abort reason when the signal fires mid-flight', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new TimeoutError('slow:wait', 10)), 10);
+
+    await expect(
+      registry.invoke('slow:wait', {}, contextWithSignal(controller.signal))
+    ).rejects.toMatchObject({ code: 'TIMEOUT' });
+    expect(registry.getMetrics('slow:wait').failureCount).toBe(1);
+  });
+
+  it('should stop streams when the signal fires', async () => {
+    const controller = new AbortController();
+    const stream = await registry.invoke<any, AsyncIterableIterator<number>>(
+      'slow:ticks', {}, contextWithSignal(controller.signal)
+    );
+
+    expect((await stream.next()).value).toBe(1);
+    setTimeout(() => controller.abort(), 10);
+    await expect(stream.next()).rejects.toMatchObject({ code: 'CANCELLED' });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Cancellation - AbortSignal support for operation invocations
+ *
+ * Transports attach an AbortSignal to PlanContext that fires on timeout,
+ * client disconnect or an explicit cancel message. Plans can observe it
+ * directly (`context.signal`) to stop work early; the registry enforces it
+ * through a built-in interceptor so that an aborted invocation always
+ * fails with a standard TIMEOUT or CANCELLED PlanError, and aborted
+ * streams stop producing chunks.
+ */
+
+import type { PlanContext } from './types/context.js';
+import type { PlanInterceptor } from './interceptors.js';
+import { PlanError, CancelledError } from './errors.js';
+import { InterceptorPriority } from './interceptors.js';
+import { isAsyncIterable } from './streaming.js';
+
+/**
+ * Convert an aborted signal into the error to throw
+ *
+ * Transports abort with a TimeoutError or CancelledError as reason; any
+ * other reason is reported as a generic cancellation.
+ */
+export function abortError(signal: AbortSignal, operation: string): PlanError {
+  return signal.reason instanceof PlanError
+    ? signal.reason
+    : new CancelledError(operation);
+}
+
+/**
+ * Throw if the context's signal has already fired
+ *
+ * Use between steps of long-running workflows.
+ */
+export function throwIfCancelled(context: PlanContext | undefined, operation: string): void {
+  if (context?.signal?.aborted) {
+    throw abortError(context.signal, operation);
+  }
+}
+
+/**
+ * Built-in cancellation enforcement
+ *
+ * Rejects invocations whose signal has fired (before or during execution)
+ * and stops streaming results when the signal fires mid-stream.
+ * Invocations without a signal pass through.
+ */
+export function createCancellationInterceptor(): PlanInterceptor {
+  return {
+    name: 'cancellation',
+    priority: InterceptorPriority.CANCELLATION,
+    async around({ operation, context }, next) {
+      const signal = context?.signal;
+      if (!signal) {
+        return next();
+      }
+
+      throwIfCancelled(context, operation);
+
+      const result = await raceAbort(next(), signal, operation);
+      return isAsyncIterable(result)
+        ? abortableStream(result, signal, operation)
+        : result;
+    }
+  };
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal fires
+ *
+ * A streaming result produced after the signal fired is closed so the
+ * producer does not keep running.
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal, operation: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal, operation));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (result) => {
+        signal.removeEventListener('abort', onAbort);
+        if (signal.aborted && isAsyncIterable(result)) {
+          void (result as any)[Symbol.asyncIterator]().return?.();
+        }
+        resolve(result);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Wrap a stream so that it fails and closes its source once the signal fires
+ */
+function abortableStream<T>(
+  source: AsyncIterable<T>,
+  signal: AbortSignal,
+  operation: string
+): AsyncIterableIterator<T> {
+  const iterator = source[Symbol.asyncIterator]();
+
+  return {
+    async next(): Promise<IteratorResult<T>> {
+      // Closing is not awaited: a producer blocked in a pending next()
+      // only observes return() once that step settles
+      if (signal.aborted) {
+        void iterator.return?.();
+        throw abortError(signal, operation);
+      }
+
+      try {
+        return await raceAbort(iterator.next(), signal, operation);
+      } catch (error) {
+        if (signal.aborted) {
+          void iterator.return?.();
+        }
+        throw error;
+      }
+    },
+
+    async return(value?: any): Promise<IteratorResult<T>> {
+      return iterator.return
+        ? iterator.return(value)
+        : { done: true, value };
+    },
+
+    [Symbol.asyncIterator]() {
+      return this;
+    }
+  };
+}
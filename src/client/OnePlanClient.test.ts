@@ -0,0 +1,103 @@
+// Note: Using regular imports for Jest compatibility
+import { PlanError, NotFoundError, RateLimitedError, ValidationError, ConnectionFailedError, CancelledError, planErrorFromCode } from '../errors.js';
+import { problemDetails, error as errorResponse } from '../types/responses.js';
+import { HttpPlanClient } from './OnePlanClient.js';
+import type { ChatOperations } from '../types/operations/chat.js';
+import { createServer } from 'http';
+import { getEventListeners } from 'events';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect } = global as any;
+
+describe('http client', () => {
+  it('should rebuild errors as the PlanError subclass of their code', () => {
+    const limited = planErrorFromCode('RATE_LIMITED', 'Slow down', { retryAfter: 3 });
+    expect(limited).toBeInstanceOf(RateLimitedError);
+    expect(limited).toMatchObject({ name: 'RateLimitedError', message: 'Slow down', code: 'RATE_LIMITED', retryAfter: 3 });
+
+    const missing = planErrorFromCode('TOPIC_NOT_FOUND', 'Topic not found: t1', { id: 't1' });
+    expect(missing).toBeInstanceOf(NotFoundError);
+    expect(missing.details).toEqual({ id: 't1' });
+
+    const custom = planErrorFromCode('QUOTA_EXCEEDED', 'No quota');
+    expect(custom.constructor).toBe(PlanError);
+    expect(planErrorFromCode('constructor', 'Inherited').constructor).toBe(PlanError);
+  });
+
+  it('should invoke typed operations with bearer auth and unwrap problem details', async () => {
+    const seen: Array<{ url?: string; auth?: string; version?: string }> = [];
+    const server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        seen.push({ url: req.url, auth: req.headers.authorization, version: req.headers['accept-version'] as string });
+        const operation = decodeURIComponent(req.url!.replace('/api/operations/', ''));
+
+        if (operation === 'chat:sendMessage') {
+          const { content } = JSON.parse(body);
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: true, result: { messageId: `m-${content}`, timestamp: 1 } }));
+        } else if (operation === 'chat:getHistory') {
+          const problem = problemDetails(errorResponse('VALIDATION_ERROR', 'limit must be <= 200', { field: 'limit' }), req.url);
+          res.writeHead(problem.status, { 'Content-Type': 'application/problem+json' });
+          res.end(JSON.stringify(problem));
+        } else if (operation === 'test:tail') {
+          res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+          res.write(JSON.stringify({ success: true, chunk: 1 }) + '\n');
+        } else if (operation === 'test:count') {
+          res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+          res.end([{ success: true, chunk: 1 }, { success: true, chunk: 2 }, { success: true, done: true }]
+            .map(frame => JSON.stringify(frame) + '\n').join(''));
+        } else {
+          res.writeHead(502).end();
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const client = new HttpPlanClient<ChatOperations & { 'test:count': { request: Record<string, never>; response: AsyncIterable<number> } }>({
+      baseUrl,
+      token: async () => 'token-1'
+    });
+
+    try {
+      const sent = await client.invoke('chat:sendMessage', { topicId: 't1', content: 'hi' }, { version: '^1.0.0' });
+      expect(sent).toEqual({ messageId: 'm-hi', timestamp: 1 });
+      expect(seen[0]).toEqual({ url: '/api/operations/chat%3AsendMessage', auth: 'Bearer token-1', version: '^1.0.0' });
+
+      const failed = await client.invoke('chat:getHistory', { topicId: 't1', limit: 500 }).catch(err => err);
+      expect(failed).toBeInstanceOf(ValidationError);
+      expect(failed).toMatchObject({ message: 'limit must be <= 200', details: { field: 'limit' } });
+
+      const chunks: number[] = [];
+      for await (const chunk of await client.invoke('test:count', {})) {
+        chunks.push(chunk);
+      }
+      expect(chunks).toEqual([1, 2]);
+
+      const controller = new AbortController();
+      await client.invoke('chat:sendMessage', { topicId: 't1', content: 'again' }, { signal: controller.signal });
+      expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+
+      const tail: AsyncIterable<number> = await new HttpPlanClient({ baseUrl }).invoke('test:tail', {}, { signal: controller.signal });
+      const iterator = tail[Symbol.asyncIterator]();
+      expect((await iterator.next()).value).toBe(1);
+      const next = iterator.next();
+      controller.abort();
+      await expect(next).rejects.toBeInstanceOf(CancelledError);
+      expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+
+      const untyped = new HttpPlanClient({ baseUrl });
+      const upstream = await untyped.invoke('other:op', {}).catch(err => err);
+      expect(upstream).toMatchObject({ code: 'CONNECTION_FAILED', message: 'HTTP 502: Bad Gateway' });
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+
+    const unreachable = await new HttpPlanClient({ baseUrl }).invoke('test:echo', {}).catch(err => err);
+    expect(unreachable).toBeInstanceOf(ConnectionFailedError);
+  });
+});
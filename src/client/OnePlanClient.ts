@@ -12,10 +12,22 @@
  */
 
 import type { PlanTransaction, ExecutionResult } from '../registry/PlanRegistry.js';
+import type { OperationMetadata } from '../types/metadata.js';
+import type { OperationResponse, StreamFrame } from '../types/responses.js';
+import {
+  CancelledError,
+  ConnectionFailedError,
+  ERROR_CATALOG,
+  PlanError,
+  TimeoutError,
+  planErrorFromCode
+} from '../errors.js';
+import { collectTransferables, onPortMessage } from '../messageport.js';
+import type { MessagePortLike, PortClientMessage, PortServerMessage } from '../messageport.js';
 
 export interface ClientConfig {
   baseUrl: string;
-  transport: 'rest' | 'quic' | 'websocket';
+  transport: 'rest' | 'http' | 'quic' | 'websocket' | 'messageport';
   timeout?: number;
   retryCount?: number;
 }
@@ -58,7 +70,8 @@ export abstract class OnePlanClient {
 /**
  * REST Client
  *
- * Connects to refinio.api REST server
+ * Connects to refinio.api REST server (legacy `/api/{plan}/{method}`
+ * routes; use HttpPlanClient for HTTPTransportPlan)
  */
 export class RestPlanClient extends OnePlanClient {
   constructor(config: Omit<ClientConfig, 'transport'>) {
@@ -87,7 +100,7 @@ export class RestPlanClient extends OnePlanClient {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
-    const result = await response.json();
+    const result: any = await response.json();
 
     // REST response wraps Story in { success, body }
     if (result.body) {
@@ -99,7 +112,7 @@ export class RestPlanClient extends OnePlanClient {
 
   async listPlans(): Promise<string[]> {
     const response = await fetch(`${this.config.baseUrl}/api`);
-    const result = await response.json();
+    const result: any = await response.json();
     return result.map((endpoint: any) => endpoint.handler);
   }
 
@@ -247,6 +260,569 @@ export class QuicPlanClient extends OnePlanClient {
   }
 }
 
+/**
+ * Options of a MessagePortPlanClient
+ */
+export interface MessagePortClientConfig {
+  timeout?: number;
+
+  /**
+   * Transfer ArrayBuffers in requests instead of copying them (default: true)
+   */
+  transfer?: boolean;
+}
+
+/**
+ * Per-call options of MessagePortPlanClient.invoke()
+ */
+export interface MessagePortInvokeOptions {
+  /**
+   * Requested operation version range (default: latest)
+   */
+  version?: string;
+
+  /**
+   * Idempotency key - retries with the same key replay the first result
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Cancels the operation on the server
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Frames of a streaming call, in arrival order
+ */
+interface FrameQueue {
+  frames: StreamFrame<any>[];
+  wake?: () => void;
+}
+
+/**
+ * MessagePort Client
+ *
+ * Talks to a MessagePortTransportPlan, typically ONE.core running in a
+ * worker, without JSON-over-HTTP overhead:
+ *
+ * ```typescript
+ * const client = new MessagePortPlanClient(new Worker('./one-worker.js'));
+ * const result = await client.invoke('chat:send', { text: 'hi' });
+ * ```
+ *
+ * Errors are rejected as the PlanError subclass of the server's code
+ * (see planErrorFromCode). Streaming
+ * operations resolve to an AsyncIterable of chunks; leaving the loop early
+ * cancels the operation.
+ */
+export class MessagePortPlanClient extends OnePlanClient {
+  private unlisten: () => void;
+  private prefix = Math.random().toString(36).slice(2, 10);
+  private messageId = 0;
+  private transfer: boolean;
+  private pendingRequests = new Map<
+    string,
+    {
+      resolve: (value: any) => void;
+      reject: (error: Error) => void;
+      timeout?: ReturnType<typeof setTimeout>;
+      stream?: FrameQueue;
+      detach?: () => void;
+    }
+  >();
+
+  constructor(private port: MessagePortLike, config: MessagePortClientConfig = {}) {
+    super({ baseUrl: 'messageport:', transport: 'messageport', timeout: config.timeout });
+    this.transfer = config.transfer ?? true;
+    this.unlisten = onPortMessage(port, (data) => this.handleMessage(data));
+  }
+
+  /**
+   * Invoke an operation (domain:method)
+   */
+  async invoke<T = any>(
+    operation: string,
+    request: any = {},
+    options: MessagePortInvokeOptions = {}
+  ): Promise<T> {
+    const response: OperationResponse<T> = await this.send({
+      type: 'request',
+      id: this.nextId(),
+      operation,
+      request,
+      version: options.version,
+      idempotencyKey: options.idempotencyKey
+    }, options.signal);
+
+    if (!response.success) {
+      throw planErrorFromCode(response.error.code, response.error.message, response.error.details);
+    }
+    return response.result;
+  }
+
+  async execute<T = any>(
+    plan: string,
+    method: string,
+    params?: any
+  ): Promise<ExecutionResult<T>> {
+    const startTime = Date.now();
+    const product = await this.invoke<T>(`${plan}:${method}`, params);
+
+    return {
+      plan: { plan, method, params },
+      product,
+      timestamp: Date.now(),
+      executionTime: Date.now() - startTime
+    };
+  }
+
+  async listPlans(): Promise<string[]> {
+    const operations = await this.introspect();
+    return [...new Set(operations.map(operation => operation.domain))];
+  }
+
+  async getPlanMetadata(plan: string): Promise<any> {
+    const operations = await this.introspect();
+    return { plan, operations: operations.filter(operation => operation.domain === plan) };
+  }
+
+  /**
+   * Stop listening on the port and reject pending calls
+   *
+   * The port itself stays open; it belongs to the caller.
+   */
+  async close(): Promise<void> {
+    this.unlisten();
+    for (const [id, pending] of this.pendingRequests) {
+      this.settle(id);
+      const error = new PlanError('Client closed', 'CANCELLED');
+      if (pending.stream) {
+        this.pushFrame(pending.stream, { success: false, error: { code: error.code, message: error.message } });
+      } else {
+        pending.reject(error);
+      }
+    }
+  }
+
+  private async introspect(): Promise<OperationMetadata[]> {
+    const response: OperationResponse<OperationMetadata[]> = await this.send({ type: 'introspect', id: this.nextId() });
+    if (!response.success) {
+      throw planErrorFromCode(response.error.code, response.error.message, response.error.details);
+    }
+    return response.result;
+  }
+
+  /**
+   * Post a message and wait for its response (or first stream frame)
+   */
+  private send(message: PortClientMessage, signal?: AbortSignal): Promise<any> {
+    const { id } = message;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new PlanError('Request cancelled', 'CANCELLED'));
+        return;
+      }
+
+      const timeout = this.config.timeout
+        ? setTimeout(() => {
+            this.settle(id);
+            this.cancel(id);
+            reject(new PlanError(`Request timeout: ${id}`, 'TIMEOUT'));
+          }, this.config.timeout)
+        : undefined;
+
+      const onAbort = () => this.cancel(id);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pendingRequests.set(id, {
+        resolve,
+        reject,
+        timeout,
+        detach: () => signal?.removeEventListener('abort', onAbort)
+      });
+
+      const transfer = this.transfer ? collectTransferables(message) : [];
+      if (transfer.length > 0) {
+        this.port.postMessage(message, transfer);
+      } else {
+        this.port.postMessage(message);
+      }
+    });
+  }
+
+  private handleMessage(data: unknown): void {
+    const message = data as PortServerMessage;
+    const pending = typeof message?.id === 'string' ? this.pendingRequests.get(message.id) : undefined;
+    if (!pending) {
+      return;
+    }
+
+    if (message.type === 'response') {
+      this.settle(message.id);
+      pending.resolve(message.response);
+      return;
+    }
+
+    if (message.type !== 'stream') {
+      return;
+    }
+
+    // First frame - resolve with the stream, the timeout no longer applies
+    if (!pending.stream) {
+      clearTimeout(pending.timeout);
+      pending.stream = { frames: [] };
+      pending.resolve({ success: true, result: this.readFrames(message.id, pending.stream) });
+    }
+
+    if (!message.frame.success || 'done' in message.frame) {
+      this.settle(message.id);
+    }
+    this.pushFrame(pending.stream, message.frame);
+  }
+
+  /**
+   * Yield the chunks of a streaming call
+   */
+  private async *readFrames(id: string, queue: FrameQueue): AsyncGenerator<any> {
+    let finished = false;
+
+    try {
+      while (true) {
+        while (queue.frames.length === 0) {
+          await new Promise<void>(resolve => { queue.wake = resolve; });
+        }
+
+        const frame = queue.frames.shift()!;
+        if (!frame.success) {
+          finished = true;
+          throw planErrorFromCode(frame.error.code, frame.error.message, frame.error.details);
+        }
+        if ('done' in frame) {
+          finished = true;
+          return;
+        }
+        yield frame.chunk;
+      }
+    } finally {
+      // Consumer stopped early
+      if (!finished) {
+        this.settle(id);
+        this.cancel(id);
+      }
+    }
+  }
+
+  private pushFrame(queue: FrameQueue, frame: StreamFrame<any>): void {
+    queue.frames.push(frame);
+    queue.wake?.();
+    queue.wake = undefined;
+  }
+
+  private settle(id: string): void {
+    const pending = this.pendingRequests.get(id);
+    clearTimeout(pending?.timeout);
+    pending?.detach?.();
+    this.pendingRequests.delete(id);
+  }
+
+  private cancel(id: string): void {
+    this.port.postMessage({ type: 'cancel', id } as PortClientMessage);
+  }
+
+  private nextId(): string {
+    return `${this.prefix}-${++this.messageId}`;
+  }
+}
+
+/**
+ * Request and response type of an operation
+ */
+export interface OperationTypes<Request = any, Response = any> {
+  request: Request;
+  response: Response;
+}
+
+/**
+ * Options of an HttpPlanClient
+ */
+export interface HttpClientConfig {
+  /**
+   * Server URL, e.g. http://localhost:3000
+   */
+  baseUrl: string;
+
+  /**
+   * API prefix of the HTTPTransportPlan (default: '/api')
+   */
+  apiPrefix?: string;
+
+  /**
+   * Bearer token, or a function returning the current one
+   */
+  token?: string | (() => string | undefined | Promise<string | undefined>);
+
+  /**
+   * Time to wait for the response headers (ms)
+   */
+  timeout?: number;
+}
+
+/**
+ * Per-call options of HttpPlanClient.invoke()
+ */
+export interface HttpInvokeOptions {
+  /**
+   * Requested operation version range (`Accept-Version`, default: latest)
+   */
+  version?: string;
+
+  /**
+   * Idempotency key - retries with the same key replay the first result
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Aborts the request, which cancels the operation on the server
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * HTTP Client
+ *
+ * Talks to an HTTPTransportPlan (`POST /api/operations/:operation`),
+ * typed by a map from operation name to request and response:
+ *
+ * ```typescript
+ * const client = new HttpPlanClient<ChatOperations>({ baseUrl, token });
+ * const { messages } = await client.invoke('chat:getHistory', { topicId });
+ * ```
+ *
+ * Errors (problem+json bodies or failed envelopes) are thrown as the
+ * PlanError subclass of their code, e.g. ValidationError; unreachable
+ * servers as ConnectionFailedError. Streaming operations resolve to an
+ * AsyncIterable of chunks (NDJSON); leaving the loop early cancels the
+ * operation.
+ */
+export class HttpPlanClient<
+  Ops extends { [K in keyof Ops]: OperationTypes } = Record<string, OperationTypes>
+> extends OnePlanClient {
+  private apiUrl: string;
+  private token?: HttpClientConfig['token'];
+
+  constructor(config: HttpClientConfig) {
+    super({ baseUrl: config.baseUrl, transport: 'http', timeout: config.timeout });
+    this.apiUrl = `${config.baseUrl.replace(/\/+$/, '')}${config.apiPrefix ?? '/api'}`;
+    this.token = config.token;
+  }
+
+  /**
+   * Invoke an operation (domain:method)
+   */
+  async invoke<K extends keyof Ops & string>(
+    operation: K,
+    request: Ops[K]['request'],
+    options: HttpInvokeOptions = {}
+  ): Promise<Ops[K]['response']> {
+    const response = await this.request(`/operations/${encodeURIComponent(operation)}`, operation, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, application/x-ndjson',
+        ...(options.version && { 'Accept-Version': options.version }),
+        ...(options.idempotencyKey && { 'Idempotency-Key': options.idempotencyKey })
+      },
+      body: JSON.stringify(request ?? {})
+    }, options.signal);
+
+    if (response.headers.get('content-type')?.startsWith('application/x-ndjson')) {
+      return this.readFrames(response, operation, options.signal);
+    }
+
+    const body = await response.json() as OperationResponse<Ops[K]['response']>;
+    if (!body.success) {
+      throw planErrorFromCode(body.error.code, body.error.message, body.error.details);
+    }
+    return body.result;
+  }
+
+  async execute<T = any>(
+    plan: string,
+    method: string,
+    params?: any
+  ): Promise<ExecutionResult<T>> {
+    const startTime = Date.now();
+    const product = await (this as HttpPlanClient).invoke(`${plan}:${method}`, params);
+
+    return {
+      plan: { plan, method, params },
+      product,
+      timestamp: Date.now(),
+      executionTime: Date.now() - startTime
+    };
+  }
+
+  async listPlans(): Promise<string[]> {
+    const operations = await this.introspect();
+    return [...new Set(operations.map(operation => operation.domain))];
+  }
+
+  async getPlanMetadata(plan: string): Promise<any> {
+    const operations = await this.introspect();
+    return { plan, operations: operations.filter(operation => operation.domain === plan) };
+  }
+
+  async close(): Promise<void> {
+    // No persistent connection to close
+  }
+
+  private async introspect(): Promise<OperationMetadata[]> {
+    const response = await this.request('/operations', 'introspect', { method: 'GET' });
+    const body = await response.json() as { operations: OperationMetadata[] };
+    return body.operations;
+  }
+
+  /**
+   * Send a request with the bearer token
+   *
+   * The timeout covers the wait for the response headers; the signal also
+   * aborts reading the body.
+   *
+   * @throws The PlanError of a non-2xx response, TimeoutError,
+   * CancelledError or ConnectionFailedError
+   */
+  private async request(
+    path: string,
+    operation: string,
+    init: RequestInit,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    if (signal?.aborted) {
+      throw new CancelledError(operation, 'Request aborted');
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let timedOut = false;
+    const timeout = this.config.timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, this.config.timeout)
+      : undefined;
+
+    const token = typeof this.token === 'function' ? await this.token() : this.token;
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.apiUrl}${path}`, {
+        ...init,
+        headers: { ...init.headers as Record<string, string>, ...(token && { Authorization: `Bearer ${token}` }) },
+        signal: controller.signal
+      });
+    } catch (err) {
+      if (timedOut) {
+        throw new TimeoutError(operation, this.config.timeout!);
+      }
+      if (signal?.aborted) {
+        throw new CancelledError(operation, 'Request aborted');
+      }
+      throw new ConnectionFailedError(`Request to ${this.apiUrl}${path} failed`, err as Error);
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (!response.ok) {
+      throw await responseError(response);
+    }
+    return response;
+  }
+
+  /**
+   * Yield the chunks of an NDJSON stream (one StreamFrame per line)
+   */
+  private async *readFrames(response: Response, operation: string, signal?: AbortSignal): AsyncGenerator<any> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+
+    const onAbort = () => {
+      reader.cancel().catch(() => {});
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      while (true) {
+        if (signal?.aborted) {
+          throw new CancelledError(operation, 'Request aborted');
+        }
+
+        let result: { done: boolean; value?: Uint8Array };
+        try {
+          result = await reader.read();
+        } catch (err) {
+          throw signal?.aborted
+            ? new CancelledError(operation, 'Request aborted')
+            : new ConnectionFailedError('Stream interrupted', err as Error);
+        }
+        if (signal?.aborted) {
+          throw new CancelledError(operation, 'Request aborted');
+        }
+
+        buffered += decoder.decode(result.value, { stream: !result.done });
+        const lines = buffered.split('\n');
+        buffered = lines.pop()!;
+
+        for (const line of lines.filter(line => line.trim())) {
+          const frame = JSON.parse(line) as StreamFrame<any>;
+          if (!frame.success) {
+            throw planErrorFromCode(frame.error.code, frame.error.message, frame.error.details);
+          }
+          if ('done' in frame) {
+            return;
+          }
+          yield frame.chunk;
+        }
+
+        if (result.done) {
+          throw new ConnectionFailedError('Stream ended without a final frame');
+        }
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      // Closes the connection if the consumer stopped early, which cancels the operation
+      await reader.cancel().catch(() => {});
+    }
+  }
+}
+
+/**
+ * Convert a non-2xx response to a PlanError
+ *
+ * Problem details (and JSON bodies with a `code`) keep the server's code;
+ * other bodies get the catalog code of the status.
+ */
+async function responseError(response: Response): Promise<PlanError> {
+  const text = await response.text().catch(() => '');
+
+  try {
+    const body = JSON.parse(text);
+    if (typeof body?.code === 'string') {
+      return planErrorFromCode(body.code, body.detail ?? body.message ?? response.statusText, body.details);
+    }
+  } catch {
+    // Not JSON
+  }
+
+  const code = Object.keys(ERROR_CATALOG).find(candidate => ERROR_CATALOG[candidate].status === response.status)
+    ?? (response.status >= 500 ? 'INTERNAL_ERROR' : 'VALIDATION_ERROR');
+  return planErrorFromCode(code, `HTTP ${response.status}: ${response.statusText}`);
+}
+
 /**
  * Type-Safe Plan Proxy
  *
@@ -272,8 +848,12 @@ export function createPlanProxy<T extends Record<string, (...args: any[]) => Pro
 export function createOnePlanClient(config: ClientConfig): OnePlanClient {
   if (config.transport === 'rest') {
     return new RestPlanClient(config);
+  } else if (config.transport === 'http') {
+    return new HttpPlanClient(config);
   } else if (config.transport === 'quic' || config.transport === 'websocket') {
     return new QuicPlanClient(config);
+  } else if (config.transport === 'messageport') {
+    throw new Error('MessagePort clients need a port: use new MessagePortPlanClient(port)');
   }
 
   throw new Error(`Unsupported transport: ${config.transport}`);
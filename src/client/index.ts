@@ -7,12 +7,25 @@
 export {
   OnePlanClient,
   RestPlanClient,
+  HttpPlanClient,
   QuicPlanClient,
+  MessagePortPlanClient,
   createPlanProxy,
   createOnePlanClient
 } from './OnePlanClient.js';
 
-export type { ClientConfig } from './OnePlanClient.js';
+export type {
+  ClientConfig,
+  MessagePortClientConfig,
+  MessagePortInvokeOptions,
+  HttpClientConfig,
+  HttpInvokeOptions,
+  OperationTypes
+} from './OnePlanClient.js';
+
+export type { ChatOperations } from '../types/operations/chat.js';
+
+export type { MessagePortLike } from '../messageport.js';
 
 export type {
   IOneStoragePlan,
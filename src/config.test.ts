@@ -0,0 +1,35 @@
+// Note: Using regular imports for Jest compatibility
+import { planRegistryConfig } from './config.js';
+import type { ServerConfig } from './config.js';
+import { PlanRegistry } from './PlanRegistry.js';
+import { createPlanContext } from './types/context.js';
+import { EchoPlan, authWith } from './test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect } = global as any;
+
+const config: ServerConfig = {
+  server: { host: '127.0.0.1', port: 0 },
+  instance: { name: 'test', email: 'test@refinio.local', secret: 'secret' },
+  permissions: { defaultPermissions: ['read'] },
+  logging: { level: 'error' },
+  rateLimits: {
+    limits: [{ operation: 'test:*', per: 'user', capacity: 1, refillPerSecond: 0.001 }]
+  }
+};
+
+describe('config', () => {
+  it('should apply the configured rate limits to the PlanRegistry', async () => {
+    const registry = new PlanRegistry(planRegistryConfig(config));
+    registry.register({ domain: 'test', method: 'echo', plan: new EchoPlan(), version: '1.0.0' });
+    const context = createPlanContext(
+      authWith([], 'alice'),
+      'req-1'
+    );
+
+    await registry.invoke('test:echo', 1, context);
+    await expect(registry.invoke('test:echo', 2, context)).rejects.toMatchObject({
+      code: 'RATE_LIMITED'
+    });
+  });
+});
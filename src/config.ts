@@ -1,11 +1,15 @@
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
+import type { RateLimitConfig } from './ratelimit.js';
+import type { PlanRegistryConfig } from './PlanRegistry.js';
 
 export interface ServerConfig {
   server: {
     host: string;
     port: number;
+    /** Port of the plan HTTP transport (default: port + 1) */
+    planPort?: number;
   };
   instance: {
     name: string;
@@ -30,6 +34,7 @@ export interface ServerConfig {
     level: 'debug' | 'info' | 'warn' | 'error';
     file?: string;
   };
+  rateLimits?: RateLimitConfig;
 }
 
 const defaultConfig: ServerConfig = {
@@ -53,20 +58,20 @@ const defaultConfig: ServerConfig = {
   }
 };
 
-export async function loadConfig(): Promise<ServerConfig> {
+export async function loadConfig(configPath?: string): Promise<ServerConfig> {
   // Start with defaults
   let config = { ...defaultConfig };
 
   // Load from config files (in order of precedence)
-  const configPaths = [
+  const configPaths = configPath ? [configPath] : [
     path.join(process.cwd(), 'refinio-api.config.json'),
     path.join(os.homedir(), '.refinio', 'api.config.json'),
     '/etc/refinio/api.config.json'
   ];
 
-  for (const configPath of configPaths) {
+  for (const candidate of configPaths) {
     try {
-      const content = await fs.readFile(configPath, 'utf-8');
+      const content = await fs.readFile(candidate, 'utf-8');
       const fileConfig = JSON.parse(content);
       config = { ...config, ...fileConfig };
       break; // Use first found config file
@@ -129,6 +134,13 @@ export async function loadConfig(): Promise<ServerConfig> {
   return config;
 }
 
+/**
+ * PlanRegistry settings taken from the server config
+ */
+export function planRegistryConfig(config: ServerConfig): PlanRegistryConfig {
+  return { rateLimits: config.rateLimits };
+}
+
 export async function saveConfig(config: ServerConfig, configPath?: string) {
   const targetPath = configPath || path.join(os.homedir(), '.refinio', 'api.config.json');
   
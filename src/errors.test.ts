@@ -0,0 +1,73 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from './PlanRegistry.js';
+import { NotFoundError, errorMapping, toPlanError } from './errors.js';
+import { errorFromException, problemDetails } from './types/responses.js';
+import { createTestRegistry } from './test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('error catalog', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  it('should map codes to every protocol', () => {
+    expect(errorMapping('RATE_LIMITED')).toMatchObject({ status: 429, jsonRpc: -32029, mcpIsError: true });
+    expect(errorMapping('UNKNOWN_OPERATION')).toMatchObject({ status: 404, jsonRpc: -32601, mcpIsError: false });
+    expect(errorMapping('RECIPE_NOT_FOUND').status).toBe(404);
+    expect(errorMapping('SOMETHING_ELSE').status).toBe(500);
+    expect(errorMapping('UNKNOWN_DOMAIN').status).toBe(404);
+    expect(errorMapping('DEPENDENCY_FAILED')).toMatchObject({ status: 424, jsonRpc: -32024 });
+    expect(errorMapping('constructor').status).toBe(500);
+    expect(errorMapping('toString').status).toBe(500);
+  });
+
+  it('should convert legacy thrown objects and plain errors', () => {
+    expect(toPlanError({ code: 422, message: 'bad' })).toMatchObject({ code: 'VALIDATION_ERROR', message: 'bad' });
+    expect(toPlanError({ code: 'FORBIDDEN', message: 'no' })).toMatchObject({ code: 'FORBIDDEN' });
+    expect(toPlanError(new Error('boom'))).toMatchObject({ code: 'INTERNAL_ERROR', message: 'boom' });
+    expect(toPlanError('oops')).toMatchObject({ code: 'INTERNAL_ERROR' });
+    expect(toPlanError({ code: 'CHANNEL_NOT_FOUND', message: 'gone' })).toMatchObject({ code: 'CHANNEL_NOT_FOUND' });
+  });
+
+  it('should not leak system error codes', () => {
+    const refused = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:8080'), { code: 'ECONNREFUSED' });
+    expect(toPlanError(refused)).toMatchObject({
+      code: 'INTERNAL_ERROR',
+      details: { originalMessage: refused.message }
+    });
+    expect(toPlanError({ code: 'ERR_INVALID_ARG_TYPE', message: 'bad' })).toMatchObject({
+      code: 'INTERNAL_ERROR',
+      message: 'bad'
+    });
+    expect(toPlanError({ code: 'constructor', message: 'x' }).code).toBe('INTERNAL_ERROR');
+  });
+
+  it('should format RFC 7807 problem details', () => {
+    const response = errorFromException(new NotFoundError('Recipe', 'Person'));
+
+    expect(problemDetails(response, '/api/operations/recipe:get')).toEqual({
+      type: 'urn:refinio:error:RECIPE_NOT_FOUND',
+      title: 'Not found',
+      status: 404,
+      detail: 'Recipe not found: Person',
+      instance: '/api/operations/recipe:get',
+      code: 'RECIPE_NOT_FOUND',
+      details: { id: 'Person' }
+    });
+  });
+
+  it('should surface plan errors through the registry unchanged', async () => {
+    registry.register({
+      domain: 'recipe',
+      method: 'get',
+      plan: { get: async () => { throw new NotFoundError('Recipe', 'x'); } },
+      version: '1.0.0'
+    });
+
+    await expect(registry.invoke('recipe:get', {})).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
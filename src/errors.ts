@@ -3,6 +3,10 @@
  *
  * These errors are thrown by plans and caught by transport plans for
  * appropriate formatting according to protocol conventions.
+ *
+ * Every error carries a stable string code. ERROR_CATALOG maps codes to
+ * their representation in each protocol (HTTP status, JSON-RPC error code,
+ * gRPC status, MCP tool error vs. protocol error), so all transports agree.
  */
 
 /**
@@ -58,6 +62,20 @@ export class UnknownOperationError extends PlanError {
   }
 }
 
+/**
+ * Unsupported version error - no registered version satisfies the requested range
+ */
+export class UnsupportedVersionError extends PlanError {
+  constructor(operation: string, requested: string, available: string[]) {
+    super(
+      `No version of ${operation} satisfies ${requested}`,
+      'UNSUPPORTED_VERSION',
+      { operation, requested, available }
+    );
+    this.name = 'UnsupportedVersionError';
+  }
+}
+
 /**
  * Unauthorized error - missing or invalid authentication
  */
@@ -88,6 +106,108 @@ export class NotFoundError extends PlanError {
   }
 }
 
+/**
+ * Conflict error - request conflicts with the current state of a resource
+ */
+export class ConflictError extends PlanError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, 'CONFLICT', details);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Not implemented error - operation exists but is not supported (yet)
+ */
+export class NotImplementedError extends PlanError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, 'NOT_IMPLEMENTED', details);
+    this.name = 'NotImplementedError';
+  }
+}
+
+/**
+ * Connection failed error - a remote instance or service could not be reached
+ *
+ * Transient: retried by default under a retry policy.
+ */
+export class ConnectionFailedError extends PlanError {
+  constructor(message: string, originalError?: Error) {
+    super(message, 'CONNECTION_FAILED', {
+      originalMessage: originalError?.message,
+      originalCode: (originalError as any)?.code
+    });
+    this.name = 'ConnectionFailedError';
+  }
+}
+
+/**
+ * Timeout error - operation did not complete within the allowed time
+ */
+export class TimeoutError extends PlanError {
+  constructor(operation: string, timeout: number) {
+    super(`Operation ${operation} timed out after ${timeout}ms`, 'TIMEOUT', { operation, timeout });
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Cancelled error - operation was cancelled (client disconnect or cancel request)
+ */
+export class CancelledError extends PlanError {
+  constructor(operation: string, reason = 'Cancelled by client') {
+    super(`Operation ${operation} cancelled: ${reason}`, 'CANCELLED', { operation, reason });
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Rate limited error - rate limit or quota exceeded
+ *
+ * `retryAfter` is the number of seconds after which the request may
+ * succeed (HTTP maps it to the `Retry-After` header).
+ */
+export class RateLimitedError extends PlanError {
+  constructor(
+    operation: string,
+    public retryAfter: number,
+    details?: Record<string, any>
+  ) {
+    super(`Rate limit exceeded for ${operation}`, 'RATE_LIMITED', { operation, retryAfter, ...details });
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * Circuit open error - operation failed too often and is failing fast
+ *
+ * `retryAfter` is the number of seconds until the circuit lets a probe
+ * invocation through.
+ */
+export class CircuitOpenError extends PlanError {
+  constructor(
+    operation: string,
+    public retryAfter: number
+  ) {
+    super(`Circuit open for ${operation}`, 'CIRCUIT_OPEN', { operation, retryAfter });
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Idempotency conflict error - idempotency key reused with a different request
+ */
+export class IdempotencyConflictError extends PlanError {
+  constructor(operation: string, idempotencyKey: string) {
+    super(
+      `Idempotency key ${idempotencyKey} was already used for a different ${operation} request`,
+      'IDEMPOTENCY_CONFLICT',
+      { operation, idempotencyKey }
+    );
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
 /**
  * Internal error - unexpected error occurred
  */
@@ -105,3 +225,175 @@ export class InternalError extends PlanError {
     }
   }
 }
+
+/**
+ * Representation of an error code in each protocol
+ */
+export interface ErrorMapping {
+  /**
+   * HTTP status code
+   */
+  status: number;
+
+  /**
+   * JSON-RPC 2.0 error code
+   */
+  jsonRpc: number;
+
+  /**
+   * gRPC status code
+   */
+  grpc: number;
+
+  /**
+   * MCP: report as a tool result with `isError: true` (the model sees the
+   * error and may correct its call) rather than as a JSON-RPC error
+   */
+  mcpIsError: boolean;
+
+  /**
+   * Short summary of the error type (RFC 7807 title)
+   */
+  title: string;
+}
+
+/**
+ * Error catalog: transport mapping of every standard error code
+ *
+ * Codes not listed map like INTERNAL_ERROR, except `<RESOURCE>_NOT_FOUND`
+ * codes of NotFoundError, which map like NOT_FOUND.
+ */
+export const ERROR_CATALOG: Readonly<Record<string, ErrorMapping>> = {
+  VALIDATION_ERROR: { status: 400, jsonRpc: -32602, grpc: 3, mcpIsError: true, title: 'Invalid request' },
+  UNSUPPORTED_VERSION: { status: 400, jsonRpc: -32602, grpc: 3, mcpIsError: true, title: 'Unsupported version' },
+  UNAUTHORIZED: { status: 401, jsonRpc: -32001, grpc: 16, mcpIsError: false, title: 'Unauthorized' },
+  FORBIDDEN: { status: 403, jsonRpc: -32003, grpc: 7, mcpIsError: true, title: 'Forbidden' },
+  NOT_FOUND: { status: 404, jsonRpc: -32004, grpc: 5, mcpIsError: true, title: 'Not found' },
+  UNKNOWN_OPERATION: { status: 404, jsonRpc: -32601, grpc: 12, mcpIsError: false, title: 'Unknown operation' },
+  UNKNOWN_DOMAIN: { status: 404, jsonRpc: -32601, grpc: 12, mcpIsError: false, title: 'Unknown domain' },
+  CONFLICT: { status: 409, jsonRpc: -32009, grpc: 10, mcpIsError: true, title: 'Conflict' },
+  IDEMPOTENCY_CONFLICT: { status: 422, jsonRpc: -32022, grpc: 9, mcpIsError: true, title: 'Idempotency key reused' },
+  BATCH_ABORTED: { status: 424, jsonRpc: -32024, grpc: 10, mcpIsError: true, title: 'Batch aborted' },
+  DEPENDENCY_FAILED: { status: 424, jsonRpc: -32024, grpc: 9, mcpIsError: true, title: 'Dependency failed' },
+  RATE_LIMITED: { status: 429, jsonRpc: -32029, grpc: 8, mcpIsError: true, title: 'Rate limit exceeded' },
+  CANCELLED: { status: 499, jsonRpc: -32800, grpc: 1, mcpIsError: true, title: 'Cancelled' },
+  INTERNAL_ERROR: { status: 500, jsonRpc: -32603, grpc: 13, mcpIsError: true, title: 'Internal error' },
+  INVALID_CONFIG: { status: 500, jsonRpc: -32603, grpc: 13, mcpIsError: true, title: 'Invalid configuration' },
+  INVALID_PLAN: { status: 500, jsonRpc: -32603, grpc: 13, mcpIsError: true, title: 'Invalid plan' },
+  OPERATION_COLLISION: { status: 500, jsonRpc: -32603, grpc: 13, mcpIsError: true, title: 'Operation already registered' },
+  INTERCEPTOR_COLLISION: { status: 500, jsonRpc: -32603, grpc: 13, mcpIsError: true, title: 'Interceptor already registered' },
+  NOT_IMPLEMENTED: { status: 501, jsonRpc: -32051, grpc: 12, mcpIsError: true, title: 'Not implemented' },
+  CONNECTION_FAILED: { status: 502, jsonRpc: -32052, grpc: 14, mcpIsError: true, title: 'Connection failed' },
+  CIRCUIT_OPEN: { status: 503, jsonRpc: -32053, grpc: 14, mcpIsError: true, title: 'Circuit open' },
+  TIMEOUT: { status: 504, jsonRpc: -32054, grpc: 4, mcpIsError: true, title: 'Timed out' }
+};
+
+/**
+ * Numeric codes of the former ErrorCode enum, thrown by older handlers
+ */
+const LEGACY_STATUS_CODES: Record<number, string> = {
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  422: 'VALIDATION_ERROR',
+  500: 'INTERNAL_ERROR'
+};
+
+/**
+ * Look up the transport mapping of an error code
+ */
+export function errorMapping(code: string): ErrorMapping {
+  if (Object.hasOwn(ERROR_CATALOG, code)) {
+    return ERROR_CATALOG[code];
+  }
+  return code.endsWith('_NOT_FOUND') ? ERROR_CATALOG.NOT_FOUND : ERROR_CATALOG.INTERNAL_ERROR;
+}
+
+/**
+ * Convert anything thrown into a PlanError
+ *
+ * - PlanError: returned as is
+ * - Errors and plain objects (legacy handlers) with `code` and `message`:
+ *   catalog codes and `<RESOURCE>_NOT_FOUND` codes are kept, numeric
+ *   HTTP-style codes translated
+ * - Anything else, including system codes like ECONNREFUSED: InternalError
+ */
+export function toPlanError(error: unknown): PlanError {
+  if (error instanceof PlanError) {
+    return error;
+  }
+
+  const cause = error instanceof Error ? error : undefined;
+  if (error !== null && typeof error === 'object') {
+    const { code, message, details } = error as Record<string, any>;
+    if (typeof message === 'string') {
+      const planCode = typeof code === 'string'
+        ? catalogCode(code)
+        : typeof code === 'number' ? LEGACY_STATUS_CODES[code] : undefined;
+      if (!planCode) {
+        return new InternalError(message, cause);
+      }
+
+      const planError = new PlanError(message, planCode, details);
+      if (cause) {
+        planError.stack = cause.stack;
+      }
+      return planError;
+    }
+  }
+
+  return cause
+    ? new InternalError(cause.message, cause)
+    : new InternalError(String(error));
+}
+
+/**
+ * The code itself if it is a standard code, otherwise undefined
+ */
+function catalogCode(code: string): string | undefined {
+  return Object.hasOwn(ERROR_CATALOG, code) || code.endsWith('_NOT_FOUND') ? code : undefined;
+}
+
+/**
+ * Error class of each standard code
+ */
+const ERROR_CLASSES: Record<string, new (...args: any[]) => PlanError> = {
+  VALIDATION_ERROR: ValidationError,
+  UNSUPPORTED_VERSION: UnsupportedVersionError,
+  UNAUTHORIZED: UnauthorizedError,
+  FORBIDDEN: ForbiddenError,
+  NOT_FOUND: NotFoundError,
+  UNKNOWN_OPERATION: UnknownOperationError,
+  CONFLICT: ConflictError,
+  IDEMPOTENCY_CONFLICT: IdempotencyConflictError,
+  RATE_LIMITED: RateLimitedError,
+  CANCELLED: CancelledError,
+  INTERNAL_ERROR: InternalError,
+  NOT_IMPLEMENTED: NotImplementedError,
+  CONNECTION_FAILED: ConnectionFailedError,
+  CIRCUIT_OPEN: CircuitOpenError,
+  TIMEOUT: TimeoutError
+};
+
+/**
+ * Rebuild an error received from a server as the PlanError subclass of
+ * its code (e.g. VALIDATION_ERROR as ValidationError)
+ *
+ * Message, code and details are kept as sent. `<RESOURCE>_NOT_FOUND`
+ * codes become NotFoundError, unknown codes a plain PlanError.
+ */
+export function planErrorFromCode(code: string, message: string, details?: Record<string, any>): PlanError {
+  const ErrorClass = Object.hasOwn(ERROR_CLASSES, code)
+    ? ERROR_CLASSES[code]
+    : code.endsWith('_NOT_FOUND') ? NotFoundError : PlanError;
+
+  // Subclass constructors build their own messages; run the base one instead
+  const error: PlanError = Reflect.construct(PlanError, [message, code, details], ErrorClass);
+  error.name = ErrorClass.name;
+
+  if ((error instanceof RateLimitedError || error instanceof CircuitOpenError) && typeof details?.retryAfter === 'number') {
+    error.retryAfter = details.retryAfter;
+  }
+  return error;
+}
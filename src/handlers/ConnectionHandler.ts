@@ -8,6 +8,15 @@ import { hexToUint8Array } from '@refinio/one.core/lib/util/arraybuffer-to-and-f
 import { handleNewConnection, ensureContactExists, type ProfileOptions } from '../helpers/ContactCreationHelper.js';
 import { grantAccessRightsAfterPairing } from '../helpers/AccessRightsHelper.js';
 import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
+import {
+  PlanError,
+  ValidationError,
+  TimeoutError,
+  ConnectionFailedError,
+  InternalError
+} from '../errors.js';
+
+const PAIRING_TIMEOUT_MS = 60000;
 
 /**
  * Connection Handler for refinio.api
@@ -26,6 +35,10 @@ import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
  * 3. ConnectionsModel establishes the connection via CommServer
  * 4. Both instances automatically create contact entries for each other
  * 5. Contacts become visible via listContacts() / LeuteModel.others()
+ *
+ * Failures are thrown as PlanErrors: CONNECTION_FAILED if the remote
+ * instance could not be reached, TIMEOUT if pairing did not complete,
+ * INTERNAL_ERROR otherwise.
  */
 export class ConnectionHandler {
   private leuteModel: LeuteModel;
@@ -48,10 +61,8 @@ export class ConnectionHandler {
     token?: string;
     connectionGroupName?: string;
   }): Promise<{
-    success: boolean;
-    connectionInfo?: any;
-    error?: string;
-    details?: any;
+    success: true;
+    connectionInfo: any;
   }> {
     try {
       console.log('ConnectionHandler: Establishing connection...');
@@ -59,7 +70,7 @@ export class ConnectionHandler {
       // Parse parameters
       const websocketUrl = params.websocketUrl || params.url;
       if (!websocketUrl) {
-        throw new Error('WebSocket URL is required');
+        throw new ValidationError('WebSocket URL is required');
       }
 
       // Convert hex public key to PublicKey type
@@ -107,14 +118,10 @@ export class ConnectionHandler {
     } catch (error: any) {
       console.error('ConnectionHandler: Connection failed:', error);
 
-      return {
-        success: false,
-        error: error.message,
-        details: {
-          code: error.code || 'CONNECTION_FAILED',
-          stack: error.stack
-        }
-      };
+      if (error instanceof PlanError) {
+        throw error;
+      }
+      throw new ConnectionFailedError(`Connection failed: ${error.message}`, error);
     }
   }
 
@@ -193,8 +200,8 @@ export class ConnectionHandler {
         // Set timeout to prevent infinite hangs (60 seconds should be enough)
         timeoutHandle = setTimeout(() => {
           cleanup();
-          reject(new Error('Pairing timeout - onPairingSuccess callback never fired after 60 seconds'));
-        }, 60000);
+          reject(new TimeoutError('connections:connectWithInvite', PAIRING_TIMEOUT_MS));
+        }, PAIRING_TIMEOUT_MS);
 
         // Initiate connection inside promise to catch errors
         console.log('ConnectionHandler: Establishing connection via ConnectionsModel.pairing...');
@@ -205,7 +212,7 @@ export class ConnectionHandler {
           .catch((error) => {
             console.error('ConnectionHandler: connectUsingInvitation() failed:', error);
             cleanup();
-            reject(new Error(`Failed to initiate pairing: ${error.message}`));
+            reject(new ConnectionFailedError(`Failed to initiate pairing: ${error.message}`, error));
           });
       });
 
@@ -246,14 +253,10 @@ export class ConnectionHandler {
     } catch (error: any) {
       console.error('ConnectionHandler: Connection failed:', error);
 
-      return {
-        success: false,
-        error: error.message,
-        details: {
-          code: error.code || 'CONNECTION_FAILED',
-          stack: error.stack
-        }
-      };
+      if (error instanceof PlanError) {
+        throw error;
+      }
+      throw new ConnectionFailedError(`Connection failed: ${error.message}`, error);
     }
   }
 
@@ -282,10 +285,7 @@ export class ConnectionHandler {
     } catch (error: any) {
       console.error('ConnectionHandler: Failed to create invitation:', error);
 
-      return {
-        success: false,
-        error: error.message
-      };
+      throw new InternalError(`Failed to create invitation: ${error.message}`, error);
     }
   }
 
@@ -308,10 +308,7 @@ export class ConnectionHandler {
         }))
       };
     } catch (error: any) {
-      return {
-        success: false,
-        error: error.message
-      };
+      throw new InternalError(`Failed to list connections: ${error.message}`, error);
     }
   }
 
@@ -331,10 +328,7 @@ export class ConnectionHandler {
         activeConnections: connections.filter((c: any) => c.isOnline).length
       };
     } catch (error: any) {
-      return {
-        success: false,
-        error: error.message
-      };
+      throw new InternalError(`Failed to get connection status: ${error.message}`, error);
     }
   }
 
@@ -356,9 +350,8 @@ export class ConnectionHandler {
    * @returns Array of contacts with personId, nickname, and communicationEndpoints
    */
   async listContacts(): Promise<{
-    success: boolean;
-    contacts?: any[];
-    error?: string;
+    success: true;
+    contacts: any[];
   }> {
     try {
       // Get all known persons except ourselves
@@ -391,10 +384,7 @@ export class ConnectionHandler {
         contacts
       };
     } catch (error: any) {
-      return {
-        success: false,
-        error: error.message
-      };
+      throw new InternalError(`Failed to list contacts: ${error.message}`, error);
     }
   }
 }
\ No newline at end of file
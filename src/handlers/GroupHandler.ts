@@ -1,10 +1,12 @@
 import type LeuteModel from '@refinio/one.models/lib/models/Leute/LeuteModel.js';
 import type { SHA256Hash } from '@refinio/one.core/lib/util/type-checks.js';
+import { InternalError } from '../errors.js';
 
 /**
  * Group Handler for refinio.api
  *
- * Handles Group creation with AffirmationCertificates and validation
+ * Handles Group creation with AffirmationCertificates and validation.
+ * Failures are thrown as PlanErrors.
  */
 export class GroupHandler {
   private leuteModel: LeuteModel;
@@ -65,14 +67,7 @@ export class GroupHandler {
     } catch (error: any) {
       console.error('GroupHandler: Failed to create group:', error);
 
-      return {
-        success: false,
-        error: error.message,
-        details: {
-          code: error.code || 'GROUP_CREATION_FAILED',
-          stack: error.stack
-        }
-      };
+      throw new InternalError(`Failed to create group: ${error.message}`, error);
     }
   }
 
@@ -144,14 +139,7 @@ export class GroupHandler {
     } catch (error: any) {
       console.error('GroupHandler: Validation failed:', error);
 
-      return {
-        success: false,
-        error: error.message,
-        details: {
-          code: error.code || 'VALIDATION_FAILED',
-          stack: error.stack
-        }
-      };
+      throw new InternalError(`Group validation failed: ${error.message}`, error);
     }
   }
 
@@ -185,14 +173,7 @@ export class GroupHandler {
     } catch (error: any) {
       console.error('GroupHandler: Certificate check failed:', error);
 
-      return {
-        success: false,
-        error: error.message,
-        details: {
-          code: error.code || 'CERTIFICATE_CHECK_FAILED',
-          stack: error.stack
-        }
-      };
+      throw new InternalError(`Certificate check failed: ${error.message}`, error);
     }
   }
 
@@ -208,10 +189,7 @@ export class GroupHandler {
         contacts
       };
     } catch (error: any) {
-      return {
-        success: false,
-        error: error.message
-      };
+      throw new InternalError(`Failed to get contacts: ${error.message}`, error);
     }
   }
 
@@ -227,10 +205,7 @@ export class GroupHandler {
         myId
       };
     } catch (error: any) {
-      return {
-        success: false,
-        error: error.message
-      };
+      throw new InternalError(`Failed to get identity: ${error.message}`, error);
     }
   }
 }
@@ -4,7 +4,7 @@ import { storeVersionedObject, getObjectByIdHash } from '@refinio/one.core/lib/s
 import { storeUnversionedObject, getObject } from '@refinio/one.core/lib/storage-unversioned-objects.js';
 import type { SHA256Hash, SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
 import type { OneObjectTypes, OneVersionedObjectTypes, OneUnversionedObjectTypes } from '@refinio/one.core/lib/recipes.js';
-import { ErrorCode } from '../types.js';
+import { InternalError, NotFoundError, NotImplementedError } from '../errors.js';
 
 export interface CreateRequest {
   type: string;
@@ -68,10 +68,7 @@ export class ObjectHandler {
         };
       }
     } catch (error: any) {
-      throw {
-        code: ErrorCode.INTERNAL_ERROR,
-        message: `Failed to create object: ${error.message}`
-      };
+      throw new InternalError(`Failed to create object: ${error.message}`, error);
     }
   }
 
@@ -101,10 +98,7 @@ export class ObjectHandler {
         };
       }
     } catch (error: any) {
-      throw {
-        code: ErrorCode.NOT_FOUND,
-        message: `Object not found: ${error.message}`
-      };
+      throw new NotFoundError('Object', request.hash);
     }
   }
 
@@ -134,10 +128,7 @@ export class ObjectHandler {
         versioned: true
       };
     } catch (error: any) {
-      throw {
-        code: ErrorCode.INTERNAL_ERROR,
-        message: `Failed to update object: ${error.message}`
-      };
+      throw new InternalError(`Failed to update object: ${error.message}`, error);
     }
   }
 
@@ -149,10 +140,7 @@ export class ObjectHandler {
     // For versioned objects, you would typically store a new version with a "deleted" flag
     // For unversioned objects, deletion is not supported by design
     
-    throw {
-      code: ErrorCode.INTERNAL_ERROR,
-      message: 'Delete operation not implemented - ONE.core uses immutable storage'
-    };
+    throw new NotImplementedError('Delete operation not implemented - ONE.core uses immutable storage');
   }
 
   /**
@@ -168,10 +156,7 @@ export class ObjectHandler {
         message: 'Query functionality requires reverse maps setup'
       };
     } catch (error: any) {
-      throw {
-        code: ErrorCode.INTERNAL_ERROR,
-        message: `Query failed: ${error.message}`
-      };
+      throw new InternalError(`Query failed: ${error.message}`, error);
     }
   }
 }
\ No newline at end of file
@@ -5,7 +5,7 @@ import { getAllEntries } from '@refinio/one.core/lib/reverse-map-query.js';
 import type { SHA256Hash, SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
 import type { Person } from '@refinio/one.core/lib/recipes.js';
 import type { Profile } from '@refinio/one.models/lib/recipes/Leute/Profile.js';
-import { ErrorCode } from '../types.js';
+import { PlanError, ForbiddenError, ValidationError, NotImplementedError, InternalError } from '../errors.js';
 import { InstanceAuthManager, AuthSession } from '../auth/InstanceAuthManager.js';
 import crypto from 'crypto';
 
@@ -50,10 +50,7 @@ export class ProfileHandler {
     try {
       // Check permissions
       if (!this.authManager.hasPermission(session, 'write')) {
-        throw {
-          code: ErrorCode.FORBIDDEN,
-          message: 'Insufficient permissions to create profile'
-        };
+        throw new ForbiddenError('Insufficient permissions to create profile');
       }
 
       // Create Profile object
@@ -74,11 +71,8 @@ export class ProfileHandler {
         hash: result.hash
       };
     } catch (error: any) {
-      if (error.code) throw error;
-      throw {
-        code: ErrorCode.INTERNAL_ERROR,
-        message: `Failed to create profile: ${error.message}`
-      };
+      if (error instanceof PlanError) throw error;
+      throw new InternalError(`Failed to create profile: ${error.message}`, error);
     }
   }
 
@@ -89,10 +83,7 @@ export class ProfileHandler {
     try {
       // Check permissions
       if (!this.authManager.hasPermission(session, 'read')) {
-        throw {
-          code: ErrorCode.FORBIDDEN,
-          message: 'Insufficient permissions to read profile'
-        };
+        throw new ForbiddenError('Insufficient permissions to read profile');
       }
 
       if (request.profileId) {
@@ -106,22 +97,13 @@ export class ProfileHandler {
       } else if (request.email) {
         // Search by email would require reverse maps or indexing
         // For now, return an error
-        throw {
-          code: ErrorCode.INTERNAL_ERROR,
-          message: 'Search by email not yet implemented'
-        };
+        throw new NotImplementedError('Search by email not yet implemented');
       } else {
-        throw {
-          code: ErrorCode.VALIDATION_ERROR,
-          message: 'Must provide profileId or email'
-        };
+        throw new ValidationError('Must provide profileId or email');
       }
     } catch (error: any) {
-      if (error.code) throw error;
-      throw {
-        code: ErrorCode.INTERNAL_ERROR,
-        message: `Failed to get profile: ${error.message}`
-      };
+      if (error instanceof PlanError) throw error;
+      throw new InternalError(`Failed to get profile: ${error.message}`, error);
     }
   }
 
@@ -132,10 +114,7 @@ export class ProfileHandler {
     try {
       // Check permissions
       if (!this.authManager.hasPermission(session, 'write')) {
-        throw {
-          code: ErrorCode.FORBIDDEN,
-          message: 'Insufficient permissions to update profile'
-        };
+        throw new ForbiddenError('Insufficient permissions to update profile');
       }
 
       // Get current profile
@@ -144,10 +123,7 @@ export class ProfileHandler {
 
       // Check ownership or admin permission
       if (!session.isOwner && !this.authManager.hasPermission(session, 'admin')) {
-        throw {
-          code: ErrorCode.FORBIDDEN,
-          message: 'Can only update your own profile'
-        };
+        throw new ForbiddenError('Can only update your own profile');
       }
 
       // Merge updates
@@ -167,11 +143,8 @@ export class ProfileHandler {
         hash: result.hash
       };
     } catch (error: any) {
-      if (error.code) throw error;
-      throw {
-        code: ErrorCode.INTERNAL_ERROR,
-        message: `Failed to update profile: ${error.message}`
-      };
+      if (error instanceof PlanError) throw error;
+      throw new InternalError(`Failed to update profile: ${error.message}`, error);
     }
   }
 
@@ -182,10 +155,7 @@ export class ProfileHandler {
     try {
       // Check permissions
       if (!this.authManager.hasPermission(session, 'admin')) {
-        throw {
-          code: ErrorCode.FORBIDDEN,
-          message: 'Only admins can delete profiles'
-        };
+        throw new ForbiddenError('Only admins can delete profiles');
       }
 
       // Get current profile
@@ -210,11 +180,8 @@ export class ProfileHandler {
         hash: result.hash
       };
     } catch (error: any) {
-      if (error.code) throw error;
-      throw {
-        code: ErrorCode.INTERNAL_ERROR,
-        message: `Failed to delete profile: ${error.message}`
-      };
+      if (error instanceof PlanError) throw error;
+      throw new InternalError(`Failed to delete profile: ${error.message}`, error);
     }
   }
 
@@ -225,10 +192,7 @@ export class ProfileHandler {
     try {
       // Check permissions
       if (!this.authManager.hasPermission(session, 'admin')) {
-        throw {
-          code: ErrorCode.FORBIDDEN,
-          message: 'Only admins can list all profiles'
-        };
+        throw new ForbiddenError('Only admins can list all profiles');
       }
 
       // This would require proper reverse map setup
@@ -239,11 +203,8 @@ export class ProfileHandler {
         message: 'Profile listing requires reverse map configuration'
       };
     } catch (error: any) {
-      if (error.code) throw error;
-      throw {
-        code: ErrorCode.INTERNAL_ERROR,
-        message: `Failed to list profiles: ${error.message}`
-      };
+      if (error instanceof PlanError) throw error;
+      throw new InternalError(`Failed to list profiles: ${error.message}`, error);
     }
   }
 
@@ -254,10 +215,7 @@ export class ProfileHandler {
     try {
       // Check permissions
       if (!this.authManager.hasPermission(session, 'admin')) {
-        throw {
-          code: ErrorCode.FORBIDDEN,
-          message: 'Only admins can issue credentials'
-        };
+        throw new ForbiddenError('Only admins can issue credentials');
       }
 
       const credential = {
@@ -279,11 +237,8 @@ export class ProfileHandler {
         hash: result.hash
       };
     } catch (error: any) {
-      if (error.code) throw error;
-      throw {
-        code: ErrorCode.INTERNAL_ERROR,
-        message: `Failed to create credential: ${error.message}`
-      };
+      if (error instanceof PlanError) throw error;
+      throw new InternalError(`Failed to create credential: ${error.message}`, error);
     }
   }
 }
\ No newline at end of file
@@ -2,7 +2,7 @@ import '@refinio/one.core/lib/system/load-nodejs.js';
 import { registerRecipes } from '@refinio/one.core/lib/instance.js';
 import { getRecipe, hasRecipe, addRecipeToRuntime } from '@refinio/one.core/lib/object-recipes.js';
 import type { Recipe } from '@refinio/one.core/lib/recipes.js';
-import { ErrorCode } from '../types.js';
+import { PlanError, ValidationError, NotFoundError, InternalError } from '../errors.js';
 
 export interface RecipeRegisterRequest {
   recipe: Recipe;  // Recipe object
@@ -23,17 +23,11 @@ export class RecipeHandler {
       
       // Validate recipe structure
       if (!recipe.$type$ || recipe.$type$ !== 'Recipe') {
-        throw {
-          code: ErrorCode.VALIDATION_ERROR,
-          message: 'Invalid recipe: must have $type$ = "Recipe"'
-        };
+        throw new ValidationError('Invalid recipe: must have $type$ = "Recipe"');
       }
       
       if (!recipe.name) {
-        throw {
-          code: ErrorCode.VALIDATION_ERROR,
-          message: 'Invalid recipe: missing name'
-        };
+        throw new ValidationError('Invalid recipe: missing name');
       }
       
       // Add recipe to runtime (for immediate use)
@@ -47,11 +41,8 @@ export class RecipeHandler {
         message: `Recipe '${String(recipe.name)}' registered successfully`
       };
     } catch (error: any) {
-      if (error.code) throw error;
-      throw {
-        code: ErrorCode.INTERNAL_ERROR,
-        message: `Failed to register recipe: ${error.message}`
-      };
+      if (error instanceof PlanError) throw error;
+      throw new InternalError(`Failed to register recipe: ${error.message}`, error);
     }
   }
 
@@ -61,10 +52,7 @@ export class RecipeHandler {
   async get(request: RecipeGetRequest): Promise<any> {
     try {
       if (!hasRecipe(request.name)) {
-        throw {
-          code: ErrorCode.NOT_FOUND,
-          message: `Recipe '${request.name}' not found`
-        };
+        throw new NotFoundError('Recipe', request.name);
       }
       
       const recipe = getRecipe(request.name as any);
@@ -74,11 +62,8 @@ export class RecipeHandler {
         recipe
       };
     } catch (error: any) {
-      if (error.code) throw error;
-      throw {
-        code: ErrorCode.INTERNAL_ERROR,
-        message: `Failed to get recipe: ${error.message}`
-      };
+      if (error instanceof PlanError) throw error;
+      throw new InternalError(`Failed to get recipe: ${error.message}`, error);
     }
   }
 
@@ -96,10 +81,7 @@ export class RecipeHandler {
         message: 'Recipe listing not fully implemented - requires registry'
       };
     } catch (error: any) {
-      throw {
-        code: ErrorCode.INTERNAL_ERROR,
-        message: `Failed to list recipes: ${error.message}`
-      };
+      throw new InternalError(`Failed to list recipes: ${error.message}`, error);
     }
   }
 
@@ -109,10 +91,7 @@ export class RecipeHandler {
   async execute(request: { recipeName: string; data: any }): Promise<any> {
     try {
       if (!hasRecipe(request.recipeName)) {
-        throw {
-          code: ErrorCode.NOT_FOUND,
-          message: `Recipe '${request.recipeName}' not found`
-        };
+        throw new NotFoundError('Recipe', request.recipeName);
       }
       
       const recipe = getRecipe(request.recipeName as any);
@@ -132,11 +111,8 @@ export class RecipeHandler {
         message: `Object created from recipe '${request.recipeName}'`
       };
     } catch (error: any) {
-      if (error.code) throw error;
-      throw {
-        code: ErrorCode.INTERNAL_ERROR,
-        message: `Failed to execute recipe: ${error.message}`
-      };
+      if (error instanceof PlanError) throw error;
+      throw new InternalError(`Failed to execute recipe: ${error.message}`, error);
     }
   }
 }
\ No newline at end of file
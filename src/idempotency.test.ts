@@ -0,0 +1,77 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from './PlanRegistry.js';
+import { createPlanContext } from './types/context.js';
+import { authWith, createTestRegistry } from './test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('idempotency', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  let calls: number;
+
+  class CounterPlan {
+    async create(request: { name: string }) {
+      calls++;
+      if (request.name === 'fail' && calls === 1) {
+        throw new Error('Transient failure');
+      }
+      return { id: calls, name: request.name };
+    }
+  }
+
+  function keyed(idempotencyKey: string) {
+    return createPlanContext(
+      authWith([]),
+      'req-1',
+      { idempotencyKey }
+    );
+  }
+
+  beforeEach(() => {
+    calls = 0;
+    registry.register({ domain: 'counter', method: 'create', plan: new CounterPlan(), version: '1.0.0' });
+  });
+
+  it('should replay the first result for retries with the same key', async () => {
+    const first = await registry.invoke('counter:create', { name: 'a' }, keyed('k1'));
+    const retry = await registry.invoke('counter:create', { name: 'a' }, keyed('k1'));
+    const other = await registry.invoke('counter:create', { name: 'a' }, keyed('k2'));
+
+    expect(retry).toEqual(first);
+    expect(other).toEqual({ id: 2, name: 'a' });
+    expect(calls).toBe(2);
+  });
+
+  it('should share the result with concurrent retries', async () => {
+    const results = await Promise.all([
+      registry.invoke('counter:create', { name: 'a' }, keyed('k1')),
+      registry.invoke('counter:create', { name: 'a' }, keyed('k1'))
+    ]);
+
+    expect(results[0]).toBe(results[1]);
+    expect(calls).toBe(1);
+  });
+
+  it('should reject a different request under the same key', async () => {
+    await registry.invoke('counter:create', { name: 'a' }, keyed('k1'));
+
+    await expect(
+      registry.invoke('counter:create', { name: 'b' }, keyed('k1'))
+    ).rejects.toMatchObject({ code: 'IDEMPOTENCY_CONFLICT' });
+  });
+
+  it('should run the plan again after a failure', async () => {
+    await expect(
+      registry.invoke('counter:create', { name: 'fail' }, keyed('k1'))
+    ).rejects.toThrow('Transient failure');
+
+    const retry = await registry.invoke('counter:create', { name: 'fail' }, keyed('k1'));
+    expect(retry).toEqual({ id: 2, name: 'fail' });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Idempotency keys - replay-safe responses for retried requests
+ *
+ * Clients that retry mutating operations (e.g. after a network error)
+ * send an idempotency key with every attempt. Transports put it into
+ * `context.metadata.idempotencyKey` (HTTP `Idempotency-Key` header, stdio
+ * `idempotencyKey` field). The first invocation with a key runs the plan;
+ * retries with the same key and an identical request get the stored result
+ * instead of running the plan again - also while the first invocation is
+ * still in progress.
+ *
+ * Keys are scoped to the calling user and the operation. Reusing a key
+ * with a different request is rejected with IDEMPOTENCY_CONFLICT.
+ *
+ * Only successful results are stored: a failed invocation releases its key
+ * so the retry runs the plan again. Streaming results are never stored.
+ */
+
+import { createHash } from 'crypto';
+import type { PlanInterceptor } from './interceptors.js';
+import type { PlanContext } from './types/context.js';
+import { IdempotencyConflictError } from './errors.js';
+import type { PlanError } from './errors.js';
+import { InterceptorPriority } from './interceptors.js';
+import { isAsyncIterable } from './streaming.js';
+
+interface IdempotencyEntry {
+  requestHash: string;
+  response: Promise<any>;
+  expiresAt: number;
+}
+
+const PRUNE_INTERVAL_MS = 60_000;
+
+/**
+ * Hash a request payload (stable across key order)
+ */
+export function hashRequest(request: unknown): string {
+  return createHash('sha256').update(stableStringify(request) ?? 'undefined').digest('hex');
+}
+
+/**
+ * In-memory store of responses by idempotency key
+ */
+export class IdempotencyCache {
+  private entries = new Map<string, IdempotencyEntry>();
+  private lastPrune = 0;
+
+  /**
+   * @param ttl - How long responses are kept (ms)
+   */
+  constructor(private ttl: number) {}
+
+  /**
+   * Run an invocation once per key
+   *
+   * @param scope - Scoped key (user, operation and idempotency key)
+   * @param requestHash - Hash of the request payload
+   * @param run - Performs the invocation
+   * @param conflict - Creates the error for a key reused with a different request
+   * @returns Result of the first invocation with this key
+   * @throws The conflict error if the key was used with a different request
+   */
+  execute(
+    scope: string,
+    requestHash: string,
+    run: () => Promise<any>,
+    conflict: () => PlanError,
+    now = Date.now()
+  ): Promise<any> {
+    if (now - this.lastPrune >= PRUNE_INTERVAL_MS) {
+      this.prune(now);
+    }
+
+    const existing = this.entries.get(scope);
+    if (existing && existing.expiresAt > now) {
+      if (existing.requestHash !== requestHash) {
+        return Promise.reject(conflict());
+      }
+      return existing.response;
+    }
+
+    const entry: IdempotencyEntry = {
+      requestHash,
+      response: run(),
+      expiresAt: now + this.ttl
+    };
+    this.entries.set(scope, entry);
+
+    const release = () => {
+      if (this.entries.get(scope) === entry) {
+        this.entries.delete(scope);
+      }
+    };
+    entry.response.then(
+      result => {
+        if (isAsyncIterable(result)) {
+          release();
+        }
+      },
+      release
+    );
+
+    return entry.response;
+  }
+
+  /**
+   * Forget the response stored under a key, so the next invocation runs
+   */
+  forget(scope: string): void {
+    this.entries.delete(scope);
+  }
+
+  /**
+   * Number of stored keys (including expired ones not yet pruned)
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Forget all stored responses
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Drop expired entries
+   */
+  private prune(now: number): void {
+    this.lastPrune = now;
+    for (const [scope, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(scope);
+      }
+    }
+  }
+}
+
+/**
+ * Cache key of an invocation: user, operation and idempotency key
+ *
+ * @returns undefined if the context carries no idempotency key
+ */
+export function idempotencyScope(operation: string, context?: PlanContext): string | undefined {
+  const key = context?.metadata?.idempotencyKey;
+  if (typeof key !== 'string' || key === '') {
+    return undefined;
+  }
+  return `${context!.auth.userId}|${operation}|${key}`;
+}
+
+/**
+ * Built-in idempotency handling
+ *
+ * Applies to invocations whose context carries `metadata.idempotencyKey`.
+ * Runs after authorization and validation, so rejected requests never
+ * occupy a key.
+ */
+export function createIdempotencyInterceptor(cache: IdempotencyCache): PlanInterceptor {
+  return {
+    name: 'idempotency',
+    priority: InterceptorPriority.IDEMPOTENCY,
+    async around({ operation, request, context }, next) {
+      const scope = idempotencyScope(operation, context);
+      if (scope === undefined) {
+        return next();
+      }
+
+      return cache.execute(
+        scope,
+        hashRequest(request),
+        next,
+        () => new IdempotencyConflictError(operation, context!.metadata!.idempotencyKey)
+      );
+    }
+  };
+}
+
+/**
+ * JSON.stringify with sorted object keys
+ */
+function stableStringify(value: unknown): string | undefined {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (typeof (value as any).toJSON === 'function') {
+    return stableStringify((value as any).toJSON());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item) ?? 'null').join(',')}]`;
+  }
+
+  const entries = Object.keys(value)
+    .sort()
+    .map(key => {
+      const item = stableStringify((value as Record<string, unknown>)[key]);
+      return item === undefined ? undefined : `${JSON.stringify(key)}:${item}`;
+    })
+    .filter(Boolean);
+  return `{${entries.join(',')}}`;
+}
@@ -1,6 +1,9 @@
 /**
  * @refinio/api - Main entry point
  *
- * Re-exports all plan system components for easy access.
+ * Re-exports all plan system components for easy access, and the
+ * server startup used by the CLI.
  */
 export * from './plan-system-index.js';
+export { startApiServer } from './server/startApiServer.js';
+export type { ApiServer, ApiServerOptions } from './server/startApiServer.js';
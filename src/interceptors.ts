@@ -0,0 +1,319 @@
+/**
+ * Interceptors - Cross-cutting behavior for PlanRegistry.invoke()
+ *
+ * Interceptors wrap every operation invocation and can observe, modify or
+ * short-circuit it. They are ordered by priority: lower priorities run first
+ * (outermost), higher priorities run closer to the plan method.
+ *
+ * Each interceptor may implement any combination of:
+ * - before: runs before the plan, may rewrite request/context or short-circuit
+ * - around: wraps the rest of the chain via next()
+ * - after:  runs after the plan, may transform the result
+ *
+ * Built-in interceptors (metrics, cancellation, rate limits, capability
+ * checks, validation, idempotency, retries, circuit breaking) use the same
+ * mechanism and can be removed or replaced by name.
+ */
+
+import type { PlanMetadata } from './types/metadata.js';
+import type { PlanContext } from './types/context.js';
+import { ForbiddenError } from './errors.js';
+import { hasCapability, findDenial } from './types/context.js';
+import { isAsyncIterable, observeStream } from './streaming.js';
+
+/**
+ * Well-known interceptor priorities
+ *
+ * Lower values run first (outermost in the chain).
+ */
+export const InterceptorPriority = {
+  /** Metrics and timing - wraps everything else */
+  METRICS: 0,
+  /** Cancellation/timeout enforcement - inside metrics so aborts count as failures */
+  CANCELLATION: 50,
+  /** Authorization - runs before any custom interceptor */
+  AUTHORIZATION: 100,
+  /** Rate limits and quotas - only authorized callers consume tokens */
+  RATE_LIMIT: 150,
+  /** Request/response schema validation */
+  VALIDATION: 200,
+  /** Idempotency key replay - only for authorized, valid requests */
+  IDEMPOTENCY: 300,
+  /** Retries - replayed attempts skip authorization, validation and idempotency */
+  RETRY: 400,
+  /** Circuit breaking - inside retries so every attempt counts */
+  CIRCUIT_BREAKER: 450,
+  /** Default for custom interceptors */
+  DEFAULT: 500
+} as const;
+
+/**
+ * A single operation invocation as seen by interceptors
+ *
+ * `request` and `context` are mutable: interceptors may replace them
+ * to rewrite what the plan method receives.
+ */
+export interface Invocation {
+  /**
+   * Full operation name (domain:method)
+   */
+  operation: string;
+
+  /**
+   * Registered metadata for the operation
+   */
+  metadata: PlanMetadata;
+
+  /**
+   * Request payload passed to the plan method
+   */
+  request: any;
+
+  /**
+   * Execution context (absent for internal calls without context)
+   */
+  context?: PlanContext;
+}
+
+/**
+ * Short-circuit result returned from `before`
+ *
+ * Returning this skips the rest of the chain, including the plan method.
+ */
+export interface ShortCircuit {
+  result: any;
+}
+
+/**
+ * Continuation passed to `around`
+ */
+export type NextInterceptor = () => Promise<any>;
+
+/**
+ * Interceptor definition
+ */
+export interface PlanInterceptor {
+  /**
+   * Unique interceptor name (used for removal and introspection)
+   */
+  name: string;
+
+  /**
+   * Ordering priority (default: InterceptorPriority.DEFAULT)
+   */
+  priority?: number;
+
+  /**
+   * Called before the rest of the chain
+   *
+   * Throw to reject the invocation; return a ShortCircuit to answer it
+   * without invoking the plan.
+   */
+  before?(invocation: Invocation): void | ShortCircuit | Promise<void | ShortCircuit>;
+
+  /**
+   * Wraps the rest of the chain
+   *
+   * Must call next() to continue, or return a value to short-circuit.
+   */
+  around?(invocation: Invocation, next: NextInterceptor): Promise<any>;
+
+  /**
+   * Called with the result of the rest of the chain
+   *
+   * The returned value replaces the result.
+   */
+  after?(invocation: Invocation, result: any): any | Promise<any>;
+}
+
+/**
+ * Sort interceptors by priority (stable for equal priorities)
+ */
+export function sortInterceptors(interceptors: PlanInterceptor[]): PlanInterceptor[] {
+  return interceptors
+    .map((interceptor, index) => ({ interceptor, index }))
+    .sort((a, b) => {
+      const pa = a.interceptor.priority ?? InterceptorPriority.DEFAULT;
+      const pb = b.interceptor.priority ?? InterceptorPriority.DEFAULT;
+      return pa - pb || a.index - b.index;
+    })
+    .map(({ interceptor }) => interceptor);
+}
+
+/**
+ * Run an invocation through a sorted interceptor chain
+ *
+ * @param interceptors - Interceptors sorted by priority
+ * @param invocation - Invocation to process
+ * @param terminal - Final step (invokes the plan method)
+ */
+export function runInterceptors(
+  interceptors: PlanInterceptor[],
+  invocation: Invocation,
+  terminal: (invocation: Invocation) => Promise<any>
+): Promise<any> {
+  const dispatch = async (index: number): Promise<any> => {
+    if (index >= interceptors.length) {
+      return terminal(invocation);
+    }
+
+    const interceptor = interceptors[index];
+    const next = () => dispatch(index + 1);
+
+    if (interceptor.before) {
+      const shortCircuit = await interceptor.before(invocation);
+      if (shortCircuit && 'result' in shortCircuit) {
+        return shortCircuit.result;
+      }
+    }
+
+    let result = interceptor.around
+      ? await interceptor.around(invocation, next)
+      : await next();
+
+    if (interceptor.after) {
+      result = await interceptor.after(invocation, result);
+    }
+
+    return result;
+  };
+
+  return dispatch(0);
+}
+
+/**
+ * Built-in capability check
+ *
+ * Rejects invocations whose context lacks the operation's required
+ * capability - resolved from the request if the operation declares
+ * `resolveCapability` - or whose capabilities deny it.
+ * Invocations without context (internal calls) are not checked.
+ */
+export function createCapabilityInterceptor(): PlanInterceptor {
+  return {
+    name: 'capabilities',
+    priority: InterceptorPriority.AUTHORIZATION,
+    before({ operation, metadata, request, context }) {
+      if (!context) {
+        return;
+      }
+
+      const resolved = metadata.resolveCapability?.(request, context) ?? metadata.requiredCapability;
+      const required = resolved === undefined ? [] : ([] as string[]).concat(resolved);
+
+      for (const capability of required) {
+        const denied = findDenial(context.auth, capability);
+        if (denied !== undefined || !hasCapability(context.auth, capability)) {
+          throw new ForbiddenError(
+            `Insufficient permissions for ${operation}`,
+            {
+              required: capability,
+              actual: context.auth.capabilities,
+              ...(denied !== undefined && { denied })
+            }
+          );
+        }
+      }
+    }
+  };
+}
+
+/**
+ * A completed invocation as reported to the metrics sink
+ */
+export interface MetricsSample {
+  /**
+   * Full operation name (domain:method)
+   */
+  operation: string;
+
+  /**
+   * Duration (ms); for streaming results, until the stream ended
+   */
+  duration: number;
+
+  /**
+   * Error thrown by the invocation or stream (undefined on success)
+   */
+  error?: unknown;
+
+  /**
+   * Time to first chunk (ms), only for streams that produced a chunk
+   */
+  timeToFirstChunk?: number;
+
+  /**
+   * Invocation context (absent for internal calls)
+   */
+  context?: PlanContext;
+}
+
+/**
+ * Metrics sink used by the built-in metrics interceptor
+ */
+export type MetricsRecorder = (sample: MetricsSample) => void;
+
+/**
+ * Built-in metrics collection and slow operation logging
+ *
+ * Streaming results are wrapped so that metrics are recorded when the
+ * stream ends rather than when the iterator is returned.
+ *
+ * @param record - Receives duration and outcome of every invocation
+ * @param slowOperationThreshold - Log operations slower than this (ms)
+ */
+export function createMetricsInterceptor(
+  record: MetricsRecorder,
+  slowOperationThreshold: number
+): PlanInterceptor {
+  const complete = (
+    { operation, context }: Invocation,
+    startTime: number,
+    error?: unknown,
+    timeToFirstChunk?: number
+  ) => {
+    const duration = performance.now() - startTime;
+    record({ operation, duration, error, timeToFirstChunk, context });
+
+    // Log slow operations
+    if (error === undefined && duration > slowOperationThreshold) {
+      console.warn(
+        `Slow operation: ${operation} took ${duration.toFixed(2)}ms`
+      );
+    }
+  };
+
+  return {
+    name: 'metrics',
+    priority: InterceptorPriority.METRICS,
+    async around(invocation, next) {
+      const startTime = performance.now();
+
+      let result: any;
+      try {
+        result = await next();
+      } catch (error) {
+        // Update metrics (failure)
+        complete(invocation, startTime, error);
+        throw error;
+      }
+
+      if (!isAsyncIterable(result)) {
+        // Update metrics (success)
+        complete(invocation, startTime);
+        return result;
+      }
+
+      // Streaming - record once the consumer is done with the stream
+      let timeToFirstChunk: number | undefined;
+      return observeStream(result, {
+        onFirstChunk: () => {
+          timeToFirstChunk = performance.now() - startTime;
+        },
+        onEnd: (error) => {
+          complete(invocation, startTime, error, timeToFirstChunk);
+        }
+      });
+    }
+  };
+}
@@ -0,0 +1,61 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from './PlanRegistry.js';
+import { toPlanError } from './errors.js';
+import { error as errorResponse } from './types/responses.js';
+import { handleJsonRpc, JsonRpcErrorCode } from './jsonrpc.js';
+import { contextWith, createTestRegistry } from './test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('json-rpc', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  const handlers = () => ({
+    invoke: async ({ operation, request }: any) => {
+      try {
+        return { success: true as const, result: await registry.invoke(operation, request, contextWith(['test:echo'])) };
+      } catch (err) {
+        const error = toPlanError(err);
+        return errorResponse(error.code, error.message, error.details);
+      }
+    }
+  });
+
+  it('should map requests and errors', async () => {
+    expect(await handleJsonRpc(
+      { jsonrpc: '2.0', id: 1, method: 'test:echo', params: { a: 1 } },
+      handlers()
+    )).toEqual({ jsonrpc: '2.0', id: 1, result: { echoed: { a: 1 } } });
+
+    expect(await handleJsonRpc(
+      { jsonrpc: '2.0', id: 'x', method: 'test:missing' },
+      handlers()
+    )).toMatchObject({ id: 'x', error: { code: -32601, data: { code: 'UNKNOWN_OPERATION' } } });
+
+    expect(await handleJsonRpc({ method: 'test:echo', id: 2 }, handlers()))
+      .toMatchObject({ id: 2, error: { code: JsonRpcErrorCode.INVALID_REQUEST } });
+  });
+
+  it('should answer batches without notifications', async () => {
+    const calls: string[] = [];
+    const invoke = handlers().invoke;
+
+    const response = await handleJsonRpc([
+      { jsonrpc: '2.0', id: 1, method: 'test:echo', params: [{ b: 2 }, { version: '^1.0.0' }] },
+      { jsonrpc: '2.0', method: 'test:echo', params: { notified: true } },
+      { jsonrpc: '2.0', id: 3, method: 'test:echo', params: 'bad' }
+    ], { invoke: (call) => { calls.push(call.operation); return invoke(call); } });
+
+    expect(calls).toEqual(['test:echo', 'test:echo']);
+    expect(response).toEqual([
+      { jsonrpc: '2.0', id: 1, result: { echoed: { b: 2 } } },
+      { jsonrpc: '2.0', id: 3, error: { code: JsonRpcErrorCode.INVALID_PARAMS, message: expect.any(String) } }
+    ]);
+    expect(await handleJsonRpc([{ jsonrpc: '2.0', method: 'test:echo' }], handlers())).toBeUndefined();
+  });
+});
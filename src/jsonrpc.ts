@@ -0,0 +1,273 @@
+/**
+ * JSON-RPC 2.0 - protocol mapping for PlanRegistry operations
+ *
+ * Maps JSON-RPC requests onto operations so that editors, scripts and
+ * LSP-style clients can call them without our `{operation, request}` shape:
+ *
+ * ```json
+ * {"jsonrpc":"2.0","id":1,"method":"chat:send","params":{"text":"hi"}}
+ * {"jsonrpc":"2.0","id":1,"result":{...}}
+ * ```
+ *
+ * - method: operation name (domain:method)
+ * - params: the request by name, or by position as `[request, options]`
+ *   where options may carry `version` and `idempotencyKey`
+ * - Requests without `id` are notifications: they run but get no response
+ * - Batch arrays run concurrently; the response array omits notifications
+ * - Errors carry the catalog's JSON-RPC code; `data.code` keeps the
+ *   PlanError code
+ * - Streaming results are collected into an array
+ * - `$/cancelRequest` with `{id}` cancels an in-flight request where the
+ *   transport supports it
+ *
+ * Transports parse the payload and supply an invoker; this module is
+ * protocol-only.
+ */
+
+import { errorMapping, toPlanError } from './errors.js';
+import { isAsyncIterable } from './streaming.js';
+import { error as errorResponse } from './types/responses.js';
+import type { ErrorResponse, OperationResponse } from './types/responses.js';
+
+/**
+ * Standard JSON-RPC 2.0 error codes
+ */
+export const JsonRpcErrorCode = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603
+} as const;
+
+/**
+ * Method name of the cancellation notification
+ */
+export const JSONRPC_CANCEL_METHOD = '$/cancelRequest';
+
+export type JsonRpcId = string | number | null;
+
+/**
+ * JSON-RPC request or notification (no `id`)
+ */
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, any> | any[];
+  id?: JsonRpcId;
+}
+
+/**
+ * JSON-RPC error object
+ */
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: {
+    /**
+     * PlanError code (e.g. RATE_LIMITED)
+     */
+    code: string;
+    details?: Record<string, any>;
+  };
+}
+
+export interface JsonRpcSuccess {
+  jsonrpc: '2.0';
+  result: unknown;
+  id: JsonRpcId;
+}
+
+export interface JsonRpcFailure {
+  jsonrpc: '2.0';
+  error: JsonRpcError;
+  id: JsonRpcId;
+}
+
+export type JsonRpcResponse = JsonRpcSuccess | JsonRpcFailure;
+
+/**
+ * An operation call extracted from a JSON-RPC request
+ */
+export interface JsonRpcCall {
+  operation: string;
+  request: any;
+  versionRange?: string;
+  idempotencyKey?: string;
+
+  /**
+   * Request ID (absent for notifications)
+   */
+  id?: JsonRpcId;
+}
+
+/**
+ * Runs a call through the transport (auth, context, registry)
+ */
+export type JsonRpcInvoker = (call: JsonRpcCall) => Promise<OperationResponse<any>>;
+
+/**
+ * Handlers supplied by the transport
+ */
+export interface JsonRpcHandlers {
+  invoke: JsonRpcInvoker;
+
+  /**
+   * Cancel an in-flight request (omit if the transport cannot)
+   */
+  cancel?: (id: JsonRpcId) => void;
+}
+
+/**
+ * Convert an error response to a JSON-RPC error object
+ */
+export function toJsonRpcError(response: ErrorResponse): JsonRpcError {
+  const { code, message, details } = response.error;
+
+  return {
+    code: errorMapping(code).jsonRpc,
+    message,
+    data: { code, ...(details !== undefined && { details }) }
+  };
+}
+
+/**
+ * Build a failure response with a standard error code
+ */
+export function jsonRpcFailure(id: JsonRpcId, code: number, message: string): JsonRpcFailure {
+  return { jsonrpc: '2.0', error: { code, message }, id };
+}
+
+/**
+ * Parse error response for payloads that are not valid JSON
+ */
+export function jsonRpcParseError(message: string): JsonRpcFailure {
+  return jsonRpcFailure(null, JsonRpcErrorCode.PARSE_ERROR, `Parse error: ${message}`);
+}
+
+/**
+ * Handle a parsed JSON-RPC payload (single request or batch)
+ *
+ * @param payload - Parsed JSON body or line
+ * @param handlers - Transport invoker and optional cancellation
+ * @returns Response, response array, or undefined if nothing is to be sent
+ *   (notifications only)
+ */
+export async function handleJsonRpc(
+  payload: unknown,
+  handlers: JsonRpcHandlers
+): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+  if (!Array.isArray(payload)) {
+    return handleRequest(payload, handlers);
+  }
+
+  if (payload.length === 0) {
+    return jsonRpcFailure(null, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request: empty batch');
+  }
+
+  const responses = await Promise.all(payload.map(entry => handleRequest(entry, handlers)));
+  const sent = responses.filter((response): response is JsonRpcResponse => response !== undefined);
+  return sent.length > 0 ? sent : undefined;
+}
+
+/**
+ * Handle one request of a payload
+ */
+async function handleRequest(
+  entry: unknown,
+  handlers: JsonRpcHandlers
+): Promise<JsonRpcResponse | undefined> {
+  const message = entry as Partial<JsonRpcRequest>;
+  const id = isValidId(message?.id) ? message.id! : null;
+
+  if (
+    typeof message !== 'object' || message === null ||
+    message.jsonrpc !== '2.0' ||
+    typeof message.method !== 'string' ||
+    (message.id !== undefined && !isValidId(message.id))
+  ) {
+    return jsonRpcFailure(id, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request');
+  }
+
+  const notification = message.id === undefined;
+
+  if (message.method === JSONRPC_CANCEL_METHOD) {
+    const target = (message.params as Record<string, any> | undefined)?.id;
+    if (handlers.cancel && isValidId(target)) {
+      handlers.cancel(target);
+    }
+    return notification ? undefined : { jsonrpc: '2.0', result: null, id };
+  }
+
+  const call = toCall(message as JsonRpcRequest);
+  if (!call) {
+    return notification
+      ? undefined
+      : jsonRpcFailure(id, JsonRpcErrorCode.INVALID_PARAMS, 'Invalid params: expected an object or [request, options]');
+  }
+
+  const response = await collectStream(await handlers.invoke(call));
+  if (notification) {
+    return undefined;
+  }
+
+  return response.success
+    ? { jsonrpc: '2.0', result: response.result ?? null, id }
+    : { jsonrpc: '2.0', error: toJsonRpcError(response), id };
+}
+
+/**
+ * Collect a streaming result into an array
+ *
+ * Notifications are drained too, so their streams run to completion.
+ */
+async function collectStream(response: OperationResponse<any>): Promise<OperationResponse<any>> {
+  if (!response.success || !isAsyncIterable(response.result)) {
+    return response;
+  }
+
+  const chunks: unknown[] = [];
+  try {
+    for await (const chunk of response.result) {
+      chunks.push(chunk);
+    }
+  } catch (err) {
+    const error = toPlanError(err);
+    return errorResponse(error.code, error.message, error.details);
+  }
+  return { success: true, result: chunks };
+}
+
+/**
+ * Extract the operation call from a request's params
+ */
+function toCall(message: JsonRpcRequest): JsonRpcCall | undefined {
+  const { method, params, id } = message;
+
+  if (params === undefined) {
+    return { operation: method, request: {}, id };
+  }
+
+  if (!Array.isArray(params)) {
+    return typeof params === 'object' && params !== null
+      ? { operation: method, request: params, id }
+      : undefined;
+  }
+
+  const [request = {}, options = {}] = params;
+  if (params.length > 2 || typeof options !== 'object' || options === null) {
+    return undefined;
+  }
+
+  return {
+    operation: method,
+    request,
+    versionRange: typeof options.version === 'string' ? options.version : undefined,
+    idempotencyKey: typeof options.idempotencyKey === 'string' ? options.idempotencyKey : undefined,
+    id
+  };
+}
+
+function isValidId(id: unknown): id is JsonRpcId {
+  return typeof id === 'string' || typeof id === 'number' || id === null;
+}
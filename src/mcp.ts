@@ -0,0 +1,275 @@
+/**
+ * MCP - Model Context Protocol mapping for PlanRegistry operations
+ *
+ * Exposes operations as MCP tools (see McpTransportPlan for the stdio and
+ * streamable HTTP transports):
+ *
+ * - Tool name: `<domain>_<method>` (e.g. `chat_send`); MCP clients accept
+ *   only [a-zA-Z0-9_-], so `:` and `.` are not used
+ * - inputSchema/outputSchema: the operation's request/response schemas
+ * - Results: JSON text content, plus structuredContent for object results
+ * - Errors: catalog codes with `mcpIsError` become tool results with
+ *   `isError: true` (the model sees them and may correct its call), the
+ *   rest JSON-RPC errors
+ * - Streaming operations: each chunk is reported as a
+ *   `notifications/progress` message when the call carries a
+ *   progressToken; the result holds all chunks
+ *
+ * Resources (data an assistant can read as context) come from
+ * McpResourceSources: each serves the URIs of one template, e.g.
+ * `one://channel/{id}`, and may list concrete resources and report
+ * changes for subscriptions.
+ *
+ * This module is protocol-only.
+ */
+
+import { errorMapping } from './errors.js';
+import { hasCapability } from './types/context.js';
+import type { AuthContext } from './types/context.js';
+import type { OperationMetadata } from './types/metadata.js';
+import type { OperationResponse } from './types/responses.js';
+import type { JSONSchema } from './types/schema.js';
+
+/**
+ * Supported protocol revisions, newest first
+ */
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/**
+ * MCP tool definition (tools/list)
+ */
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema: JSONSchema;
+  outputSchema?: JSONSchema;
+}
+
+/**
+ * Content block of a tool result
+ */
+export interface McpTextContent {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * Result of tools/call
+ */
+export interface McpToolResult {
+  content: McpTextContent[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/**
+ * Concrete resource (resources/list)
+ */
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Parameterized resource (resources/templates/list)
+ */
+export interface McpResourceTemplate {
+  /**
+   * RFC 6570 level 1 template, e.g. one://object/{hash}
+   */
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Contents of a read resource (text or base64 blob)
+ */
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/**
+ * Serves the resources matching one URI template
+ */
+export interface McpResourceSource {
+  template: McpResourceTemplate;
+
+  /**
+   * Capability needed to read a resource (default: none)
+   */
+  capability?: (params: Record<string, string>) => string;
+
+  /**
+   * Read a resource; strings become text, binary data a blob, anything
+   * else JSON
+   */
+  read(params: Record<string, string>): Promise<unknown>;
+
+  /**
+   * Concrete resources to advertise in resources/list
+   */
+  list?(): Promise<McpResource[]>;
+
+  /**
+   * Call `onChange` whenever the resource changes (enables subscriptions)
+   *
+   * @returns Function that stops watching
+   */
+  watch?(params: Record<string, string>, onChange: () => void): () => void;
+}
+
+/**
+ * Match a URI against a level 1 URI template
+ *
+ * Each `{name}` matches one non-empty path segment.
+ *
+ * @returns The decoded variables, or undefined if the URI does not match
+ */
+export function matchUriTemplate(template: string, uri: string): Record<string, string> | undefined {
+  const names: string[] = [];
+  const pattern = template
+    .split(/(\{[^}]+\})/)
+    .map(part => {
+      if (part.startsWith('{') && part.endsWith('}')) {
+        names.push(part.slice(1, -1));
+        return '([^/?#]+)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  const match = uri.match(new RegExp(`^${pattern}$`));
+  if (!match) {
+    return undefined;
+  }
+
+  try {
+    return Object.fromEntries(names.map((name, index) => [name, decodeURIComponent(match[index + 1])]));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fill in a level 1 URI template
+ */
+export function expandUriTemplate(template: string, params: Record<string, string>): string {
+  return template.replace(/\{([^}]+)\}/g, (_, name: string) => encodeURIComponent(params[name] ?? ''));
+}
+
+/**
+ * Convert a read value to resource contents
+ */
+export function toResourceContents(uri: string, value: unknown, mimeType?: string): McpResourceContents[] {
+  if (typeof value === 'string') {
+    return [{ uri, mimeType: mimeType ?? 'text/plain', text: value }];
+  }
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    const bytes = value instanceof ArrayBuffer
+      ? Buffer.from(value)
+      : Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    return [{ uri, mimeType: mimeType ?? 'application/octet-stream', blob: bytes.toString('base64') }];
+  }
+  return [{ uri, mimeType: mimeType ?? 'application/json', text: JSON.stringify(value ?? null) }];
+}
+
+/**
+ * Pick the protocol revision for a client's initialize request
+ *
+ * The client's revision if supported, otherwise the newest one.
+ */
+export function negotiateProtocolVersion(requested: unknown): string {
+  return typeof requested === 'string' && MCP_PROTOCOL_VERSIONS.includes(requested)
+    ? requested
+    : MCP_PROTOCOL_VERSIONS[0];
+}
+
+/**
+ * Map tool names to operations
+ *
+ * Names that collide after sanitizing get a numeric suffix in list order.
+ */
+export function mcpToolNames(operations: OperationMetadata[]): Map<string, OperationMetadata> {
+  const tools = new Map<string, OperationMetadata>();
+
+  for (const operation of operations) {
+    const base = `${operation.domain}_${operation.method}`.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 60);
+    let name = base;
+    for (let i = 2; tools.has(name); i++) {
+      name = `${base}_${i}`;
+    }
+    tools.set(name, operation);
+  }
+
+  return tools;
+}
+
+/**
+ * Tool definition of an operation
+ */
+export function toMcpTool(name: string, operation: OperationMetadata): McpTool {
+  const description = [
+    operation.description ?? operation.operation,
+    operation.streaming ? '(streams progress)' : undefined,
+    operation.deprecated ? '(deprecated)' : undefined
+  ].filter(Boolean).join(' ');
+
+  return {
+    name,
+    description,
+    inputSchema: operation.requestSchema?.type === 'object'
+      ? operation.requestSchema
+      : { type: 'object' },
+    ...(operation.responseSchema?.type === 'object' && !operation.streaming && {
+      outputSchema: operation.responseSchema
+    })
+  };
+}
+
+/**
+ * Whether a caller may see a tool
+ *
+ * Operations with a scoped capability are listed; the registry decides
+ * per call once the resource is known.
+ */
+export function canListTool(operation: OperationMetadata, auth: AuthContext): boolean {
+  return !operation.requiredCapability ||
+    operation.scopedCapability ||
+    hasCapability(auth, operation.requiredCapability);
+}
+
+/**
+ * Whether an error code is reported as a tool result (isError) rather
+ * than a JSON-RPC error
+ */
+export function isMcpToolError(code: string): boolean {
+  return errorMapping(code).mcpIsError;
+}
+
+/**
+ * Convert an operation response to a tool result
+ *
+ * Error responses whose code is not an MCP tool error (see
+ * isMcpToolError) should be sent as JSON-RPC errors instead.
+ */
+export function toMcpToolResult(response: OperationResponse<unknown>): McpToolResult {
+  if (!response.success) {
+    const { code, message } = response.error;
+    return { content: [{ type: 'text', text: `${code}: ${message}` }], isError: true };
+  }
+
+  const { result } = response;
+  return {
+    content: [{ type: 'text', text: typeof result === 'string' ? result : JSON.stringify(result ?? null) }],
+    ...(typeof result === 'object' && result !== null && !Array.isArray(result) && {
+      structuredContent: result as Record<string, unknown>
+    })
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * MessagePort protocol - messages between MessagePortTransportPlan and
+ * MessagePortPlanClient
+ *
+ * Works over anything MessagePort-like: Node `worker_threads` ports and
+ * Worker objects, Web Workers, `MessageChannel` ports and
+ * `BroadcastChannel`. Messages are structured-cloned, not JSON-encoded;
+ * ArrayBuffers in requests and results are transferred instead of copied
+ * where the channel supports it.
+ *
+ * Client → server:
+ * - {type: 'request', id, operation, request, version?, idempotencyKey?}
+ * - {type: 'cancel', id}
+ * - {type: 'introspect', id}
+ *
+ * Server → client:
+ * - {type: 'response', id, response}        (OperationResponse)
+ * - {type: 'stream', id, frame}             (StreamFrame, streaming operations)
+ *
+ * IDs are chosen by the client and must be unique among the clients
+ * sharing a channel (BroadcastChannel delivers to every other context).
+ */
+
+import type { OperationResponse, StreamFrame } from './types/responses.js';
+
+/**
+ * Minimal MessagePort-like channel
+ *
+ * Node ports and Workers deliver via `on('message', data)`, browser ports
+ * and BroadcastChannel via `addEventListener('message', event)`.
+ */
+export interface MessagePortLike {
+  postMessage(message: any, transfer?: any[]): void;
+  on?(event: 'message', listener: (data: any) => void): unknown;
+  off?(event: 'message', listener: (data: any) => void): unknown;
+  addEventListener?(type: 'message', listener: (event: any) => void): void;
+  removeEventListener?(type: 'message', listener: (event: any) => void): void;
+  start?(): void;
+}
+
+export interface PortRequestMessage {
+  type: 'request';
+  id: string;
+  operation: string;
+  request: any;
+  version?: string;
+  idempotencyKey?: string;
+}
+
+export interface PortCancelMessage {
+  type: 'cancel';
+  id: string;
+}
+
+export interface PortIntrospectMessage {
+  type: 'introspect';
+  id: string;
+}
+
+export interface PortResponseMessage {
+  type: 'response';
+  id: string;
+  response: OperationResponse<any>;
+}
+
+export interface PortStreamMessage {
+  type: 'stream';
+  id: string;
+  frame: StreamFrame<any>;
+}
+
+export type PortClientMessage = PortRequestMessage | PortCancelMessage | PortIntrospectMessage;
+export type PortServerMessage = PortResponseMessage | PortStreamMessage;
+
+/**
+ * Listen for messages on a port
+ *
+ * @returns Function that removes the listener
+ */
+export function onPortMessage(port: MessagePortLike, listener: (data: any) => void): () => void {
+  if (port.on) {
+    port.on('message', listener);
+    return () => port.off?.('message', listener);
+  }
+
+  const onEvent = (event: MessageEvent) => listener(event.data);
+  port.addEventListener!('message', onEvent);
+  port.start?.();
+  return () => port.removeEventListener?.('message', onEvent);
+}
+
+/**
+ * Collect the ArrayBuffers in a value that can be transferred
+ *
+ * Typed arrays count only if they span their whole buffer: transferring
+ * a view into a shared or pooled buffer (e.g. a small Node Buffer) would
+ * detach unrelated data. Transferred buffers are unusable on the sending
+ * side afterwards.
+ */
+export function collectTransferables(value: unknown, found = new Set<ArrayBuffer>(), seen = new Set<object>()): ArrayBuffer[] {
+  if (typeof value !== 'object' || value === null || seen.has(value)) {
+    return [...found];
+  }
+  seen.add(value);
+
+  if (value instanceof ArrayBuffer) {
+    found.add(value);
+  } else if (ArrayBuffer.isView(value)) {
+    const buffer = value.buffer;
+    if (buffer instanceof ArrayBuffer && value.byteOffset === 0 && value.byteLength === buffer.byteLength) {
+      found.add(buffer);
+    }
+  } else {
+    for (const item of Array.isArray(value) ? value : Object.values(value)) {
+      collectTransferables(item, found, seen);
+    }
+  }
+
+  return [...found];
+}
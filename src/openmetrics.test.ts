@@ -0,0 +1,46 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from './PlanRegistry.js';
+import { TimeoutError } from './errors.js';
+import { contextWith, createTestRegistry } from './test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('openmetrics', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  it('should export labelled duration histograms', async () => {
+    const context = contextWith(['test:echo']);
+    context.metadata = { transport: 'HTTPTransportPlan' };
+
+    await registry.invoke('test:echo', 'x', context);
+    await expect(registry.invoke('test:echo', 'x', contextWith([]))).rejects.toThrow();
+
+    const text = registry.exportMetrics();
+    const success = 'operation="test:echo",domain="test",transport="http",outcome="success"';
+    const failure = 'operation="test:echo",domain="test",transport="internal",outcome="error"';
+
+    expect(text).toContain('# TYPE plan_operation_duration_seconds histogram');
+    expect(text).toContain(`plan_operation_duration_seconds_bucket{${success},le="+Inf"} 1`);
+    expect(text).toContain(`plan_operation_duration_seconds_count{${success}} 1`);
+    expect(text).toContain(`plan_operation_duration_seconds_count{${failure}} 1`);
+    expect(text.endsWith('# EOF\n')).toBe(true);
+  });
+
+  it('should label timeouts and drop samples on reset', async () => {
+    registry.addInterceptor({
+      name: 'timeout',
+      before: () => { throw new TimeoutError('test:echo', 10); }
+    });
+    await expect(registry.invoke('test:echo', 'x')).rejects.toThrow();
+
+    expect(registry.exportMetrics()).toContain('outcome="timeout"} 1');
+
+    registry.resetMetrics('test:echo');
+    expect(registry.exportMetrics()).not.toContain('test:echo');
+  });
+});
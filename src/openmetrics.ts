@@ -0,0 +1,350 @@
+/**
+ * OpenMetrics export - operation metrics for Prometheus-compatible scrapers
+ *
+ * The registry records every invocation in latency histograms labelled by
+ * operation, domain, transport and outcome. The histograms are exported in
+ * OpenMetrics text format, either scraped (HTTPTransportPlan serves
+ * `GET /metrics`) or pushed periodically to a file or socket for
+ * deployments without an HTTP listener (stdio, IPC).
+ *
+ * Exported metric families:
+ * - plan_operation_duration_seconds (histogram): invocation duration; for
+ *   streaming operations, until the stream ended
+ * - plan_stream_first_chunk_seconds (histogram): time to first chunk of
+ *   streaming operations
+ */
+
+import { writeFile, rename } from 'fs/promises';
+import { createConnection } from 'net';
+import type { PlanContext } from './types/context.js';
+import { PlanError } from './errors.js';
+
+/**
+ * Content type of the OpenMetrics text exposition format
+ */
+export const OPENMETRICS_CONTENT_TYPE =
+  'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+/**
+ * Default histogram bucket upper bounds (seconds)
+ */
+export const DEFAULT_LATENCY_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10
+];
+
+/**
+ * Invocation outcome label
+ *
+ * Limited to a few values to keep label cardinality bounded.
+ */
+export type MetricOutcome = 'success' | 'error' | 'timeout' | 'cancelled';
+
+/**
+ * Labels attached to every exported sample
+ */
+export interface MetricLabels {
+  operation: string;
+  domain: string;
+  transport: string;
+  outcome: MetricOutcome;
+}
+
+/**
+ * Derive the outcome label from an invocation error
+ */
+export function outcomeLabel(error?: unknown): MetricOutcome {
+  if (error === undefined) {
+    return 'success';
+  }
+  if (error instanceof PlanError && error.code === 'TIMEOUT') {
+    return 'timeout';
+  }
+  if (error instanceof PlanError && error.code === 'CANCELLED') {
+    return 'cancelled';
+  }
+  return 'error';
+}
+
+/**
+ * Derive the transport label from a plan context
+ *
+ * Transports record their class name in `context.metadata.transport`
+ * ('HTTPTransportPlan' becomes 'http'). Invocations without context are
+ * internal calls.
+ */
+export function transportLabel(context?: PlanContext): string {
+  const transport = context?.metadata?.transport;
+  if (typeof transport !== 'string' || transport === '') {
+    return 'internal';
+  }
+  return transport.replace(/TransportPlan$/, '').toLowerCase() || 'internal';
+}
+
+/**
+ * Cumulative histogram for one label set
+ */
+interface Histogram {
+  labels: MetricLabels;
+  buckets: number[]; // Non-cumulative counts per bucket, +Inf last
+  count: number;
+  sum: number;
+}
+
+/**
+ * Latency histograms keyed by label set
+ */
+export class LatencyHistograms {
+  private histograms = new Map<string, Histogram>();
+
+  constructor(private bounds: number[] = DEFAULT_LATENCY_BUCKETS) {}
+
+  /**
+   * Record one observation
+   *
+   * @param labels - Sample labels
+   * @param seconds - Observed value in seconds
+   */
+  observe(labels: MetricLabels, seconds: number): void {
+    const key = `${labels.operation}|${labels.transport}|${labels.outcome}`;
+    let histogram = this.histograms.get(key);
+    if (!histogram) {
+      histogram = {
+        labels,
+        buckets: new Array(this.bounds.length + 1).fill(0),
+        count: 0,
+        sum: 0
+      };
+      this.histograms.set(key, histogram);
+    }
+
+    const index = this.bounds.findIndex(bound => seconds <= bound);
+    histogram.buckets[index === -1 ? this.bounds.length : index]++;
+    histogram.count++;
+    histogram.sum += seconds;
+  }
+
+  /**
+   * Drop histograms of one operation (or all if omitted)
+   */
+  reset(operation?: string): void {
+    if (operation === undefined) {
+      this.histograms.clear();
+      return;
+    }
+
+    for (const [key, histogram] of this.histograms) {
+      if (histogram.labels.operation === operation) {
+        this.histograms.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Format as an OpenMetrics histogram family (without `# EOF`)
+   *
+   * @param name - Metric family name (without suffixes)
+   * @param help - HELP text
+   */
+  format(name: string, help: string): string {
+    const lines = [
+      `# TYPE ${name} histogram`,
+      `# UNIT ${name} seconds`,
+      `# HELP ${name} ${escapeHelp(help)}`
+    ];
+
+    const histograms = [...this.histograms.values()].sort((a, b) =>
+      compareLabels(a.labels, b.labels)
+    );
+
+    for (const { labels, buckets, count, sum } of histograms) {
+      const base = formatLabels(labels);
+      let cumulative = 0;
+
+      this.bounds.forEach((bound, index) => {
+        cumulative += buckets[index];
+        lines.push(`${name}_bucket{${base},le="${bound}"} ${cumulative}`);
+      });
+      lines.push(`${name}_bucket{${base},le="+Inf"} ${count}`);
+      lines.push(`${name}_count{${base}} ${count}`);
+      lines.push(`${name}_sum{${base}} ${sum}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * Operation metrics collector used by PlanRegistry
+ */
+export class OpenMetricsCollector {
+  private durations: LatencyHistograms;
+  private firstChunks: LatencyHistograms;
+
+  constructor(buckets: number[] = DEFAULT_LATENCY_BUCKETS) {
+    this.durations = new LatencyHistograms(buckets);
+    this.firstChunks = new LatencyHistograms(buckets);
+  }
+
+  /**
+   * Record a completed invocation
+   *
+   * @param labels - Sample labels
+   * @param duration - Duration (ms)
+   * @param timeToFirstChunk - Time to first chunk for streams (ms)
+   */
+  record(labels: MetricLabels, duration: number, timeToFirstChunk?: number): void {
+    this.durations.observe(labels, duration / 1000);
+    if (timeToFirstChunk !== undefined) {
+      this.firstChunks.observe(labels, timeToFirstChunk / 1000);
+    }
+  }
+
+  /**
+   * Drop samples of one operation (or all if omitted)
+   */
+  reset(operation?: string): void {
+    this.durations.reset(operation);
+    this.firstChunks.reset(operation);
+  }
+
+  /**
+   * Export all samples in OpenMetrics text format
+   */
+  export(): string {
+    return (
+      this.durations.format(
+        'plan_operation_duration_seconds',
+        'Duration of plan operation invocations'
+      ) +
+      this.firstChunks.format(
+        'plan_stream_first_chunk_seconds',
+        'Time to first chunk of streaming plan operations'
+      ) +
+      '# EOF\n'
+    );
+  }
+}
+
+/**
+ * Source of OpenMetrics text (e.g. PlanRegistry)
+ */
+export interface MetricsSource {
+  exportMetrics(): string;
+}
+
+/**
+ * Push target configuration
+ *
+ * Exactly one target should be set:
+ * - file: written atomically (temp file + rename), e.g. for the node_exporter
+ *   textfile collector
+ * - socket: Unix domain socket path or `host:port`; each push opens a
+ *   connection, writes the exposition and closes it
+ */
+export interface MetricsPushConfig {
+  /** File to write the exposition to */
+  file?: string;
+
+  /** Socket path or `host:port` to send the exposition to */
+  socket?: string;
+
+  /** Push interval in ms (default: 15000) */
+  interval?: number;
+}
+
+/**
+ * Handle for a running periodic push
+ */
+export interface MetricsPusher {
+  /**
+   * Push the current metrics immediately
+   */
+  push(): Promise<void>;
+
+  /**
+   * Stop pushing (performs a final push)
+   */
+  stop(): Promise<void>;
+}
+
+/**
+ * Periodically push metrics to a file or socket
+ *
+ * Push failures are logged and do not stop the pusher.
+ *
+ * @throws PlanError if neither `file` nor `socket` is configured
+ */
+export function startMetricsPush(source: MetricsSource, config: MetricsPushConfig): MetricsPusher {
+  if (!config.file && !config.socket) {
+    throw new PlanError(
+      'Metrics push requires a file or socket target',
+      'INVALID_CONFIG',
+      { config }
+    );
+  }
+
+  const push = async (): Promise<void> => {
+    const text = source.exportMetrics();
+    try {
+      if (config.file) {
+        const temp = `${config.file}.${process.pid}.tmp`;
+        await writeFile(temp, text, 'utf-8');
+        await rename(temp, config.file);
+      } else {
+        await writeToSocket(config.socket!, text);
+      }
+    } catch (err) {
+      console.warn(`[OpenMetrics] Push failed: ${(err as Error).message}`);
+    }
+  };
+
+  const timer = setInterval(() => void push(), config.interval ?? 15000);
+  timer.unref?.();
+
+  return {
+    push,
+    async stop() {
+      clearInterval(timer);
+      await push();
+    }
+  };
+}
+
+/**
+ * Send text over a fresh connection to a socket path or host:port
+ */
+function writeToSocket(target: string, text: string): Promise<void> {
+  const match = /^(.+):(\d+)$/.exec(target);
+  const socket = match
+    ? createConnection({ host: match[1], port: Number(match[2]) })
+    : createConnection({ path: target });
+
+  return new Promise((resolve, reject) => {
+    socket.once('error', reject);
+    socket.once('connect', () => {
+      socket.end(text, () => resolve());
+    });
+  });
+}
+
+function formatLabels(labels: MetricLabels): string {
+  return (['operation', 'domain', 'transport', 'outcome'] as const)
+    .map(name => `${name}="${escapeLabel(labels[name])}"`)
+    .join(',');
+}
+
+function compareLabels(a: MetricLabels, b: MetricLabels): number {
+  return (
+    a.operation.localeCompare(b.operation) ||
+    a.transport.localeCompare(b.transport) ||
+    a.outcome.localeCompare(b.outcome)
+  );
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
@@ -9,24 +9,181 @@
 export { PlanRegistry } from './PlanRegistry.js';
 export type { OperationMetrics, PlanRegistryConfig } from './PlanRegistry.js';
 
+// Interceptors
+export {
+  InterceptorPriority,
+  createCapabilityInterceptor,
+  createMetricsInterceptor
+} from './interceptors.js';
+export type {
+  PlanInterceptor,
+  MetricsRecorder,
+  MetricsSample,
+  Invocation,
+  ShortCircuit,
+  NextInterceptor
+} from './interceptors.js';
+
 // Base classes
 export { TransportPlan } from './TransportPlan.js';
-export type { TransportConfig } from './TransportPlan.js';
+export type { TransportConfig, InvokeOperationOptions } from './TransportPlan.js';
 
 export { CoordinationPlan } from './CoordinationPlan.js';
 export type { ProgressEvent } from './CoordinationPlan.js';
 
+// Batch
+export { executeBatch } from './batch.js';
+export type {
+  BatchEntry,
+  BatchOptions,
+  BatchRequest,
+  BatchResult,
+  BatchInvoker
+} from './batch.js';
+
+// Streaming
+export { isAsyncIterable, observeStream } from './streaming.js';
+export type { StreamObserver } from './streaming.js';
+
+// Versioning
+export {
+  parseVersion,
+  isValidVersion,
+  compareVersions,
+  satisfies
+} from './versioning.js';
+export type { SemVer } from './versioning.js';
+
+// Validation
+export { validateSchema, createValidationInterceptor } from './validation.js';
+export type { SchemaViolation } from './validation.js';
+
+// Metrics export
+export {
+  OpenMetricsCollector,
+  LatencyHistograms,
+  startMetricsPush,
+  outcomeLabel,
+  transportLabel,
+  OPENMETRICS_CONTENT_TYPE,
+  DEFAULT_LATENCY_BUCKETS
+} from './openmetrics.js';
+export type {
+  MetricLabels,
+  MetricOutcome,
+  MetricsSource,
+  MetricsPushConfig,
+  MetricsPusher
+} from './openmetrics.js';
+
+// Latency quantiles
+export {
+  QuantileSketch,
+  SlidingWindowSketch,
+  LatencyTracker,
+  DEFAULT_LATENCY_WINDOWS
+} from './quantiles.js';
+export type { LatencySummary } from './quantiles.js';
+
+// Rate limiting
+export {
+  RateLimiter,
+  createRateLimitInterceptor,
+  matchesOperationPattern
+} from './ratelimit.js';
+export type {
+  RateLimitConfig,
+  RateLimitRule,
+  QuotaRule,
+  RateLimitScope,
+  RateLimitIdentity
+} from './ratelimit.js';
+
+// Idempotency
+export {
+  IdempotencyCache,
+  createIdempotencyInterceptor,
+  hashRequest
+} from './idempotency.js';
+
+// Retries and circuit breakers
+export {
+  CircuitBreaker,
+  CircuitBreakers,
+  createRetryInterceptor,
+  createCircuitBreakerInterceptor,
+  backoffDelay,
+  errorCode,
+  TRANSIENT_ERROR_CODES
+} from './resilience.js';
+
+export type {
+  RetryPolicy,
+  BackoffPolicy,
+  CircuitBreakerPolicy,
+  CircuitState,
+  CircuitSnapshot
+} from './resilience.js';
+
 // Errors
 export {
   PlanError,
   ValidationError,
   UnknownOperationError,
+  UnsupportedVersionError,
   UnauthorizedError,
   ForbiddenError,
   NotFoundError,
-  InternalError
+  TimeoutError,
+  CancelledError,
+  RateLimitedError,
+  IdempotencyConflictError,
+  CircuitOpenError,
+  ConflictError,
+  NotImplementedError,
+  ConnectionFailedError,
+  InternalError,
+  ERROR_CATALOG,
+  errorMapping,
+  toPlanError,
+  planErrorFromCode
 } from './errors.js';
 
+export type { ErrorMapping } from './errors.js';
+
+// JSON-RPC 2.0
+export {
+  handleJsonRpc,
+  toJsonRpcError,
+  jsonRpcFailure,
+  jsonRpcParseError,
+  JsonRpcErrorCode,
+  JSONRPC_CANCEL_METHOD
+} from './jsonrpc.js';
+
+export type {
+  JsonRpcId,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcSuccess,
+  JsonRpcFailure,
+  JsonRpcError,
+  JsonRpcCall,
+  JsonRpcInvoker,
+  JsonRpcHandlers
+} from './jsonrpc.js';
+
+// REPL (stdio shorthand, completion, formatting)
+export { parseShorthand, completeReplLine, formatOperationHelp, formatResult, formatTable } from './repl.js';
+export type { ReplCommand, ReplResultFormat } from './repl.js';
+
+// Cancellation
+export {
+  abortError,
+  throwIfCancelled,
+  createCancellationInterceptor
+} from './cancellation.js';
+
 // Types - Context
 export type {
   AuthContext,
@@ -36,7 +193,11 @@ export type {
 export {
   createAuthContext,
   createPlanContext,
-  hasCapability
+  hasCapability,
+  matchesCapability,
+  scopedCapability,
+  findDenial,
+  DENY_PREFIX
 } from './types/context.js';
 
 // Types - Metadata
@@ -51,17 +212,28 @@ export {
   parseOperationName
 } from './types/metadata.js';
 
+// Types - Schema
+export type { JSONSchema, JSONSchemaType } from './types/schema.js';
+
 // Types - Responses
 export type {
   SuccessResponse,
   ErrorResponse,
-  OperationResponse
+  DeprecationNotice,
+  OperationResponse,
+  StreamChunkResponse,
+  StreamEndResponse,
+  StreamFrame
 } from './types/responses.js';
 
+export type { ProblemDetails } from './types/responses.js';
+
 export {
   success,
   error,
-  errorFromException
+  errorFromException,
+  problemDetails,
+  PROBLEM_CONTENT_TYPE
 } from './types/responses.js';
 
 // Story tracking
@@ -90,6 +262,10 @@ export {
 } from './PlanObjectManager.js';
 export type { PlanObjectManagerDependencies } from './PlanObjectManager.js';
 
+// Legacy plan/method registry bridge
+export { registerUnifiedOperations, legacyDomainName } from './registry/unified-adapter.js';
+export type { UnifiedAdapterOptions } from './registry/unified-adapter.js';
+
 // Module System
 export { ModuleRegistry } from './plan-system/ModuleRegistry.js';
 export type { Module, ModuleMetadata, LifecycleAware } from './plan-system/types.js';
@@ -99,6 +275,73 @@ export type { Module, ModuleMetadata, LifecycleAware } from './plan-system/types
 export { StoryRecipe, PlanRecipe, RefinioApiRecipes } from './recipes/index.js';
 
 // Transports
+export { MessagePortTransportPlan } from './transports/MessagePortTransportPlan.js';
+export type { MessagePortTransportConfig } from './transports/MessagePortTransportPlan.js';
+
+export { onPortMessage, collectTransferables } from './messageport.js';
+export type {
+  MessagePortLike,
+  PortClientMessage,
+  PortServerMessage,
+  PortRequestMessage,
+  PortCancelMessage,
+  PortIntrospectMessage,
+  PortResponseMessage,
+  PortStreamMessage
+} from './messageport.js';
+
+export { SocketTransportPlan } from './transports/SocketTransportPlan.js';
+export type {
+  SocketTransportConfig,
+  SocketRequest,
+  SocketFraming,
+  PeerCredentials
+} from './transports/SocketTransportPlan.js';
+
+export { GrpcTransportPlan } from './transports/GrpcTransportPlan.js';
+export type { GrpcTransportConfig, GrpcCall } from './transports/GrpcTransportPlan.js';
+
+export { protoServices, generateProto, encodeMessage, decodeMessage } from './protobuf.js';
+export type { ProtoCodec, ProtoField, ProtoMethod, ProtoService } from './protobuf.js';
+
+export { McpTransportPlan } from './transports/McpTransportPlan.js';
+export type { McpTransportConfig } from './transports/McpTransportPlan.js';
+
+export {
+  MCP_PROTOCOL_VERSIONS,
+  negotiateProtocolVersion,
+  mcpToolNames,
+  toMcpTool,
+  canListTool,
+  isMcpToolError,
+  toMcpToolResult,
+  matchUriTemplate,
+  expandUriTemplate,
+  toResourceContents
+} from './mcp.js';
+export type {
+  McpTool,
+  McpTextContent,
+  McpToolResult,
+  McpResource,
+  McpResourceTemplate,
+  McpResourceContents,
+  McpResourceSource
+} from './mcp.js';
+
+export { createOneResourceSources } from './registry/one-mcp-resources.js';
+export type {
+  OneResourceDependencies,
+  OneResourceStorage,
+  OneResourceRecipes,
+  OneResourceChannels,
+  OneChangeEvent
+} from './registry/one-mcp-resources.js';
+
 // NOTE: IPCTransportPlan is electron-only, import directly from './transports/IPCTransportPlan.js'
 // export { IPCTransportPlan } from './transports/IPCTransportPlan.js';
 // export type { IPCTransportConfig } from './transports/IPCTransportPlan.js';
+
+// NOTE: WebSocketTransportPlan depends on 'ws', import directly from './transports/WebSocketTransportPlan.js'
+// export { WebSocketTransportPlan } from './transports/WebSocketTransportPlan.js';
+// export type { WebSocketTransportConfig, EventSource } from './transports/WebSocketTransportPlan.js';
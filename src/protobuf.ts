@@ -0,0 +1,584 @@
+/**
+ * Protobuf - proto3 service definitions and wire codec for operations
+ *
+ * Derives gRPC services from registry introspection: one service per
+ * domain, one rpc per operation, with messages generated from the
+ * operation's request/response JSON schemas. The same mapping drives the
+ * `.proto` text handed to clients and the codec used by GrpcTransportPlan,
+ * so both always agree.
+ *
+ * Schema mapping:
+ * - object with properties → message, fields numbered in property order
+ *   (append new properties to keep field numbers stable)
+ * - string → string, number → double, integer → int64, boolean → bool
+ * - array → repeated field of the item type (nested arrays → Value)
+ * - object without properties → google.protobuf.Struct
+ * - anything else (no schema, unions, null) → google.protobuf.Value
+ * - properties not listed in `required` are proto3 `optional`, so absent
+ *   fields stay absent; required ones decode to their default when absent
+ *
+ * Property names that are not valid proto identifiers are sanitized in
+ * the `.proto` text only; the wire format uses field numbers.
+ */
+
+import type { OperationMetadata } from './types/metadata.js';
+import type { JSONSchema } from './types/schema.js';
+
+/**
+ * How a value is encoded on the wire
+ */
+export type ProtoCodec =
+  | { kind: 'scalar'; type: 'string' | 'double' | 'int64' | 'bool' }
+  | { kind: 'message'; name: string; fields: ProtoField[] }
+  | { kind: 'struct' }
+  | { kind: 'value' };
+
+export interface ProtoField {
+  /**
+   * JSON property name
+   */
+  name: string;
+  number: number;
+  codec: ProtoCodec;
+  repeated: boolean;
+  optional: boolean;
+}
+
+/**
+ * An rpc of a generated service
+ */
+export interface ProtoMethod {
+  /**
+   * rpc name (PascalCase of the operation's method)
+   */
+  name: string;
+  operation: string;
+  version: string;
+  description?: string;
+
+  /**
+   * Input/output types: message, Struct or Value
+   */
+  request: ProtoCodec;
+  response: ProtoCodec;
+
+  /**
+   * Server-streaming rpc (streaming operation)
+   */
+  streaming: boolean;
+}
+
+/**
+ * A generated service (one per domain)
+ */
+export interface ProtoService {
+  /**
+   * Service name (PascalCase of the domain)
+   */
+  name: string;
+  domain: string;
+  methods: ProtoMethod[];
+}
+
+/**
+ * Derive services from registry introspection
+ */
+export function protoServices(operations: OperationMetadata[]): ProtoService[] {
+  const services = new Map<string, ProtoService>();
+
+  for (const operation of operations) {
+    const serviceName = pascalCase(operation.domain);
+    let service = services.get(operation.domain);
+    if (!service) {
+      service = { name: serviceName, domain: operation.domain, methods: [] };
+      services.set(operation.domain, service);
+    }
+
+    const prefix = serviceName + pascalCase(operation.method);
+    service.methods.push({
+      name: pascalCase(operation.method),
+      operation: operation.operation,
+      version: operation.version,
+      description: operation.description,
+      request: topLevelCodec(operation.requestSchema, `${prefix}Request`),
+      response: operation.streaming
+        ? { kind: 'value' }
+        : topLevelCodec(operation.responseSchema, `${prefix}Response`),
+      streaming: !!operation.streaming
+    });
+  }
+
+  return [...services.values()];
+}
+
+/**
+ * Generate the `.proto` file for a set of services
+ *
+ * @param packageName - proto package (rpc paths are /<package>.<Service>/<Method>)
+ */
+export function generateProto(services: ProtoService[], packageName: string): string {
+  const messages = new Map<string, Extract<ProtoCodec, { kind: 'message' }>>();
+  const collect = (codec: ProtoCodec) => {
+    if (codec.kind === 'message' && !messages.has(codec.name)) {
+      messages.set(codec.name, codec);
+      codec.fields.forEach(field => collect(field.codec));
+    }
+  };
+  for (const service of services) {
+    for (const method of service.methods) {
+      collect(method.request);
+      collect(method.response);
+    }
+  }
+
+  const lines = [
+    'syntax = "proto3";',
+    '',
+    `package ${packageName};`,
+    '',
+    'import "google/protobuf/struct.proto";'
+  ];
+
+  for (const message of messages.values()) {
+    lines.push('', `message ${message.name} {`);
+    const used = new Set<string>();
+    for (const field of message.fields) {
+      let name = identifier(field.name);
+      if (used.has(name)) {
+        name = `${name}_${field.number}`;
+      }
+      used.add(name);
+
+      const label = field.repeated ? 'repeated ' : field.optional && field.codec.kind === 'scalar' ? 'optional ' : '';
+      lines.push(`  ${label}${typeName(field.codec)} ${name} = ${field.number};`);
+    }
+    lines.push('}');
+  }
+
+  for (const service of services) {
+    lines.push('', `service ${service.name} {`);
+    for (const method of service.methods) {
+      lines.push(`  // ${method.operation}@${method.version}${method.description ? ` - ${method.description.replace(/\s+/g, ' ')}` : ''}`);
+      lines.push(
+        `  rpc ${method.name} (${typeName(method.request)}) returns ` +
+        `(${method.streaming ? 'stream ' : ''}${typeName(method.response)});`
+      );
+    }
+    lines.push('}');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Encode a value as a protobuf message
+ *
+ * @param codec - Top-level codec (message, Struct or Value)
+ */
+export function encodeMessage(codec: ProtoCodec, value: unknown): Buffer {
+  switch (codec.kind) {
+    case 'message':
+      return Buffer.concat(codec.fields.map(field => encodeField(field, (value as any)?.[field.name])));
+    case 'struct':
+      return encodeStruct(value);
+    case 'value':
+      return encodeValue(value);
+    default:
+      throw new TypeError('Scalars cannot be encoded as a message');
+  }
+}
+
+/**
+ * Decode a protobuf message
+ *
+ * @param codec - Top-level codec (message, Struct or Value)
+ */
+export function decodeMessage(codec: ProtoCodec, data: Buffer): any {
+  switch (codec.kind) {
+    case 'message':
+      return decodeFields(codec.fields, data);
+    case 'struct':
+      return decodeStruct(data);
+    case 'value':
+      return decodeValue(data);
+    default:
+      throw new TypeError('Scalars cannot be decoded as a message');
+  }
+}
+
+// ============================================================================
+// Schema mapping
+// ============================================================================
+
+function topLevelCodec(schema: JSONSchema | undefined, name: string): ProtoCodec {
+  const codec = fieldCodec(schema, name);
+  return codec.kind === 'message' || codec.kind === 'struct' ? codec : { kind: 'value' };
+}
+
+function fieldCodec(schema: JSONSchema | undefined, name: string): ProtoCodec {
+  switch (schema?.type) {
+    case 'string':
+      return { kind: 'scalar', type: 'string' };
+    case 'number':
+      return { kind: 'scalar', type: 'double' };
+    case 'integer':
+      return { kind: 'scalar', type: 'int64' };
+    case 'boolean':
+      return { kind: 'scalar', type: 'bool' };
+    case 'object': {
+      const properties = Object.entries(schema.properties ?? {});
+      if (properties.length === 0) {
+        return { kind: 'struct' };
+      }
+
+      const required = new Set(schema.required ?? []);
+      return {
+        kind: 'message',
+        name,
+        fields: properties.map(([property, propertySchema], index) => {
+          const repeated = propertySchema.type === 'array' && propertySchema.items?.type !== 'array';
+          return {
+            name: property,
+            number: index + 1,
+            codec: fieldCodec(repeated ? propertySchema.items : propertySchema, name + pascalCase(property)),
+            repeated,
+            optional: !required.has(property)
+          };
+        })
+      };
+    }
+    default:
+      return { kind: 'value' };
+  }
+}
+
+function typeName(codec: ProtoCodec): string {
+  switch (codec.kind) {
+    case 'scalar':
+      return codec.type;
+    case 'message':
+      return codec.name;
+    case 'struct':
+      return 'google.protobuf.Struct';
+    case 'value':
+      return 'google.protobuf.Value';
+  }
+}
+
+function pascalCase(name: string): string {
+  return name
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('') || 'X';
+}
+
+function identifier(name: string): string {
+  const sanitized = name.replace(/[^a-zA-Z0-9_]/g, '_');
+  return /^[a-zA-Z]/.test(sanitized) ? sanitized : `f${sanitized}`;
+}
+
+// ============================================================================
+// Wire format
+// ============================================================================
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_BYTES = 2;
+const WIRE_FIXED32 = 5;
+
+function encodeField(field: ProtoField, value: unknown): Buffer {
+  if (value === undefined || value === null) {
+    return Buffer.alloc(0);
+  }
+
+  if (!field.repeated) {
+    return encodeSingle(field.number, field.codec, value);
+  }
+
+  const items = Array.isArray(value) ? value : [value];
+  const { codec } = field;
+
+  // Numeric and bool scalars are packed (proto3 default)
+  if (codec.kind === 'scalar' && codec.type !== 'string') {
+    if (items.length === 0) {
+      return Buffer.alloc(0);
+    }
+    return bytesField(field.number, Buffer.concat(items.map(item => scalarPayload(codec.type, item))));
+  }
+
+  return Buffer.concat(items.map(item => encodeSingle(field.number, codec, item)));
+}
+
+function encodeSingle(number: number, codec: ProtoCodec, value: unknown): Buffer {
+  switch (codec.kind) {
+    case 'scalar':
+      if (codec.type === 'string') {
+        return bytesField(number, Buffer.from(String(value), 'utf8'));
+      }
+      return Buffer.concat([
+        tag(number, codec.type === 'double' ? WIRE_FIXED64 : WIRE_VARINT),
+        scalarPayload(codec.type, value)
+      ]);
+    default:
+      return bytesField(number, encodeMessage(codec, value));
+  }
+}
+
+function scalarPayload(type: 'double' | 'int64' | 'bool' | 'string', value: unknown): Buffer {
+  if (type === 'double') {
+    const buffer = Buffer.alloc(8);
+    buffer.writeDoubleLE(Number(value));
+    return buffer;
+  }
+  if (type === 'bool') {
+    return varint(value ? 1n : 0n);
+  }
+  return varint(BigInt.asUintN(64, BigInt(Math.trunc(Number(value)))));
+}
+
+function encodeStruct(value: unknown): Buffer {
+  const entries = typeof value === 'object' && value !== null ? Object.entries(value) : [];
+  return Buffer.concat(
+    entries
+      .filter(([, item]) => item !== undefined)
+      .map(([key, item]) => bytesField(1, Buffer.concat([
+        bytesField(1, Buffer.from(key, 'utf8')),
+        bytesField(2, encodeValue(item))
+      ])))
+  );
+}
+
+function encodeValue(value: unknown): Buffer {
+  if (value === null || value === undefined) {
+    return Buffer.concat([tag(1, WIRE_VARINT), varint(0n)]);
+  }
+  if (typeof value === 'number') {
+    return Buffer.concat([tag(2, WIRE_FIXED64), scalarPayload('double', value)]);
+  }
+  if (typeof value === 'string') {
+    return bytesField(3, Buffer.from(value, 'utf8'));
+  }
+  if (typeof value === 'boolean') {
+    return Buffer.concat([tag(4, WIRE_VARINT), varint(value ? 1n : 0n)]);
+  }
+  if (Array.isArray(value)) {
+    return bytesField(6, Buffer.concat(value.map(item => bytesField(1, encodeValue(item)))));
+  }
+  if (typeof value === 'object') {
+    return bytesField(5, encodeStruct(value));
+  }
+  return bytesField(3, Buffer.from(String(value), 'utf8'));
+}
+
+function decodeFields(fields: ProtoField[], data: Buffer): Record<string, any> {
+  const byNumber = new Map(fields.map(field => [field.number, field]));
+  const result: Record<string, any> = {};
+
+  for (const { number, wire, value } of readFields(data)) {
+    const field = byNumber.get(number);
+    if (!field) {
+      continue;
+    }
+
+    const { codec } = field;
+    let values: any[];
+    if (codec.kind === 'scalar' && codec.type !== 'string' && wire === WIRE_BYTES) {
+      values = readPacked(codec.type, value as Buffer);
+    } else {
+      values = [decodeSingle(codec, value)];
+    }
+
+    if (field.repeated) {
+      (result[field.name] ??= []).push(...values);
+    } else {
+      result[field.name] = values[values.length - 1];
+    }
+  }
+
+  // proto3 defaults for fields without presence
+  for (const field of fields) {
+    if (result[field.name] !== undefined) {
+      continue;
+    }
+    if (field.repeated) {
+      result[field.name] = [];
+    } else if (!field.optional && field.codec.kind === 'scalar') {
+      result[field.name] = { string: '', double: 0, int64: 0, bool: false }[field.codec.type];
+    }
+  }
+
+  return result;
+}
+
+function decodeSingle(codec: ProtoCodec, value: bigint | Buffer): any {
+  switch (codec.kind) {
+    case 'scalar':
+      switch (codec.type) {
+        case 'string':
+          return (value as Buffer).toString('utf8');
+        case 'double':
+          return (value as Buffer).readDoubleLE(0);
+        case 'int64':
+          return Number(BigInt.asIntN(64, value as bigint));
+        case 'bool':
+          return value !== 0n;
+      }
+    // falls through (unreachable)
+    default:
+      return decodeMessage(codec, value as Buffer);
+  }
+}
+
+function readPacked(type: 'double' | 'int64' | 'bool', data: Buffer): any[] {
+  const values: any[] = [];
+  const reader = { data, offset: 0 };
+
+  while (reader.offset < data.length) {
+    if (type === 'double') {
+      values.push(data.readDoubleLE(reader.offset));
+      reader.offset += 8;
+    } else {
+      const value = readVarint(reader);
+      values.push(type === 'bool' ? value !== 0n : Number(BigInt.asIntN(64, value)));
+    }
+  }
+
+  return values;
+}
+
+function decodeStruct(data: Buffer): Record<string, any> {
+  const result: Record<string, any> = {};
+
+  for (const entry of readFields(data)) {
+    if (entry.number !== 1 || entry.wire !== WIRE_BYTES) {
+      continue;
+    }
+
+    let key = '';
+    let item: any = null;
+    for (const part of readFields(entry.value as Buffer)) {
+      if (part.number === 1) {
+        key = (part.value as Buffer).toString('utf8');
+      } else if (part.number === 2) {
+        item = decodeValue(part.value as Buffer);
+      }
+    }
+    result[key] = item;
+  }
+
+  return result;
+}
+
+function decodeValue(data: Buffer): any {
+  let result: any = null;
+
+  for (const { number, value } of readFields(data)) {
+    switch (number) {
+      case 1:
+        result = null;
+        break;
+      case 2:
+        result = (value as Buffer).readDoubleLE(0);
+        break;
+      case 3:
+        result = (value as Buffer).toString('utf8');
+        break;
+      case 4:
+        result = value !== 0n;
+        break;
+      case 5:
+        result = decodeStruct(value as Buffer);
+        break;
+      case 6:
+        result = readFields(value as Buffer)
+          .filter(item => item.number === 1)
+          .map(item => decodeValue(item.value as Buffer));
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Split a message into its fields (fixed-size values as raw bytes)
+ */
+function readFields(data: Buffer): Array<{ number: number; wire: number; value: bigint | Buffer }> {
+  const fields: Array<{ number: number; wire: number; value: bigint | Buffer }> = [];
+  const reader = { data, offset: 0 };
+
+  while (reader.offset < data.length) {
+    const key = Number(readVarint(reader));
+    const number = key >>> 3;
+    const wire = key & 7;
+
+    let value: bigint | Buffer;
+    switch (wire) {
+      case WIRE_VARINT:
+        value = readVarint(reader);
+        break;
+      case WIRE_FIXED64:
+        value = readBytes(reader, 8);
+        break;
+      case WIRE_BYTES:
+        value = readBytes(reader, Number(readVarint(reader)));
+        break;
+      case WIRE_FIXED32:
+        value = readBytes(reader, 4);
+        break;
+      default:
+        throw new RangeError(`Unsupported wire type ${wire}`);
+    }
+    fields.push({ number, wire, value });
+  }
+
+  return fields;
+}
+
+function readVarint(reader: { data: Buffer; offset: number }): bigint {
+  let result = 0n;
+  let shift = 0n;
+
+  while (true) {
+    if (reader.offset >= reader.data.length) {
+      throw new RangeError('Truncated varint');
+    }
+    const byte = reader.data[reader.offset++];
+    result |= BigInt(byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) {
+      return result;
+    }
+    shift += 7n;
+  }
+}
+
+function readBytes(reader: { data: Buffer; offset: number }, length: number): Buffer {
+  if (reader.offset + length > reader.data.length) {
+    throw new RangeError('Truncated field');
+  }
+  const bytes = reader.data.subarray(reader.offset, reader.offset + length);
+  reader.offset += length;
+  return bytes;
+}
+
+function varint(value: bigint): Buffer {
+  const bytes: number[] = [];
+  do {
+    let byte = Number(value & 0x7fn);
+    value >>= 7n;
+    if (value > 0n) {
+      byte |= 0x80;
+    }
+    bytes.push(byte);
+  } while (value > 0n);
+  return Buffer.from(bytes);
+}
+
+function tag(number: number, wire: number): Buffer {
+  return varint(BigInt((number << 3) | wire));
+}
+
+function bytesField(number: number, payload: Buffer): Buffer {
+  return Buffer.concat([tag(number, WIRE_BYTES), varint(BigInt(payload.length)), payload]);
+}
@@ -0,0 +1,55 @@
+// Note: Using regular imports for Jest compatibility
+import { PlanRegistry } from './PlanRegistry.js';
+import { QuantileSketch, SlidingWindowSketch } from './quantiles.js';
+import { EchoPlan, createTestRegistry } from './test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('latency percentiles', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  it('should estimate quantiles within the relative accuracy', () => {
+    const sketch = new QuantileSketch(0.01);
+    for (let i = 1; i <= 10000; i++) {
+      sketch.add(i);
+    }
+
+    expect(sketch.count).toBe(10000);
+    expect(Math.abs(sketch.quantile(0.5) - 5000) / 5000).toBeLessThan(0.01);
+    expect(Math.abs(sketch.quantile(0.99) - 9900) / 9900).toBeLessThan(0.01);
+    expect(sketch.quantile(1)).toBe(10000);
+  });
+
+  it('should drop values that left the time window', () => {
+    const window = new SlidingWindowSketch(60_000);
+    window.add(100, 0);
+    window.add(5, 50_000);
+
+    expect(window.snapshot(55_000).count).toBe(2);
+    expect(window.snapshot(90_000).summary()).toMatchObject({ count: 1, p50: 5 });
+    expect(window.snapshot(200_000).count).toBe(0);
+  });
+
+  it('should report all-time and windowed percentiles', async () => {
+    registry = new PlanRegistry({
+      slowOperationThreshold: Infinity,
+      latencyWindows: { '1m': 60_000 }
+    });
+    registry.register({ domain: 'test', method: 'echo', plan: new EchoPlan(), version: '1.0.0' });
+
+    for (let i = 0; i < 20; i++) {
+      await registry.invoke('test:echo', i);
+    }
+
+    const metrics = registry.getMetrics('test:echo');
+    expect(metrics.p99).toBeGreaterThan(0);
+    expect(metrics.p50).toBeLessThanOrEqual(metrics.p99);
+    expect(Object.keys(metrics.windows)).toEqual(['1m']);
+    expect(metrics.windows['1m'].count).toBe(20);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Streaming latency quantiles in constant memory
+ *
+ * Latencies are counted in logarithmic buckets (DDSketch-style): a value v
+ * falls into bucket ceil(log(v) / log(gamma)), so every quantile estimate
+ * is within a fixed relative error of the true value. Recording is O(1) and
+ * the number of buckets is bounded by the range of observed values, not by
+ * the number of observations.
+ *
+ * Time windows (e.g. last 1m/5m/1h) are a ring of sketches, each covering
+ * a slice of the window; slices that fall out of the window are recycled.
+ */
+
+/**
+ * Quantile summary of a set of latencies (ms)
+ */
+export interface LatencySummary {
+  count: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+/**
+ * Default time windows (name to duration in ms)
+ */
+export const DEFAULT_LATENCY_WINDOWS: Record<string, number> = {
+  '1m': 60_000,
+  '5m': 300_000,
+  '1h': 3_600_000
+};
+
+/**
+ * Values at or below this are counted as zero (ms)
+ */
+const MIN_TRACKED_VALUE = 1e-6;
+
+/**
+ * Log-bucketed quantile sketch
+ */
+export class QuantileSketch {
+  private buckets = new Map<number, number>();
+  private zeroCount = 0;
+  private logGamma: number;
+  private gamma: number;
+
+  count = 0;
+  min = Infinity;
+  max = 0;
+
+  /**
+   * @param relativeAccuracy - Maximum relative error of quantile estimates (default: 1%)
+   */
+  constructor(private relativeAccuracy = 0.01) {
+    this.gamma = (1 + relativeAccuracy) / (1 - relativeAccuracy);
+    this.logGamma = Math.log(this.gamma);
+  }
+
+  /**
+   * Record a value
+   */
+  add(value: number): void {
+    if (value <= MIN_TRACKED_VALUE) {
+      this.zeroCount++;
+    } else {
+      const key = Math.ceil(Math.log(value) / this.logGamma);
+      this.buckets.set(key, (this.buckets.get(key) ?? 0) + 1);
+    }
+
+    this.count++;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+  }
+
+  /**
+   * Add all values recorded by another sketch (same accuracy)
+   */
+  merge(other: QuantileSketch): void {
+    if (other.relativeAccuracy !== this.relativeAccuracy) {
+      throw new Error('Cannot merge sketches with different accuracy');
+    }
+
+    for (const [key, count] of other.buckets) {
+      this.buckets.set(key, (this.buckets.get(key) ?? 0) + count);
+    }
+    this.zeroCount += other.zeroCount;
+    this.count += other.count;
+    this.min = Math.min(this.min, other.min);
+    this.max = Math.max(this.max, other.max);
+  }
+
+  /**
+   * Estimate a quantile (nearest rank)
+   *
+   * @param q - Quantile in [0, 1]
+   * @returns Estimated value, or 0 if nothing was recorded
+   */
+  quantile(q: number): number {
+    if (this.count === 0) {
+      return 0;
+    }
+
+    const rank = Math.max(1, Math.ceil(this.count * q));
+    if (rank >= this.count) {
+      return this.max;
+    }
+    if (rank <= this.zeroCount) {
+      return Math.max(this.min, 0);
+    }
+
+    let seen = this.zeroCount;
+    const keys = [...this.buckets.keys()].sort((a, b) => a - b);
+    for (const key of keys) {
+      seen += this.buckets.get(key)!;
+      if (seen >= rank) {
+        // Midpoint of the bucket, clamped to the observed range
+        const estimate = (2 * Math.pow(this.gamma, key)) / (this.gamma + 1);
+        return Math.min(this.max, Math.max(this.min, estimate));
+      }
+    }
+    return this.max;
+  }
+
+  /**
+   * Summarize count and p50/p95/p99
+   */
+  summary(): LatencySummary {
+    return {
+      count: this.count,
+      p50: this.quantile(0.5),
+      p95: this.quantile(0.95),
+      p99: this.quantile(0.99)
+    };
+  }
+
+  /**
+   * Forget all recorded values
+   */
+  clear(): void {
+    this.buckets.clear();
+    this.zeroCount = 0;
+    this.count = 0;
+    this.min = Infinity;
+    this.max = 0;
+  }
+}
+
+/**
+ * Quantile sketch over a sliding time window
+ *
+ * The window is split into `slices` sub-sketches; a query merges the
+ * slices still inside the window. The effective window therefore moves in
+ * steps of `window / slices` and covers between `window * (1 - 1/slices)`
+ * and `window`.
+ */
+export class SlidingWindowSketch {
+  private sliceDuration: number;
+  private sketches: QuantileSketch[];
+  private epochs: number[];
+
+  /**
+   * @param window - Window duration (ms)
+   * @param slices - Number of slices (default: 6)
+   * @param relativeAccuracy - Maximum relative error (default: 1%)
+   */
+  constructor(window: number, private slices = 6, private relativeAccuracy = 0.01) {
+    this.sliceDuration = window / slices;
+    this.sketches = Array.from({ length: slices }, () => new QuantileSketch(relativeAccuracy));
+    this.epochs = new Array(slices).fill(-Infinity);
+  }
+
+  /**
+   * Record a value at time `now`
+   */
+  add(value: number, now = Date.now()): void {
+    const epoch = Math.floor(now / this.sliceDuration);
+    const index = epoch % this.slices;
+
+    // Recycle a slice that belongs to an expired epoch
+    if (this.epochs[index] !== epoch) {
+      this.sketches[index].clear();
+      this.epochs[index] = epoch;
+    }
+    this.sketches[index].add(value);
+  }
+
+  /**
+   * Merge the slices inside the window ending at `now`
+   */
+  snapshot(now = Date.now()): QuantileSketch {
+    const epoch = Math.floor(now / this.sliceDuration);
+    const merged = new QuantileSketch(this.relativeAccuracy);
+
+    this.sketches.forEach((sketch, index) => {
+      if (this.epochs[index] > epoch - this.slices) {
+        merged.merge(sketch);
+      }
+    });
+    return merged;
+  }
+
+  /**
+   * Forget all recorded values
+   */
+  clear(): void {
+    this.sketches.forEach(sketch => sketch.clear());
+    this.epochs.fill(-Infinity);
+  }
+}
+
+/**
+ * Latency tracking for one operation: all-time and per-window quantiles
+ */
+export class LatencyTracker {
+  private total: QuantileSketch;
+  private windows = new Map<string, SlidingWindowSketch>();
+
+  /**
+   * @param windows - Time windows (name to duration in ms)
+   * @param relativeAccuracy - Maximum relative error (default: 1%)
+   */
+  constructor(
+    windows: Record<string, number> = DEFAULT_LATENCY_WINDOWS,
+    relativeAccuracy = 0.01
+  ) {
+    this.total = new QuantileSketch(relativeAccuracy);
+    for (const [name, duration] of Object.entries(windows)) {
+      this.windows.set(name, new SlidingWindowSketch(duration, 6, relativeAccuracy));
+    }
+  }
+
+  /**
+   * Record a latency (ms) observed at time `now`
+   */
+  record(latency: number, now = Date.now()): void {
+    this.total.add(latency);
+    for (const window of this.windows.values()) {
+      window.add(latency, now);
+    }
+  }
+
+  /**
+   * All-time summary
+   */
+  summary(): LatencySummary {
+    return this.total.summary();
+  }
+
+  /**
+   * Per-window summaries for the windows ending at `now`
+   */
+  windowSummaries(now = Date.now()): Record<string, LatencySummary> {
+    const summaries: Record<string, LatencySummary> = {};
+    for (const [name, window] of this.windows) {
+      summaries[name] = window.snapshot(now).summary();
+    }
+    return summaries;
+  }
+
+  /**
+   * Forget all recorded latencies
+   */
+  clear(): void {
+    this.total.clear();
+    for (const window of this.windows.values()) {
+      window.clear();
+    }
+  }
+}
@@ -0,0 +1,92 @@
+// Note: Using regular imports for Jest compatibility
+import { PlanRegistry } from './PlanRegistry.js';
+import { RateLimiter } from './ratelimit.js';
+import { EchoPlan, contextWith, createTestRegistry } from './test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('rate limits', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  const alice = { userId: 'alice', sessionId: 's1' };
+  const bob = { userId: 'bob', sessionId: 's2' };
+
+  it('should refill token buckets over time', () => {
+    const limiter = new RateLimiter({
+      limits: [{ operation: 'chat:*', capacity: 2, refillPerSecond: 1 }]
+    });
+
+    limiter.consume('chat:send', alice, 0);
+    limiter.consume('chat:read', alice, 0);
+    expect(() => limiter.consume('chat:send', alice, 0)).toThrow(
+      expect.objectContaining({ code: 'RATE_LIMITED', retryAfter: 1 })
+    );
+
+    // Other identities and domains have their own buckets
+    limiter.consume('chat:send', bob, 0);
+    limiter.consume('ai:generate', alice, 0);
+
+    limiter.consume('chat:send', alice, 1000);
+  });
+
+  it('should enforce daily quotas until the next UTC day', () => {
+    const limiter = new RateLimiter({ quotas: [{ operation: 'ai:*', daily: 1 }] });
+    const noon = Date.UTC(2025, 0, 1, 12);
+
+    limiter.consume('ai:generate', alice, noon);
+    expect(() => limiter.consume('ai:summarize', alice, noon)).toThrow(
+      expect.objectContaining({ retryAfter: 12 * 3600 })
+    );
+    limiter.consume('ai:generate', alice, Date.UTC(2025, 0, 2));
+  });
+
+  it('should not consume tokens when another rule rejects', () => {
+    const limiter = new RateLimiter({
+      limits: [{ capacity: 1, refillPerSecond: 1 }],
+      quotas: [{ operation: 'ai:*', daily: 0 }]
+    });
+
+    expect(() => limiter.consume('ai:generate', alice, 0)).toThrow();
+    limiter.consume('chat:send', alice, 0);
+  });
+
+  it('should limit invocations with context', async () => {
+    registry = new PlanRegistry({
+      slowOperationThreshold: Infinity,
+      rateLimits: { limits: [{ per: 'session', capacity: 1, refillPerSecond: 0.001 }] }
+    });
+    registry.register({ domain: 'test', method: 'echo', plan: new EchoPlan(), version: '1.0.0' });
+
+    await registry.invoke('test:echo', 1, contextWith([]));
+    await expect(
+      registry.invoke('test:echo', 2, contextWith([]))
+    ).rejects.toMatchObject({ code: 'RATE_LIMITED' });
+
+    // Internal calls are not limited
+    await registry.invoke('test:echo', 3);
+  });
+
+  it('should not charge callers that fail authorization', async () => {
+    registry = new PlanRegistry({
+      slowOperationThreshold: Infinity,
+      rateLimits: { limits: [{ per: 'user', capacity: 1, refillPerSecond: 0.001 }] }
+    });
+    registry.register({
+      domain: 'test',
+      method: 'echo',
+      plan: new EchoPlan(),
+      version: '1.0.0',
+      requiredCapability: 'test:echo'
+    });
+
+    await expect(
+      registry.invoke('test:echo', 1, contextWith([]))
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await registry.invoke('test:echo', 2, contextWith(['test:echo']));
+  });
+});
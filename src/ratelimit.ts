@@ -0,0 +1,322 @@
+/**
+ * Rate limiting and quotas - per-identity invocation limits
+ *
+ * Limits are token buckets: each bucket holds up to `capacity` tokens and
+ * refills at `refillPerSecond`; every invocation takes one token. Quotas
+ * cap the number of invocations per UTC day, e.g. for expensive domains
+ * such as `ai:*`.
+ *
+ * Rules select operations by pattern ('chat:send', 'ai:*' or '*') and
+ * share a bucket per user, per session or globally. An invocation must
+ * pass every matching rule; a rejection consumes nothing.
+ *
+ * Configuration example:
+ * ```json
+ * {
+ *   "limits": [
+ *     { "operation": "*", "per": "session", "capacity": 50, "refillPerSecond": 10 },
+ *     { "operation": "ai:*", "per": "user", "capacity": 5, "refillPerSecond": 0.5 }
+ *   ],
+ *   "quotas": [
+ *     { "operation": "ai:*", "per": "user", "daily": 1000 }
+ *   ]
+ * }
+ * ```
+ */
+
+import type { PlanInterceptor } from './interceptors.js';
+import { PlanError, RateLimitedError } from './errors.js';
+import { InterceptorPriority } from './interceptors.js';
+
+/**
+ * Whose invocations share a bucket or quota
+ */
+export type RateLimitScope = 'user' | 'session' | 'global';
+
+/**
+ * Token bucket rule
+ */
+export interface RateLimitRule {
+  /**
+   * Operations the rule applies to: exact name, 'domain:*' or '*' (default: '*')
+   */
+  operation?: string;
+
+  /**
+   * Bucket sharing (default: 'user')
+   */
+  per?: RateLimitScope;
+
+  /**
+   * Give every matching operation its own bucket (default: false)
+   *
+   * By default all operations matching the pattern share one bucket.
+   */
+  perOperation?: boolean;
+
+  /**
+   * Maximum burst size
+   */
+  capacity: number;
+
+  /**
+   * Sustained rate (tokens added per second)
+   */
+  refillPerSecond: number;
+}
+
+/**
+ * Daily quota rule
+ */
+export interface QuotaRule {
+  /**
+   * Operations the quota applies to: exact name, 'domain:*' or '*'
+   */
+  operation: string;
+
+  /**
+   * Quota sharing (default: 'user')
+   */
+  per?: RateLimitScope;
+
+  /**
+   * Maximum invocations per UTC day
+   */
+  daily: number;
+}
+
+/**
+ * Rate limit configuration
+ */
+export interface RateLimitConfig {
+  limits?: RateLimitRule[];
+  quotas?: QuotaRule[];
+}
+
+/**
+ * Identity an invocation is attributed to
+ */
+export interface RateLimitIdentity {
+  userId: string;
+  sessionId: string;
+}
+
+interface TokenBucket {
+  tokens: number;
+  updated: number;
+  capacity: number;
+  refillPerSecond: number;
+}
+
+interface QuotaCounter {
+  day: number;
+  count: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60_000;
+
+/**
+ * Check if an operation matches a rule pattern
+ */
+export function matchesOperationPattern(pattern: string, operation: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  if (pattern.endsWith(':*')) {
+    return operation.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === operation;
+}
+
+/**
+ * Token bucket rate limiter with daily quotas
+ */
+export class RateLimiter {
+  private limits: RateLimitRule[];
+  private quotas: QuotaRule[];
+  private buckets = new Map<string, TokenBucket>();
+  private counters = new Map<string, QuotaCounter>();
+  private lastPrune = 0;
+
+  /**
+   * @throws PlanError if a rule is invalid
+   */
+  constructor(config: RateLimitConfig = {}) {
+    this.limits = config.limits ?? [];
+    this.quotas = config.quotas ?? [];
+
+    for (const rule of this.limits) {
+      if (!(rule.capacity > 0) || !(rule.refillPerSecond > 0)) {
+        throw new PlanError(
+          'Rate limit requires positive capacity and refillPerSecond',
+          'INVALID_CONFIG',
+          { rule }
+        );
+      }
+    }
+    for (const rule of this.quotas) {
+      if (!(rule.daily >= 0)) {
+        throw new PlanError('Quota requires a non-negative daily limit', 'INVALID_CONFIG', { rule });
+      }
+    }
+  }
+
+  /**
+   * Check if any rules are configured
+   */
+  get enabled(): boolean {
+    return this.limits.length > 0 || this.quotas.length > 0;
+  }
+
+  /**
+   * Take one token from every matching bucket and count the invocation
+   * against every matching quota
+   *
+   * @throws RateLimitedError if a bucket is empty or a quota is exhausted
+   *   (nothing is consumed in that case)
+   */
+  consume(operation: string, identity: RateLimitIdentity, now = Date.now()): void {
+    if (now - this.lastPrune >= PRUNE_INTERVAL_MS) {
+      this.prune(now);
+    }
+
+    const buckets: TokenBucket[] = [];
+    const counters: QuotaCounter[] = [];
+    let retryAfter = 0;
+    let exceeded: Record<string, any> | undefined;
+
+    this.limits.forEach((rule, index) => {
+      const pattern = rule.operation ?? '*';
+      if (!matchesOperationPattern(pattern, operation)) {
+        return;
+      }
+
+      const target = rule.perOperation ? operation : pattern;
+      const key = `limit:${index}:${target}:${scopeKey(rule.per, identity)}`;
+      const bucket = this.refill(key, rule, now);
+
+      if (bucket.tokens < 1) {
+        const wait = Math.ceil((1 - bucket.tokens) / rule.refillPerSecond);
+        if (wait > retryAfter) {
+          retryAfter = wait;
+          exceeded = { limit: pattern, per: rule.per ?? 'user' };
+        }
+      }
+      buckets.push(bucket);
+    });
+
+    const day = Math.floor(now / DAY_MS);
+    this.quotas.forEach((rule, index) => {
+      if (!matchesOperationPattern(rule.operation, operation)) {
+        return;
+      }
+
+      const key = `quota:${index}:${scopeKey(rule.per, identity)}`;
+      let counter = this.counters.get(key);
+      if (!counter || counter.day !== day) {
+        counter = { day, count: 0 };
+        this.counters.set(key, counter);
+      }
+
+      if (counter.count >= rule.daily) {
+        const wait = Math.ceil(((day + 1) * DAY_MS - now) / 1000);
+        if (wait > retryAfter) {
+          retryAfter = wait;
+          exceeded = { quota: rule.operation, per: rule.per ?? 'user', daily: rule.daily };
+        }
+      }
+      counters.push(counter);
+    });
+
+    if (exceeded) {
+      throw new RateLimitedError(operation, retryAfter, exceeded);
+    }
+
+    buckets.forEach(bucket => bucket.tokens--);
+    counters.forEach(counter => counter.count++);
+  }
+
+  /**
+   * Forget all buckets and quota counters
+   */
+  reset(): void {
+    this.buckets.clear();
+    this.counters.clear();
+  }
+
+  /**
+   * Get a bucket with tokens refilled up to `now`
+   */
+  private refill(key: string, rule: RateLimitRule, now: number): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        tokens: rule.capacity,
+        updated: now,
+        capacity: rule.capacity,
+        refillPerSecond: rule.refillPerSecond
+      };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+
+    const elapsed = Math.max(0, now - bucket.updated) / 1000;
+    bucket.tokens = Math.min(rule.capacity, bucket.tokens + elapsed * rule.refillPerSecond);
+    bucket.updated = now;
+    return bucket;
+  }
+
+  /**
+   * Drop buckets that are full again and counters from previous days
+   */
+  private prune(now: number): void {
+    this.lastPrune = now;
+
+    for (const [key, bucket] of this.buckets) {
+      const elapsed = (now - bucket.updated) / 1000;
+      if (bucket.tokens + elapsed * bucket.refillPerSecond >= bucket.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+
+    const day = Math.floor(now / DAY_MS);
+    for (const [key, counter] of this.counters) {
+      if (counter.day !== day) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+function scopeKey(per: RateLimitScope = 'user', identity: RateLimitIdentity): string {
+  switch (per) {
+    case 'session':
+      return `session:${identity.sessionId}`;
+    case 'global':
+      return 'global';
+    default:
+      return `user:${identity.userId}`;
+  }
+}
+
+/**
+ * Built-in rate limit enforcement
+ *
+ * Applies to invocations with context (i.e. from transports), attributed
+ * to the context's user and session. Internal calls are not limited.
+ */
+export function createRateLimitInterceptor(limiter: RateLimiter): PlanInterceptor {
+  return {
+    name: 'rateLimit',
+    priority: InterceptorPriority.RATE_LIMIT,
+    before({ operation, context }) {
+      if (context) {
+        limiter.consume(operation, {
+          userId: context.auth.userId,
+          sessionId: context.auth.sessionId
+        });
+      }
+    }
+  };
+}
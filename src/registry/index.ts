@@ -87,3 +87,5 @@ export { HandlerRegistry, createHandlerRegistry } from './HandlerRegistry.js';
 export type { Plan, PlanMetadata, ExecutionResult, PlanTransaction } from './PlanRegistry.js';
 export type { Handler, HandlerMetadata, CallResult } from './HandlerRegistry.js';
 export { initializeOnePlans } from './initialize-one-handlers.js';
+export { registerUnifiedOperations, legacyDomainName } from './unified-adapter.js';
+export type { UnifiedAdapterOptions } from './unified-adapter.js';
@@ -0,0 +1,124 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from '../PlanRegistry.js';
+import { NotFoundError } from '../errors.js';
+import { McpTransportPlan } from '../transports/McpTransportPlan.js';
+import { createOneResourceSources } from './one-mcp-resources.js';
+import { matchUriTemplate } from '../mcp.js';
+import { authWith, createTestRegistry } from '../test-helpers.js';
+import { PassThrough } from 'stream';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('mcp resources', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  it('should match and decode URI templates', () => {
+    expect(matchUriTemplate('one://channel/{id}', 'one://channel/chat%20one')).toEqual({ id: 'chat one' });
+    expect(matchUriTemplate('one://channel/{id}', 'one://channel/a/b')).toBeUndefined();
+    expect(matchUriTemplate('one://id/{idHash}', 'one://object/abc')).toBeUndefined();
+  });
+
+  it('should list, read and watch ONE resources within the caller\'s capabilities', async () => {
+    const channelListeners = new Set<(id: string) => void>();
+    const sources = createOneResourceSources({
+      storage: {
+        getUnversionedObject: async hash => ({ $type$: 'Keys', hash }),
+        getObjectByIdHash: async idHash => ({ obj: { $type$: 'Profile', nickname: 'ann' }, idHash, hash: 'h1' })
+      },
+      recipes: {
+        get: async ({ name }) => {
+          if (name !== 'Profile') {
+            throw new NotFoundError('Recipe', name);
+          }
+          return { success: true, recipe: { name: 'Profile', rule: [] } };
+        },
+        list: async () => ({ success: true, recipes: ['Profile'] })
+      },
+      channels: {
+        getChannel: async id => ({ id, owner: 'owner' }),
+        listChannels: async () => [{ id: 'lama' }, { id: 'lama' }, { id: 'secret' }]
+      },
+      onChannelUpdated: listener => {
+        channelListeners.add(listener);
+        return () => channelListeners.delete(listener);
+      }
+    });
+
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const messages: any[] = [];
+    let buffered = '';
+    output.on('data', (data: Buffer) => {
+      buffered += data.toString();
+      messages.push(...buffered.split('\n').slice(0, -1).map(line => JSON.parse(line)));
+      buffered = buffered.slice(buffered.lastIndexOf('\n') + 1);
+    });
+
+    const transport = new McpTransportPlan(registry, {
+      inputStream: input,
+      outputStream: output,
+      resources: sources,
+      getAuthContext: async () => authWith([
+        'resources:id:*',
+        'resources:recipe:*',
+        'resources:channel:lama'
+      ])
+    });
+    await transport.start();
+
+    const request = async (id: number, method: string, params?: any) => {
+      input.write(JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n');
+      while (!messages.some(message => message.id === id)) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      return messages.find(message => message.id === id);
+    };
+
+    try {
+      const initialized = await request(1, 'initialize', {});
+      expect(initialized.result.capabilities.resources).toEqual({ subscribe: true, listChanged: false });
+
+      const templates = await request(2, 'resources/templates/list');
+      expect(templates.result.resourceTemplates.map((template: any) => template.uriTemplate)).toEqual([
+        'one://object/{hash}',
+        'one://id/{idHash}',
+        'one://recipe/{name}',
+        'one://channel/{id}'
+      ]);
+
+      const listed = await request(3, 'resources/list');
+      expect(listed.result.resources.map((resource: any) => resource.uri)).toEqual([
+        'one://recipe/Profile',
+        'one://channel/lama'
+      ]);
+
+      const profile = await request(4, 'resources/read', { uri: 'one://id/abc' });
+      expect(profile.result.contents[0]).toMatchObject({ uri: 'one://id/abc', mimeType: 'application/json' });
+      expect(JSON.parse(profile.result.contents[0].text).obj.nickname).toBe('ann');
+
+      expect((await request(5, 'resources/read', { uri: 'one://object/abc' })).error.data.code).toBe('FORBIDDEN');
+      expect((await request(6, 'resources/read', { uri: 'one://recipe/Nope' })).error.data.code).toBe('RECIPE_NOT_FOUND');
+      expect((await request(7, 'resources/read', { uri: 'other://x' })).error.data.code).toBe('RESOURCE_NOT_FOUND');
+      expect((await request(8, 'resources/subscribe', { uri: 'one://recipe/Profile' })).error.data.code).toBe('VALIDATION_ERROR');
+      expect((await request(11, 'resources/read', { uri: 'one://channel/lama:secret' })).error.data.code).toBe('VALIDATION_ERROR');
+
+      expect((await request(9, 'resources/subscribe', { uri: 'one://channel/lama' })).result).toEqual({});
+      channelListeners.forEach(listener => listener('other'));
+      channelListeners.forEach(listener => listener('lama'));
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(messages.filter(message => message.method === 'notifications/resources/updated')).toEqual([
+        { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'one://channel/lama' } }
+      ]);
+
+      await request(10, 'resources/unsubscribe', { uri: 'one://channel/lama' });
+      expect(channelListeners.size).toBe(0);
+    } finally {
+      await transport.stop();
+    }
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * ONE MCP Resources
+ *
+ * MCP resource sources for ONE data, so an assistant connected through
+ * McpTransportPlan or McpStdioServer can read objects, recipes and channels
+ * as context instead of calling tools for them:
+ *
+ * - `one://object/{hash}` - an object by hash (immutable)
+ * - `one://id/{idHash}` - latest version of a versioned object, e.g. a
+ *   Profile; subscribable when `onVersionedObject` is given
+ * - `one://recipe/{name}` - a recipe
+ * - `one://channel/{id}` - a channel; subscribable when `onChannelUpdated`
+ *   is given
+ *
+ * ```typescript
+ * const transport = new McpTransportPlan(registry, {
+ *   resources: createOneResourceSources({
+ *     storage: new OneStoragePlan(),
+ *     recipes: new RecipeHandler(),
+ *     channels: new OneChannelsPlan(channelManager),
+ *     onChannelUpdated: listener =>
+ *       channelManager.onUpdated((_infoIdHash, channelId) => listener(channelId))
+ *   })
+ * });
+ * ```
+ *
+ * McpTransportPlan requires the capability `resources:<kind>:<key>` (e.g.
+ * `resources:channel:lama`); grant `resources:*` for all ONE data.
+ */
+
+import { expandUriTemplate } from '../mcp.js';
+import { scopedCapability } from '../types/context.js';
+import type { McpResource, McpResourceSource } from '../mcp.js';
+
+/**
+ * Listener registration returning a function that removes the listener
+ */
+export type OneChangeEvent<T> = (listener: (key: T) => void) => () => void;
+
+/**
+ * The OneStoragePlan methods used for objects
+ */
+export interface OneResourceStorage {
+  getUnversionedObject(hash: string): Promise<unknown>;
+  getObjectByIdHash(idHash: string): Promise<unknown>;
+}
+
+/**
+ * The RecipeHandler methods used for recipes
+ */
+export interface OneResourceRecipes {
+  get(request: { name: string }): Promise<{ recipe?: unknown }>;
+  list(): Promise<{ recipes?: Array<string | { name: string }> }>;
+}
+
+/**
+ * The OneChannelsPlan methods used for channels
+ */
+export interface OneResourceChannels {
+  getChannel(channelId: string): Promise<unknown>;
+  listChannels(): Promise<Array<{ id: string }>>;
+}
+
+/**
+ * Plans backing the ONE resources
+ *
+ * Typed structurally so this module does not load one.core; pass the
+ * OneStoragePlan, RecipeHandler and OneChannelsPlan instances.
+ */
+export interface OneResourceDependencies {
+  storage: OneResourceStorage;
+  recipes?: OneResourceRecipes;
+  channels?: OneResourceChannels;
+
+  /**
+   * Reports the ID hash of each new version of a versioned object
+   */
+  onVersionedObject?: OneChangeEvent<string>;
+
+  /**
+   * Reports the ID of each channel that changed
+   */
+  onChannelUpdated?: OneChangeEvent<string>;
+}
+
+/**
+ * Create the resource sources for ONE objects, recipes and channels
+ *
+ * Recipes and channels are only served when their plan is given.
+ */
+export function createOneResourceSources(deps: OneResourceDependencies): McpResourceSource[] {
+  const sources: McpResourceSource[] = [
+    {
+      template: {
+        uriTemplate: 'one://object/{hash}',
+        name: 'ONE object',
+        description: 'Object by SHA-256 hash',
+        mimeType: 'application/json'
+      },
+      capability: ({ hash }) => scopedCapability('resources:object', hash),
+      read: ({ hash }) => deps.storage.getUnversionedObject(hash)
+    },
+    {
+      template: {
+        uriTemplate: 'one://id/{idHash}',
+        name: 'ONE versioned object',
+        description: 'Latest version of a versioned object (e.g. a Profile) by ID hash',
+        mimeType: 'application/json'
+      },
+      capability: ({ idHash }) => scopedCapability('resources:id', idHash),
+      read: ({ idHash }) => deps.storage.getObjectByIdHash(idHash),
+      ...(deps.onVersionedObject && {
+        watch: ({ idHash }, onChange) => watchKey(deps.onVersionedObject!, idHash, onChange)
+      })
+    }
+  ];
+
+  if (deps.recipes) {
+    const recipes = deps.recipes;
+    sources.push({
+      template: {
+        uriTemplate: 'one://recipe/{name}',
+        name: 'ONE recipe',
+        description: 'Recipe (object type definition) by name',
+        mimeType: 'application/json'
+      },
+      capability: ({ name }) => scopedCapability('resources:recipe', name),
+      read: async ({ name }) => (await recipes.get({ name })).recipe,
+      list: async () => {
+        const { recipes: known = [] } = await recipes.list();
+        return known.map((recipe): McpResource => {
+          const name = typeof recipe === 'string' ? recipe : recipe.name;
+          return {
+            uri: expandUriTemplate('one://recipe/{name}', { name }),
+            name: `Recipe ${name}`,
+            mimeType: 'application/json'
+          };
+        });
+      }
+    });
+  }
+
+  if (deps.channels) {
+    const channels = deps.channels;
+    sources.push({
+      template: {
+        uriTemplate: 'one://channel/{id}',
+        name: 'ONE channel',
+        description: 'Channel (e.g. a chat) by ID',
+        mimeType: 'application/json'
+      },
+      capability: ({ id }) => scopedCapability('resources:channel', id),
+      read: ({ id }) => channels.getChannel(id),
+      list: async () => {
+        const infos = await channels.listChannels();
+        return [...new Set(infos.map(info => info.id))].map(id => ({
+          uri: expandUriTemplate('one://channel/{id}', { id }),
+          name: `Channel ${id}`,
+          mimeType: 'application/json'
+        }));
+      },
+      ...(deps.onChannelUpdated && {
+        watch: ({ id }, onChange) => watchKey(deps.onChannelUpdated!, id, onChange)
+      })
+    });
+  }
+
+  return sources;
+}
+
+/**
+ * Call onChange whenever the event reports the given key
+ */
+function watchKey(event: OneChangeEvent<string>, key: string, onChange: () => void): () => void {
+  return event(changed => {
+    if (changed === key) {
+      onChange();
+    }
+  });
+}
@@ -0,0 +1,58 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from '../PlanRegistry.js';
+import { createPlanRegistry } from './PlanRegistry.js';
+import { registerUnifiedOperations } from './unified-adapter.js';
+import { contextWith, createTestRegistry } from '../test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('plan/method registry bridge', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  class ContactsPlan {
+    async getContact(id: string) {
+      return { id };
+    }
+
+    async addMember(group: string, person: string) {
+      return { group, person };
+    }
+  }
+
+  beforeEach(() => {
+    const source = createPlanRegistry();
+    source.register('one.contacts', new ContactsPlan(), { version: '1.2.0' });
+    expect(registerUnifiedOperations(registry, source)).toEqual([
+      'oneContacts:getContact',
+      'oneContacts:addMember'
+    ]);
+  });
+
+  it('should register plans as domain:method operations', () => {
+    expect(registry.describe('oneContacts:getContact')).toMatchObject({
+      version: '1.2.0',
+      requiredCapability: 'oneContacts:getContact'
+    });
+  });
+
+  it('should invoke with plan/method argument conventions', async () => {
+    const context = contextWith(['oneContacts:*']);
+
+    expect(await registry.invoke('oneContacts:getContact', 'p1', context)).toEqual({ id: 'p1' });
+    expect(
+      await registry.invoke('oneContacts:addMember', ['g1', 'p1'], context)
+    ).toEqual({ group: 'g1', person: 'p1' });
+    expect(registry.getMetrics('oneContacts:getContact').count).toBe(1);
+  });
+
+  it('should enforce capabilities', async () => {
+    await expect(
+      registry.invoke('oneContacts:getContact', 'p1', contextWith([]))
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Unified Registry Adapter
+ *
+ * Registers the Plans of a plan/method registry (e.g. the one returned by
+ * initializeOnePlans) as domain:method operations in the unified
+ * PlanRegistry, so every TransportPlan (HTTP, stdio, IPC) serves them with
+ * capability checks, metrics and the rest of the interceptor pipeline.
+ *
+ * Naming: Plan 'one.storage' becomes domain 'oneStorage', so
+ * one.storage.storeVersionedObject is invoked as
+ * 'oneStorage:storeVersionedObject'.
+ *
+ * Invocation keeps the plan/method calling convention: an array request is
+ * spread into positional arguments, anything else is passed as the single
+ * argument. The adapter registers a snapshot - Plans registered in the
+ * source registry later must be bridged again.
+ *
+ * Usage:
+ * ```typescript
+ * const onePlans = initializeOnePlans({ leuteModel, channelManager });
+ * registerUnifiedOperations(registry, onePlans);
+ * await registry.invoke('oneLeute:getContacts', undefined, context);
+ * ```
+ */
+
+import type { PlanRegistry as UnifiedPlanRegistry } from '../PlanRegistry.js';
+import type { PlanRegistry } from './PlanRegistry.js';
+
+export interface UnifiedAdapterOptions {
+  /**
+   * Plans to register (default: all)
+   */
+  plans?: string[];
+
+  /**
+   * Map a Plan name to a domain (default: legacyDomainName)
+   */
+  domain?: (planName: string) => string;
+
+  /**
+   * Capability required per operation (default: 'domain:method')
+   *
+   * Return undefined to register an operation without capability check.
+   */
+  requiredCapability?: (domain: string, method: string) => string | undefined;
+}
+
+/**
+ * Convert a Plan name to a unified domain name ('one.storage' -> 'oneStorage')
+ */
+export function legacyDomainName(planName: string): string {
+  return planName
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part, index) => index === 0 ? part : part[0].toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * Register Plans as unified domain:method operations
+ *
+ * @param target - Unified registry to register operations in
+ * @param source - Registry holding the Plans
+ * @param options - Plan selection, naming and capabilities
+ * @returns Names of the registered operations
+ * @throws Error if a selected Plan is not registered in the source
+ * @throws PlanError if an operation name is invalid or already registered
+ */
+export function registerUnifiedOperations(
+  target: UnifiedPlanRegistry,
+  source: PlanRegistry,
+  options: UnifiedAdapterOptions = {}
+): string[] {
+  const toDomain = options.domain ?? legacyDomainName;
+  const toCapability = options.requiredCapability ?? ((domain, method) => `${domain}:${method}`);
+  const operations: string[] = [];
+
+  for (const planName of options.plans ?? source.listPlans()) {
+    const metadata = source.getMetadata(planName);
+    const plan = source.getPlan(planName);
+    if (!metadata || !plan) {
+      throw new Error(`Plan '${planName}' not found`);
+    }
+
+    const domain = toDomain(planName);
+    const adapter = createPlanAdapter(source, planName, metadata.methods.map(m => m.name));
+
+    for (const method of metadata.methods) {
+      target.register({
+        domain,
+        method: method.name,
+        plan: adapter,
+        version: metadata.version ?? '1.0.0',
+        description: method.description ?? metadata.description,
+        requiredCapability: toCapability(domain, method.name)
+      });
+      operations.push(`${domain}:${method.name}`);
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Create the plan object registered in the unified registry
+ *
+ * Each method executes through the source registry, which spreads array
+ * requests into positional arguments.
+ */
+function createPlanAdapter(
+  source: PlanRegistry,
+  planName: string,
+  methods: string[]
+): any {
+  const adapter: Record<string, (request: any) => Promise<unknown>> = {};
+
+  for (const method of methods) {
+    adapter[method] = async (request: any) => {
+      const result = await source.execute(planName, method, request);
+      return result.product;
+    };
+  }
+
+  return adapter;
+}
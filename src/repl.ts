@@ -0,0 +1,270 @@
+/**
+ * REPL - shorthand syntax, completion, help and result formatting for the
+ * interactive stdio mode (StdioTransportPlan with `repl: true`)
+ *
+ * Shorthand: `<operation> key=value ...`
+ * - Values are parsed as JSON where possible (`limit=20`, `force=true`,
+ *   `tags=["a","b"]`, `name="two words"`), otherwise taken as strings
+ *   (`topicId=abc`)
+ * - Dotted keys build nested objects: `filter.since=2024-01-01`
+ * - Single or double quotes group whitespace: `text='hello world'`
+ *
+ * Everything here is pure; the transport owns readline, history and auth.
+ */
+
+import { inspect } from 'util';
+import { ValidationError } from './errors.js';
+import type { OperationMetadata } from './types/metadata.js';
+import type { JSONSchema } from './types/schema.js';
+
+/**
+ * How results are printed
+ */
+export type ReplResultFormat = 'pretty' | 'table' | 'json';
+
+/**
+ * A parsed shorthand command
+ */
+export interface ReplCommand {
+  operation: string;
+  request: Record<string, any>;
+}
+
+/**
+ * Parse a shorthand command line
+ *
+ * @throws ValidationError on unbalanced quotes or arguments without `=`
+ */
+export function parseShorthand(line: string): ReplCommand {
+  const [operation, ...args] = tokenize(line);
+  if (!operation) {
+    throw new ValidationError('Empty command');
+  }
+
+  const request: Record<string, any> = {};
+  for (const arg of args) {
+    const separator = arg.indexOf('=');
+    if (separator <= 0) {
+      throw new ValidationError(`Invalid argument "${arg}" (expected key=value)`, { argument: arg });
+    }
+
+    const path = arg.slice(0, separator).split('.');
+    let target = request;
+    for (const key of path.slice(0, -1)) {
+      if (typeof target[key] !== 'object' || target[key] === null) {
+        target[key] = {};
+      }
+      target = target[key];
+    }
+    target[path[path.length - 1]] = parseValue(arg.slice(separator + 1));
+  }
+
+  return { operation, request };
+}
+
+/**
+ * Complete a partial line (readline completer format)
+ *
+ * Completes commands and operation names in the first word, operation
+ * names after `.help`, and request properties (`key=`) from the
+ * operation's request schema after an operation name.
+ *
+ * @returns Matching completions and the substring they replace
+ */
+export function completeReplLine(
+  line: string,
+  operations: Array<Pick<OperationMetadata, 'operation' | 'requestSchema'>>,
+  commands: string[]
+): [string[], string] {
+  const words = line.split(/\s+/);
+  const partial = words[words.length - 1];
+  const names = operations.map(operation => operation.operation);
+
+  let candidates: string[];
+  if (words.length === 1) {
+    candidates = [...commands, ...names];
+  } else if (words[0] === '.help') {
+    candidates = words.length === 2 ? names : [];
+  } else {
+    const operation = operations.find(candidate => candidate.operation === words[0]);
+    const given = new Set(words.slice(1, -1).map(word => word.split('=')[0]));
+    candidates = partial.includes('=')
+      ? []
+      : Object.keys(operation?.requestSchema?.properties ?? {})
+        .filter(property => !given.has(property))
+        .map(property => `${property}=`);
+  }
+
+  return [candidates.filter(candidate => candidate.startsWith(partial)).sort(), partial];
+}
+
+/**
+ * Describe an operation for `.help <operation>`
+ */
+export function formatOperationHelp(metadata: OperationMetadata): string {
+  const lines = [`${metadata.operation}@${metadata.version}${metadata.streaming ? ' (streaming)' : ''}`];
+
+  if (metadata.description) {
+    lines.push(`  ${metadata.description}`);
+  }
+  if (metadata.deprecated) {
+    lines.push(`  Deprecated${metadata.sunset ? `, sunset ${metadata.sunset}` : ''}`);
+  }
+  if (metadata.versions && metadata.versions.length > 1) {
+    lines.push(`  Versions: ${metadata.versions.join(', ')}`);
+  }
+  if (metadata.requiredCapability) {
+    lines.push(`  Requires: ${metadata.requiredCapability}${metadata.scopedCapability ? ' (scoped)' : ''}`);
+  }
+
+  lines.push('', 'Parameters:', ...describeProperties(metadata.requestSchema));
+  if (metadata.responseSchema) {
+    lines.push('', 'Returns:', ...describeProperties(metadata.responseSchema));
+  }
+
+  const example = Object.entries(metadata.requestSchema?.properties ?? {})
+    .filter(([name]) => metadata.requestSchema?.required?.includes(name))
+    .map(([name, schema]) => `${name}=<${schemaType(schema)}>`);
+  lines.push('', `Usage: ${[metadata.operation, ...example].join(' ')}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a result for printing
+ *
+ * `table` prints arrays of objects as columns and objects as key/value
+ * rows, and falls back to `pretty` for anything else.
+ *
+ * @param colors - Use ANSI colors (pretty format, terminals only)
+ */
+export function formatResult(value: unknown, format: ReplResultFormat, colors = false): string {
+  if (format === 'json') {
+    return JSON.stringify(value);
+  }
+
+  if (format === 'table') {
+    if (Array.isArray(value) && value.length > 0 && value.every(isRecord)) {
+      return formatTable(value);
+    }
+    if (isRecord(value)) {
+      return formatTable(Object.entries(value).map(([key, item]) => ({ key, value: item })));
+    }
+  }
+
+  return inspect(value, { depth: null, colors });
+}
+
+/**
+ * Format rows as an aligned text table (cells truncated to 40 characters)
+ */
+export function formatTable(rows: Record<string, unknown>[]): string {
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  const cells = rows.map(row => columns.map(column => cell(row[column])));
+  const widths = columns.map((column, index) =>
+    Math.max(column.length, ...cells.map(row => row[index].length))
+  );
+
+  const line = (values: string[]) => values
+    .map((value, index) => value.padEnd(widths[index]))
+    .join('  ')
+    .trimEnd();
+
+  return [
+    line(columns),
+    line(widths.map(width => '-'.repeat(width))),
+    ...cells.map(line)
+  ].join('\n');
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Split a line into words, honouring single and double quotes
+ *
+ * Quotes are kept in the word so that `name="a b"` still parses as JSON.
+ */
+function tokenize(line: string): string[] {
+  const words: string[] = [];
+  let word = '';
+  let quote: string | undefined;
+
+  for (const char of line.trim()) {
+    if (quote) {
+      word += char;
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      word += char;
+      quote = char;
+    } else if (/\s/.test(char)) {
+      if (word) {
+        words.push(word);
+      }
+      word = '';
+    } else {
+      word += char;
+    }
+  }
+
+  if (quote) {
+    throw new ValidationError(`Unbalanced ${quote} in command`);
+  }
+  if (word) {
+    words.push(word);
+  }
+  return words;
+}
+
+function parseValue(raw: string): unknown {
+  if (raw.length >= 2 && raw.startsWith("'") && raw.endsWith("'")) {
+    return raw.slice(1, -1);
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function describeProperties(schema: JSONSchema | undefined): string[] {
+  const properties = Object.entries(schema?.properties ?? {});
+  if (properties.length === 0) {
+    return [schema ? `  ${schemaType(schema)}` : '  (no schema)'];
+  }
+
+  const required = new Set(schema?.required ?? []);
+  const width = Math.max(...properties.map(([name]) => name.length));
+  return properties.map(([name, property]) =>
+    `  ${name.padEnd(width)}  ${schemaType(property)}${required.has(name) ? ' (required)' : ''}` +
+    `${property.description ? `  ${property.description}` : ''}`
+  );
+}
+
+function schemaType(schema: JSONSchema): string {
+  if (schema.enum) {
+    return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  }
+  if (schema.type === 'array') {
+    return `${schema.items ? schemaType(schema.items) : 'any'}[]`;
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.join(' | ');
+  }
+  return schema.type ?? 'any';
+}
+
+function cell(value: unknown): string {
+  const text = value === undefined
+    ? ''
+    : typeof value === 'string' ? value.replace(/\s+/g, ' ') : JSON.stringify(value) ?? String(value);
+  return text.length > 40 ? `${text.slice(0, 39)}…` : text;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,108 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from './PlanRegistry.js';
+import { createTestRegistry } from './test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('retries and circuit breakers', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  class FlakyPlan {
+    calls = 0;
+
+    constructor(private failures: number, private code?: string) {}
+
+    async call() {
+      this.calls++;
+      if (this.calls <= this.failures) {
+        throw Object.assign(new Error('connection reset'), this.code ? { code: this.code } : {});
+      }
+      return 'ok';
+    }
+  }
+
+  it('should retry retryable errors with backoff', async () => {
+    const plan = new FlakyPlan(2, 'CONNECTION_FAILED');
+    registry.register({
+      domain: 'sync',
+      method: 'call',
+      plan,
+      version: '1.0.0',
+      retry: { maxAttempts: 3, backoff: { initial: 1, jitter: false } }
+    });
+
+    expect(await registry.invoke('sync:call', {})).toBe('ok');
+    expect(plan.calls).toBe(3);
+    expect(registry.getMetrics('sync:call')).toMatchObject({ retries: 2, successCount: 1 });
+  });
+
+  it('should not retry other error codes', async () => {
+    const plan = new FlakyPlan(1, 'VALIDATION_ERROR');
+    registry.register({
+      domain: 'sync',
+      method: 'call',
+      plan,
+      version: '1.0.0',
+      retry: { maxAttempts: 3, backoff: { initial: 1 } }
+    });
+
+    await expect(registry.invoke('sync:call', {})).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(plan.calls).toBe(1);
+  });
+
+  it('should retry internal errors only when opted in', async () => {
+    const plan = new FlakyPlan(1);
+    registry.register({
+      domain: 'sync',
+      method: 'call',
+      plan,
+      version: '1.0.0',
+      retry: { maxAttempts: 3, backoff: { initial: 1 } }
+    });
+
+    await expect(registry.invoke('sync:call', {})).rejects.toThrow('connection reset');
+    expect(plan.calls).toBe(1);
+
+    const optedIn = new FlakyPlan(1);
+    registry.register({
+      domain: 'sync',
+      method: 'retried',
+      plan: { retried: () => optedIn.call() },
+      version: '1.0.0',
+      retry: { maxAttempts: 3, backoff: { initial: 1 }, retryOn: ['INTERNAL_ERROR'] }
+    });
+
+    expect(await registry.invoke('sync:retried', {})).toBe('ok');
+    expect(optedIn.calls).toBe(2);
+  });
+
+  it('should open the circuit after consecutive failures and close after a probe', async () => {
+    const plan = new FlakyPlan(2, 'CONNECTION_FAILED');
+    registry.register({
+      domain: 'sync',
+      method: 'call',
+      plan,
+      version: '1.0.0',
+      circuitBreaker: { failureThreshold: 2, resetTimeout: 20 }
+    });
+    expect(registry.describe('sync:call')?.circuit).toEqual({ state: 'closed', consecutiveFailures: 0 });
+
+    await expect(registry.invoke('sync:call', {})).rejects.toThrow('connection reset');
+    await expect(registry.invoke('sync:call', {})).rejects.toThrow('connection reset');
+    await expect(registry.invoke('sync:call', {})).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+    expect(plan.calls).toBe(2);
+    expect(registry.getMetrics('sync:call')).toMatchObject({
+      circuit: { state: 'open', consecutiveFailures: 2 }
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 25));
+    expect(registry.describe('sync:call')?.circuit?.state).toBe('half-open');
+    expect(await registry.invoke('sync:call', {})).toBe('ok');
+    expect(registry.describe('sync:call')?.circuit).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Resilience - per-operation retry and circuit-breaker policies
+ *
+ * Plans that call out over the network (ConnectionsModel, CHUM) fail
+ * transiently. Instead of every caller retrying on its own, operations
+ * declare policies in their PlanMetadata:
+ *
+ * ```typescript
+ * registry.register({
+ *   domain: 'sync', method: 'pull', plan, version: '1.0.0',
+ *   retry: { maxAttempts: 3, backoff: { initial: 100, max: 2000 }, retryOn: ['INTERNAL_ERROR'] },
+ *   circuitBreaker: { failureThreshold: 5, resetTimeout: 30000 }
+ * });
+ * ```
+ *
+ * Retries wrap the circuit breaker, so every attempt counts against it and
+ * an open circuit ends the retries. Both only see errors thrown before a
+ * result is returned: a stream that fails mid-way is not retried.
+ *
+ * Errors are classified by their `code`; errors without a code (plain
+ * exceptions from plans) count as INTERNAL_ERROR. By default only
+ * CONNECTION_FAILED and TIMEOUT are transient: bugs are not retried unless
+ * an operation opts in to INTERNAL_ERROR.
+ */
+
+import type { PlanInterceptor } from './interceptors.js';
+import { CircuitOpenError } from './errors.js';
+import { InterceptorPriority } from './interceptors.js';
+import { abortError } from './cancellation.js';
+
+/**
+ * Error codes treated as transient by default
+ */
+export const TRANSIENT_ERROR_CODES = ['CONNECTION_FAILED', 'TIMEOUT'];
+
+/**
+ * Exponential backoff between retry attempts
+ */
+export interface BackoffPolicy {
+  /**
+   * Delay before the first retry (ms, default: 100)
+   */
+  initial?: number;
+
+  /**
+   * Factor applied to the delay after each retry (default: 2)
+   */
+  multiplier?: number;
+
+  /**
+   * Upper bound for the delay (ms, default: 5000)
+   */
+  max?: number;
+
+  /**
+   * Randomize each delay between half and the full value (default: true)
+   */
+  jitter?: boolean;
+}
+
+/**
+ * Retry policy of an operation
+ */
+export interface RetryPolicy {
+  /**
+   * Total attempts including the first one
+   */
+  maxAttempts: number;
+
+  /**
+   * Delay between attempts
+   */
+  backoff?: BackoffPolicy;
+
+  /**
+   * Error codes that are retried (default: TRANSIENT_ERROR_CODES)
+   */
+  retryOn?: string[];
+}
+
+/**
+ * Circuit breaker policy of an operation
+ */
+export interface CircuitBreakerPolicy {
+  /**
+   * Consecutive failures that open the circuit
+   */
+  failureThreshold: number;
+
+  /**
+   * How long the circuit stays open before a probe is let through (ms)
+   */
+  resetTimeout: number;
+
+  /**
+   * Error codes counted as failures (default: TRANSIENT_ERROR_CODES)
+   *
+   * Other errors mean the dependency answered and count as success.
+   */
+  failOn?: string[];
+}
+
+/**
+ * Circuit state
+ *
+ * - closed: invocations pass, consecutive failures are counted
+ * - open: invocations fail fast with CIRCUIT_OPEN
+ * - half-open: one probe invocation decides whether to close or reopen
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker state as reported by getMetrics() and introspection
+ */
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+
+  /**
+   * When the circuit last opened (Unix ms)
+   */
+  openedAt?: number;
+
+  /**
+   * When the next probe is let through (Unix ms, only while open)
+   */
+  retryAt?: number;
+}
+
+/**
+ * Get the error code used to classify an error
+ */
+export function errorCode(error: unknown): string {
+  const code = (error as any)?.code;
+  return typeof code === 'string' ? code : 'INTERNAL_ERROR';
+}
+
+/**
+ * Delay before a retry
+ *
+ * @param retry - Retry number (1 for the first retry)
+ */
+export function backoffDelay(backoff: BackoffPolicy = {}, retry: number): number {
+  const initial = backoff.initial ?? 100;
+  const delay = Math.min(
+    backoff.max ?? 5000,
+    initial * Math.pow(backoff.multiplier ?? 2, retry - 1)
+  );
+  return backoff.jitter === false ? delay : delay * (0.5 + Math.random() / 2);
+}
+
+/**
+ * Circuit breaker of one operation
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt?: number;
+  private probing = false;
+
+  constructor(readonly policy: CircuitBreakerPolicy) {}
+
+  /**
+   * Admit an invocation
+   *
+   * @throws CircuitOpenError while open, or while a half-open probe is running
+   */
+  acquire(operation: string, now = Date.now()): void {
+    if (this.state === 'open' && now >= this.retryAt!) {
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'open' || (this.state === 'half-open' && this.probing)) {
+      const retryAt = this.retryAt ?? now;
+      throw new CircuitOpenError(operation, Math.max(1, Math.ceil((retryAt - now) / 1000)));
+    }
+
+    if (this.state === 'half-open') {
+      this.probing = true;
+    }
+  }
+
+  /**
+   * Record the outcome of an admitted invocation
+   */
+  record(error?: unknown, now = Date.now()): void {
+    this.probing = false;
+
+    const failOn = this.policy.failOn ?? TRANSIENT_ERROR_CODES;
+    if (error === undefined || !failOn.includes(errorCode(error))) {
+      this.state = 'closed';
+      this.failures = 0;
+      return;
+    }
+
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.policy.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  snapshot(now = Date.now()): CircuitSnapshot {
+    const state = this.state === 'open' && now >= this.retryAt! ? 'half-open' : this.state;
+    return {
+      state,
+      consecutiveFailures: this.failures,
+      openedAt: this.openedAt,
+      retryAt: state === 'open' ? this.retryAt : undefined
+    };
+  }
+
+  private get retryAt(): number | undefined {
+    return this.openedAt === undefined ? undefined : this.openedAt + this.policy.resetTimeout;
+  }
+}
+
+/**
+ * Circuit breakers by operation
+ *
+ * Breakers are created on first use; all versions of an operation share
+ * one breaker.
+ */
+export class CircuitBreakers {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  /**
+   * Get the breaker of an operation, creating it with the given policy
+   */
+  get(operation: string, policy: CircuitBreakerPolicy): CircuitBreaker {
+    let breaker = this.breakers.get(operation);
+    if (!breaker) {
+      breaker = new CircuitBreaker(policy);
+      this.breakers.set(operation, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Current state of an operation's breaker (undefined if never used)
+   */
+  snapshot(operation: string, now = Date.now()): CircuitSnapshot | undefined {
+    return this.breakers.get(operation)?.snapshot(now);
+  }
+
+  /**
+   * Forget a breaker (it starts closed on next use)
+   */
+  delete(operation: string): void {
+    this.breakers.delete(operation);
+  }
+}
+
+/**
+ * Built-in retry handling for operations with a `retry` policy
+ *
+ * Waits between attempts with exponential backoff; stops early when the
+ * context's signal fires.
+ *
+ * @param onRetry - Called before every retry (e.g. for metrics)
+ */
+export function createRetryInterceptor(
+  onRetry?: (operation: string, attempt: number, error: unknown) => void
+): PlanInterceptor {
+  return {
+    name: 'retry',
+    priority: InterceptorPriority.RETRY,
+    async around({ operation, metadata, context }, next) {
+      const policy = metadata.retry;
+      if (!policy) {
+        return next();
+      }
+
+      const retryOn = policy.retryOn ?? TRANSIENT_ERROR_CODES;
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await next();
+        } catch (error) {
+          if (attempt >= policy.maxAttempts || !retryOn.includes(errorCode(error))) {
+            throw error;
+          }
+
+          onRetry?.(operation, attempt + 1, error);
+          await sleep(backoffDelay(policy.backoff, attempt), context?.signal, operation);
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Built-in circuit breaking for operations with a `circuitBreaker` policy
+ */
+export function createCircuitBreakerInterceptor(breakers: CircuitBreakers): PlanInterceptor {
+  return {
+    name: 'circuitBreaker',
+    priority: InterceptorPriority.CIRCUIT_BREAKER,
+    async around({ operation, metadata }, next) {
+      const policy = metadata.circuitBreaker;
+      if (!policy) {
+        return next();
+      }
+
+      const breaker = breakers.get(operation, policy);
+      breaker.acquire(operation);
+
+      try {
+        const result = await next();
+        breaker.record();
+        return result;
+      } catch (error) {
+        breaker.record(error);
+        throw error;
+      }
+    }
+  };
+}
+
+/**
+ * Wait, or reject as soon as the signal fires
+ */
+function sleep(ms: number, signal: AbortSignal | undefined, operation: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal, operation));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!, operation));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,22 +1,66 @@
 import http from 'http';
 import { ConnectionHandler } from '../handlers/ConnectionHandler.js';
+import { RateLimiter } from '../ratelimit.js';
+import { PlanError, RateLimitedError, ValidationError, toPlanError } from '../errors.js';
+import { error as errorResponse, problemDetails, PROBLEM_CONTENT_TYPE } from '../types/responses.js';
 import type LeuteModel from '@refinio/one.models/lib/models/Leute/LeuteModel.js';
+import type { ServerConfig } from '../config.js';
+
+/**
+ * Operation names of the REST routes, used to match rate limit rules
+ */
+const ROUTE_OPERATIONS: Record<string, string> = {
+  'POST /api/connections/create-invite': 'connections:createInvite',
+  'POST /api/connections/invite': 'connections:connectWithInvite',
+  'GET /api/connections/status': 'connections:getConnectionStatus',
+  'GET /api/connections': 'connections:listConnections',
+  'GET /api/contacts': 'contacts:list'
+};
 
 /**
  * HTTP REST API Server for refinio.api
  * Provides REST endpoints for connection management, contacts, etc.
  * Later will be wrapped with QUICVC for secure transport
+ *
+ * Requests carry no identity, so an optional rate limiter attributes them
+ * to the client address (as both user and session).
+ *
+ * Errors are answered with RFC 7807 problem details.
  */
 export class HttpRestServer {
   private server: http.Server | null = null;
   private connectionHandler: ConnectionHandler;
   private leuteModel: LeuteModel;
   private port: number;
+  private rateLimiter?: RateLimiter;
 
-  constructor(connectionHandler: ConnectionHandler, leuteModel: LeuteModel, port: number) {
+  constructor(
+    connectionHandler: ConnectionHandler,
+    leuteModel: LeuteModel,
+    port: number,
+    rateLimiter?: RateLimiter
+  ) {
     this.connectionHandler = connectionHandler;
     this.leuteModel = leuteModel;
     this.port = port;
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Create a server on the configured port, limited by `config.rateLimits`
+   */
+  static fromConfig(
+    connectionHandler: ConnectionHandler,
+    leuteModel: LeuteModel,
+    config: ServerConfig
+  ): HttpRestServer {
+    const rateLimiter = config.rateLimits && new RateLimiter(config.rateLimits);
+    return new HttpRestServer(
+      connectionHandler,
+      leuteModel,
+      config.server.port,
+      rateLimiter?.enabled ? rateLimiter : undefined
+    );
   }
 
   async start(): Promise<void> {
@@ -35,10 +79,9 @@ export class HttpRestServer {
 
         try {
           await this.handleRequest(req, res);
-        } catch (error: any) {
+        } catch (error) {
           console.error('Request handling error:', error);
-          res.writeHead(500, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: error.message }));
+          this.sendError(req, res, error);
         }
       });
 
@@ -68,6 +111,10 @@ export class HttpRestServer {
 
     console.log(`${method} ${url}`);
 
+    if (!this.checkRateLimit(req, res, ROUTE_OPERATIONS[`${method} ${url}`])) {
+      return;
+    }
+
     // Health check
     if (url === '/health') {
       res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -81,13 +128,8 @@ export class HttpRestServer {
 
       const result = await this.connectionHandler.createInvite();
 
-      if (result.success && result.inviteUrl) {
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ inviteUrl: result.inviteUrl }));
-      } else {
-        res.writeHead(500, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: result.error || 'Failed to create invite' }));
-      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ inviteUrl: result.inviteUrl }));
       return;
     }
 
@@ -96,7 +138,7 @@ export class HttpRestServer {
       console.log('[HttpRestServer] Received POST /api/connections/invite');
       const body = await this.readBody(req);
       console.log('[HttpRestServer] Request body:', body);
-      const data = JSON.parse(body);
+      const data = this.parseJson(body);
       console.log('[HttpRestServer] Parsed JSON:', JSON.stringify(data, null, 2));
 
       // Parse invitation from URL or direct data
@@ -110,27 +152,20 @@ export class HttpRestServer {
         inviteData = data.invitation;
         console.log('[HttpRestServer] Using direct invitation data:', JSON.stringify(inviteData, null, 2));
       } else {
-        res.writeHead(400, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Missing inviteUrl or invitation' }));
-        return;
+        throw new ValidationError('Missing inviteUrl or invitation');
       }
 
       console.log('[HttpRestServer] Calling connectionHandler.connectWithInvite...');
       const result = await this.connectionHandler.connectWithInvite(inviteData);
       console.log('[HttpRestServer] Result:', JSON.stringify(result, null, 2));
 
-      if (result.success && result.connectionInfo) {
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({
-          personId: result.connectionInfo.personId,
-          instanceId: result.connectionInfo.remoteInstanceId,
-          connectionId: result.connectionInfo.remoteInstanceId,
-          contactCreated: result.connectionInfo.contactCreated
-        }));
-      } else {
-        res.writeHead(500, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: result.error || 'Connection failed' }));
-      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        personId: result.connectionInfo.personId,
+        instanceId: result.connectionInfo.remoteInstanceId,
+        connectionId: result.connectionInfo.remoteInstanceId,
+        contactCreated: result.connectionInfo.contactCreated
+      }));
       return;
     }
 
@@ -148,7 +183,7 @@ export class HttpRestServer {
       const result = await this.connectionHandler.listConnections();
 
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify(result.connections || []));
+      res.end(JSON.stringify(result.connections));
       return;
     }
 
@@ -166,8 +201,62 @@ export class HttpRestServer {
     }
 
     // 404 for unknown routes
-    res.writeHead(404, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: 'Not found' }));
+    this.sendError(req, res, new PlanError(`No route for ${method} ${url}`, 'NOT_FOUND'));
+  }
+
+  /**
+   * Apply the rate limiter to a route
+   *
+   * @returns false if the request was rejected (429 already sent)
+   */
+  private checkRateLimit(req: http.IncomingMessage, res: http.ServerResponse, operation?: string): boolean {
+    if (!this.rateLimiter || !operation) {
+      return true;
+    }
+
+    const client = req.socket.remoteAddress || 'unknown';
+    try {
+      this.rateLimiter.consume(operation, { userId: client, sessionId: client });
+      return true;
+    } catch (error) {
+      if (!(error instanceof RateLimitedError)) {
+        throw error;
+      }
+      this.sendError(req, res, error);
+      return false;
+    }
+  }
+
+  /**
+   * Send an error as RFC 7807 problem details
+   */
+  private sendError(req: http.IncomingMessage, res: http.ServerResponse, error: unknown): void {
+    const planError = toPlanError(error);
+    const problem = problemDetails(
+      errorResponse(planError.code, planError.message, planError.details),
+      req.url
+    );
+
+    const headers: Record<string, string> = { 'Content-Type': PROBLEM_CONTENT_TYPE };
+    if (typeof planError.details?.retryAfter === 'number') {
+      headers['Retry-After'] = String(planError.details.retryAfter);
+    }
+
+    res.writeHead(problem.status, headers);
+    res.end(JSON.stringify(problem));
+  }
+
+  /**
+   * Parse a JSON request body
+   *
+   * @throws ValidationError if the body is not valid JSON
+   */
+  private parseJson(body: string): any {
+    try {
+      return JSON.parse(body);
+    } catch (error) {
+      throw new ValidationError('Request body is not valid JSON', { reason: (error as Error).message });
+    }
   }
 
   private readBody(req: http.IncomingMessage): Promise<string> {
@@ -1,7 +1,8 @@
 import { EventEmitter } from 'events';
 import crypto from 'crypto';
 import { CredentialManager } from '../auth/CredentialManager.js';
-import { MessageType, Message, ErrorCode } from '../types.js';
+import { MessageType, Message } from '../types.js';
+import { ValidationError, UnauthorizedError, InternalError, toPlanError, errorMapping } from '../errors.js';
 
 export interface QuicServerOptions {
   port: number;
@@ -74,7 +75,7 @@ export class QuicServer extends EventEmitter {
         break;
         
       default:
-        await this.sendError(rinfo, message.id, ErrorCode.VALIDATION_ERROR, 'Unknown message type');
+        await this.sendError(rinfo, message.id, new ValidationError('Unknown message type'));
     }
   }
 
@@ -94,7 +95,7 @@ export class QuicServer extends EventEmitter {
       // Store challenge for verification
       this.sessions.set(clientId, { challenge, state: 'challenging' });
     } catch (error) {
-      await this.sendError(rinfo, message.id, ErrorCode.INTERNAL_ERROR, 'Authentication failed');
+      await this.sendError(rinfo, message.id, new InternalError('Authentication failed', error as Error));
     }
   }
 
@@ -102,7 +103,7 @@ export class QuicServer extends EventEmitter {
     const session = this.sessions.get(clientId);
     
     if (!session || !session.authenticated) {
-      await this.sendError(rinfo, message.id, ErrorCode.UNAUTHORIZED, 'Not authenticated');
+      await this.sendError(rinfo, message.id, new UnauthorizedError('Not authenticated'));
       return;
     }
     
@@ -151,7 +152,7 @@ export class QuicServer extends EventEmitter {
           break;
       }
     } catch (error: any) {
-      await this.sendError(rinfo, message.id, ErrorCode.INTERNAL_ERROR, error.message);
+      await this.sendError(rinfo, message.id, error);
     }
   }
 
@@ -159,7 +160,7 @@ export class QuicServer extends EventEmitter {
     const session = this.sessions.get(clientId);
     
     if (!session || !session.authenticated) {
-      await this.sendError(rinfo, message.id, ErrorCode.UNAUTHORIZED, 'Not authenticated');
+      await this.sendError(rinfo, message.id, new UnauthorizedError('Not authenticated'));
       return;
     }
     
@@ -172,7 +173,7 @@ export class QuicServer extends EventEmitter {
         payload: result
       });
     } catch (error: any) {
-      await this.sendError(rinfo, message.id, ErrorCode.INTERNAL_ERROR, error.message);
+      await this.sendError(rinfo, message.id, error);
     }
   }
 
@@ -180,7 +181,7 @@ export class QuicServer extends EventEmitter {
     const session = this.sessions.get(clientId);
     
     if (!session || !session.authenticated) {
-      await this.sendError(rinfo, message.id, ErrorCode.UNAUTHORIZED, 'Not authenticated');
+      await this.sendError(rinfo, message.id, new UnauthorizedError('Not authenticated'));
       return;
     }
     
@@ -204,15 +205,21 @@ export class QuicServer extends EventEmitter {
     this.server.send(buffer, rinfo.port, rinfo.address);
   }
 
-  private async sendError(rinfo: any, id: string, code: ErrorCode, message: string) {
+  /**
+   * Send an error (see ErrorResponse)
+   */
+  private async sendError(rinfo: any, id: string, error: unknown) {
+    const planError = toPlanError(error);
     await this.sendMessage(rinfo, {
       id,
       type: 'error' as any,
       timestamp: Date.now(),
       payload: {
         error: {
-          code,
-          message
+          code: planError.code,
+          status: errorMapping(planError.code).status,
+          message: planError.message,
+          details: planError.details
         }
       }
     });
@@ -6,7 +6,8 @@ import { ObjectHandler } from '../handlers/ObjectHandler.js';
 import { RecipeHandler } from '../handlers/RecipeHandler.js';
 import { ProfileHandler } from '../handlers/ProfileHandler.js';
 import { ConnectionHandler } from '../handlers/ConnectionHandler.js';
-import { MessageType, Message, ErrorCode } from '../types.js';
+import { MessageType, Message } from '../types.js';
+import { ValidationError, UnauthorizedError, toPlanError, errorMapping } from '../errors.js';
 import crypto from 'crypto';
 
 export interface QuicVCServerOptions {
@@ -159,7 +160,7 @@ export class QuicVCServer extends EventEmitter {
         break;
 
       default:
-        await this.sendError(connection, message.id, ErrorCode.VALIDATION_ERROR, 'Unknown message type');
+        await this.sendError(connection, message.id, new ValidationError('Unknown message type'));
     }
   }
 
@@ -187,7 +188,7 @@ export class QuicVCServer extends EventEmitter {
             }
           });
         } else {
-          await this.sendError(connection, message.id, ErrorCode.UNAUTHORIZED, 'Invalid credentials');
+          await this.sendError(connection, message.id, new UnauthorizedError('Invalid credentials'));
         }
       } else {
         // Generate and send challenge
@@ -203,13 +204,13 @@ export class QuicVCServer extends EventEmitter {
         });
       }
     } catch (error: any) {
-      await this.sendError(connection, message.id, ErrorCode.INTERNAL_ERROR, error.message);
+      await this.sendError(connection, message.id, error);
     }
   }
 
   private async handleCrudOperation(message: Message, session: ClientSession, connection: any) {
     if (!session.authenticated || !session.authSession) {
-      await this.sendError(connection, message.id, ErrorCode.UNAUTHORIZED, 'Not authenticated');
+      await this.sendError(connection, message.id, new UnauthorizedError('Not authenticated'));
       return;
     }
 
@@ -260,13 +261,13 @@ export class QuicVCServer extends EventEmitter {
           break;
       }
     } catch (error: any) {
-      await this.sendError(connection, message.id, error.code || ErrorCode.INTERNAL_ERROR, error.message);
+      await this.sendError(connection, message.id, error);
     }
   }
 
   private async handleRecipeOperation(message: Message, session: ClientSession, connection: any) {
     if (!session.authenticated || !session.authSession) {
-      await this.sendError(connection, message.id, ErrorCode.UNAUTHORIZED, 'Not authenticated');
+      await this.sendError(connection, message.id, new UnauthorizedError('Not authenticated'));
       return;
     }
 
@@ -296,13 +297,13 @@ export class QuicVCServer extends EventEmitter {
         payload: result
       });
     } catch (error: any) {
-      await this.sendError(connection, message.id, error.code || ErrorCode.INTERNAL_ERROR, error.message);
+      await this.sendError(connection, message.id, error);
     }
   }
 
   private async handleContactsOperation(message: Message, session: ClientSession, connection: any) {
     if (!session.authenticated || !session.authSession) {
-      await this.sendError(connection, message.id, ErrorCode.UNAUTHORIZED, 'Not authenticated');
+      await this.sendError(connection, message.id, new UnauthorizedError('Not authenticated'));
       return;
     }
 
@@ -318,13 +319,13 @@ export class QuicVCServer extends EventEmitter {
         payload: result
       });
     } catch (error: any) {
-      await this.sendError(connection, message.id, error.code || ErrorCode.INTERNAL_ERROR, error.message);
+      await this.sendError(connection, message.id, error);
     }
   }
 
   private async handleStreamSubscribe(message: Message, session: ClientSession, connection: any) {
     if (!session.authenticated) {
-      await this.sendError(connection, message.id, ErrorCode.UNAUTHORIZED, 'Not authenticated');
+      await this.sendError(connection, message.id, new UnauthorizedError('Not authenticated'));
       return;
     }
 
@@ -358,15 +359,21 @@ export class QuicVCServer extends EventEmitter {
     }
   }
 
-  private async sendError(connection: any, messageId: string, code: ErrorCode, message: string) {
+  /**
+   * Send an error (see ErrorResponse)
+   */
+  private async sendError(connection: any, messageId: string, error: unknown) {
+    const planError = toPlanError(error);
     await this.sendMessage(connection, {
       id: messageId,
       type: 'error' as any,
       timestamp: Date.now(),
       payload: {
         error: {
-          code,
-          message
+          code: planError.code,
+          status: errorMapping(planError.code).status,
+          message: planError.message,
+          details: planError.details
         }
       }
     });
@@ -0,0 +1,46 @@
+// Note: Using regular imports for Jest compatibility
+import { startApiServer } from './startApiServer.js';
+import { EchoPlan, authWith, freePort } from '../test-helpers.js';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect } = global as any;
+
+describe('startApiServer', () => {
+  it('should rate limit plan requests as configured in the config file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'refinio-api-'));
+    const configPath = path.join(dir, 'refinio-api.config.json');
+    await fs.writeFile(configPath, JSON.stringify({
+      server: { host: 'localhost', port: 0, planPort: await freePort() },
+      rateLimits: {
+        limits: [{ operation: 'test:*', per: 'user', capacity: 1, refillPerSecond: 0.001 }]
+      }
+    }));
+
+    const server = await startApiServer({
+      configPath,
+      validateAuthToken: async token => token === 'secret' ? authWith(['*']) : null
+    });
+    server.registry.register({ domain: 'test', method: 'echo', plan: new EchoPlan(), version: '1.0.0' });
+
+    const echo = () => fetch(`http://localhost:${server.config.server.planPort}/api/operations/test:echo`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret' },
+      body: '{}'
+    });
+
+    try {
+      expect((await echo()).status).toBe(200);
+
+      const limited = await echo();
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get('retry-after')).toBeTruthy();
+      expect(await limited.json()).toMatchObject({ code: 'RATE_LIMITED' });
+    } finally {
+      await server.stop();
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * API Server startup
+ *
+ * Loads the server config and starts the servers it describes:
+ * - the PlanRegistry, served by the HTTP transport on `server.planPort`
+ * - the connections REST API (HttpRestServer) on `server.port`, if the
+ *   ONE models backing it are passed in
+ *
+ * Both apply `config.rateLimits`.
+ *
+ * Usage:
+ * ```typescript
+ * const { registry } = await startApiServer({ validateAuthToken });
+ * registry.register({ domain: 'chat', method: 'send', plan: chatPlan, version: '1.0.0' });
+ * ```
+ */
+
+import { loadConfig, planRegistryConfig } from '../config.js';
+import type { ServerConfig } from '../config.js';
+import { PlanRegistry } from '../PlanRegistry.js';
+import { HTTPTransportPlan } from '../transports/HTTPTransportPlan.js';
+import { HttpRestServer } from './HttpRestServer.js';
+import type { ConnectionHandler } from '../handlers/ConnectionHandler.js';
+import type { AuthContext } from '../types/context.js';
+import type LeuteModel from '@refinio/one.models/lib/models/Leute/LeuteModel.js';
+
+export interface ApiServerOptions {
+  /** Config file to read instead of the default locations */
+  configPath?: string;
+
+  /** Validates bearer tokens of plan transport requests */
+  validateAuthToken?: (token: string) => Promise<AuthContext | null>;
+
+  /** ONE models backing the connections REST API (not served if omitted) */
+  one?: {
+    connectionHandler: ConnectionHandler;
+    leuteModel: LeuteModel;
+  };
+}
+
+export interface ApiServer {
+  config: ServerConfig;
+  registry: PlanRegistry;
+  transport: HTTPTransportPlan;
+  restServer?: HttpRestServer;
+  stop(): Promise<void>;
+}
+
+/**
+ * Start the API servers from the loaded config
+ */
+export async function startApiServer(options: ApiServerOptions = {}): Promise<ApiServer> {
+  const config = await loadConfig(options.configPath);
+  const registry = new PlanRegistry(planRegistryConfig(config));
+
+  const transport = new HTTPTransportPlan(registry);
+  await transport.start({
+    host: config.server.host,
+    port: config.server.planPort ?? config.server.port + 1,
+    validateAuthToken: options.validateAuthToken
+  });
+
+  let restServer: HttpRestServer | undefined;
+  if (options.one) {
+    restServer = HttpRestServer.fromConfig(options.one.connectionHandler, options.one.leuteModel, config);
+    try {
+      await restServer.start();
+    } catch (error) {
+      await transport.stop();
+      throw error;
+    }
+  }
+
+  return {
+    config,
+    registry,
+    transport,
+    restServer,
+    async stop() {
+      await restServer?.stop();
+      await transport.stop();
+    }
+  };
+}
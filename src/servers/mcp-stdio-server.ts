@@ -16,16 +16,30 @@
  *       }
  *     }
  *   }
+ *
+ * Pass resource sources to let assistants read ONE objects, recipes and
+ * channels as context (see createOneResourceSources in
+ * registry/one-mcp-resources.ts). The server runs as the local user, so
+ * like tools, resources are served without capability checks.
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
-  ListToolsRequestSchema
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
 import type { HandlerRegistry } from '../registry/HandlerRegistry.js';
 import { McpTransport } from '../transports/McpTransport.js';
+import { matchUriTemplate, toResourceContents } from '../mcp.js';
+import type { McpResourceSource } from '../mcp.js';
+import { NotFoundError, ValidationError, errorMapping, toPlanError } from '../errors.js';
 
 /**
  * MCP Stdio Server
@@ -35,10 +49,12 @@ import { McpTransport } from '../transports/McpTransport.js';
 export class McpStdioServer {
   private server: Server;
   private mcpTransport: McpTransport;
+  private subscriptions = new Map<string, () => void>();
 
   constructor(
     private registry: HandlerRegistry,
-    private serverInfo: { name: string; version: string }
+    private serverInfo: { name: string; version: string },
+    private resources: McpResourceSource[] = []
   ) {
     this.mcpTransport = new McpTransport(registry);
     this.server = new Server(
@@ -48,7 +64,8 @@ export class McpStdioServer {
       },
       {
         capabilities: {
-          tools: {}
+          tools: {},
+          ...(resources.length > 0 && { resources: { subscribe: true, listChanged: false } })
         }
       }
     );
@@ -72,6 +89,87 @@ export class McpStdioServer {
       const result = await this.mcpTransport.executeTool(name, args || {});
       return result;
     });
+
+    if (this.resources.length > 0) {
+      this.setupResourceHandlers();
+    }
+  }
+
+  /**
+   * Setup MCP resource handlers
+   */
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this.resources.map(source => source.template)
+    }));
+
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const lists = await Promise.all(this.resources.map(source => source.list?.() ?? []));
+      return { resources: lists.flat() };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async request => {
+      const { uri } = request.params;
+      return this.withMcpErrors(async () => {
+        const { source, params } = this.resolveResource(uri);
+        return { contents: toResourceContents(uri, await source.read(params), source.template.mimeType) };
+      });
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async request => {
+      const { uri } = request.params;
+      return this.withMcpErrors(async () => {
+        const { source, params } = this.resolveResource(uri);
+        if (!source.watch) {
+          throw new ValidationError(`Resource does not support subscriptions: ${uri}`, { uri });
+        }
+        if (!this.subscriptions.has(uri)) {
+          this.subscriptions.set(uri, source.watch(params, () => {
+            this.server.sendResourceUpdated({ uri }).catch(error => {
+              console.error(`Failed to notify resource update: ${uri}`, error);
+            });
+          }));
+        }
+        return {};
+      });
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+      const { uri } = request.params;
+      this.subscriptions.get(uri)?.();
+      this.subscriptions.delete(uri);
+      return {};
+    });
+  }
+
+  /**
+   * Find the source serving a URI (first matching template)
+   *
+   * @throws NotFoundError if no source serves the URI
+   */
+  private resolveResource(uri: string): { source: McpResourceSource; params: Record<string, string> } {
+    for (const source of this.resources) {
+      const params = matchUriTemplate(source.template.uriTemplate, uri);
+      if (params) {
+        return { source, params };
+      }
+    }
+    throw new NotFoundError('Resource', uri);
+  }
+
+  /**
+   * Rethrow errors as MCP protocol errors carrying the PlanError code
+   */
+  private async withMcpErrors<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (err) {
+      const error = toPlanError(err);
+      throw new McpError(errorMapping(error.code).jsonRpc, error.message, {
+        code: error.code,
+        ...(error.details !== undefined && { details: error.details })
+      });
+    }
   }
 
   /**
@@ -84,12 +182,15 @@ export class McpStdioServer {
     // Log to stderr (stdout is used for MCP protocol)
     console.error(`MCP Server started: ${this.serverInfo.name} v${this.serverInfo.version}`);
     console.error(`Tools available: ${this.mcpTransport.getTools().length}`);
+    console.error(`Resource templates available: ${this.resources.length}`);
   }
 
   /**
    * Stop the server
    */
   async stop() {
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions.clear();
     await this.server.close();
   }
 }
@@ -97,13 +198,15 @@ export class McpStdioServer {
 /**
  * Create and start MCP stdio server
  *
- * Call this from your initialization code with a configured registry
+ * Call this from your initialization code with a configured registry and,
+ * to serve ONE data as resources, `createOneResourceSources(...)`
  */
 export async function startMcpStdioServer(
   registry: HandlerRegistry,
-  serverInfo: { name: string; version: string }
+  serverInfo: { name: string; version: string },
+  resources: McpResourceSource[] = []
 ): Promise<McpStdioServer> {
-  const server = new McpStdioServer(registry, serverInfo);
+  const server = new McpStdioServer(registry, serverInfo, resources);
   await server.start();
   return server;
 }
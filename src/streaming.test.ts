@@ -0,0 +1,70 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from './PlanRegistry.js';
+import { createTestRegistry } from './test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('streaming', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  class CountPlan {
+    async *count(request: { to: number }) {
+      for (let i = 1; i <= request.to; i++) {
+        yield i;
+      }
+    }
+  }
+
+  beforeEach(() => {
+    registry.register({
+      domain: 'stream',
+      method: 'count',
+      plan: new CountPlan(),
+      version: '1.0.0',
+      streaming: true
+    });
+  });
+
+  it('should return an async iterator of chunks', async () => {
+    const stream = await registry.invoke<any, AsyncIterable<number>>('stream:count', { to: 3 });
+
+    const chunks: number[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([1, 2, 3]);
+  });
+
+  it('should record metrics when the stream ends', async () => {
+    const stream = await registry.invoke<any, AsyncIterable<number>>('stream:count', { to: 2 });
+    expect(registry.getMetrics('stream:count').count).toBe(0);
+
+    for await (const _chunk of stream) {
+      // drain
+    }
+
+    const metrics = registry.getMetrics('stream:count');
+    expect(metrics.count).toBe(1);
+    expect(metrics.successCount).toBe(1);
+    expect(metrics.streamCount).toBe(1);
+    expect(metrics.avgTimeToFirstChunk).toBeLessThanOrEqual(metrics.avgTime);
+  });
+
+  it('should record metrics when the consumer stops early', async () => {
+    const stream = await registry.invoke<any, AsyncIterable<number>>('stream:count', { to: 10 });
+
+    for await (const chunk of stream) {
+      if (chunk === 2) {
+        break;
+      }
+    }
+
+    expect(registry.getMetrics('stream:count').successCount).toBe(1);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Streaming helpers for operations that return AsyncIterableIterator
+ *
+ * Streaming plan methods return an AsyncIterableIterator instead of a
+ * single value. The registry passes the iterator through unchanged (apart
+ * from instrumentation) and each transport delivers its chunks using its
+ * own framing: SSE/NDJSON on HTTP, JSONL on stdio, webContents.send on IPC.
+ */
+
+/**
+ * Lifecycle hooks for an observed stream
+ */
+export interface StreamObserver {
+  /**
+   * Called once, when the first chunk is produced
+   */
+  onFirstChunk?(): void;
+
+  /**
+   * Called once, when the stream ends (exhausted, closed by the consumer,
+   * or failed). `error` is set if the producer threw.
+   */
+  onEnd?(error?: unknown): void;
+}
+
+/**
+ * Check if a value is an async iterable (streaming result)
+ */
+export function isAsyncIterable<T = unknown>(value: unknown): value is AsyncIterable<T> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as any)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+/**
+ * Wrap a stream to observe first chunk and completion
+ *
+ * The returned iterator yields the same chunks as the source. Closing it
+ * early (e.g. `break` in `for await`) closes the source as well.
+ */
+export function observeStream<T>(
+  source: AsyncIterable<T>,
+  observer: StreamObserver
+): AsyncIterableIterator<T> {
+  const iterator = source[Symbol.asyncIterator]();
+  let started = false;
+  let ended = false;
+
+  const end = (error?: unknown) => {
+    if (!ended) {
+      ended = true;
+      observer.onEnd?.(error);
+    }
+  };
+
+  return {
+    async next(): Promise<IteratorResult<T>> {
+      try {
+        const step = await iterator.next();
+        if (step.done) {
+          end();
+        } else if (!started) {
+          started = true;
+          observer.onFirstChunk?.();
+        }
+        return step;
+      } catch (error) {
+        end(error);
+        throw error;
+      }
+    },
+
+    async return(value?: any): Promise<IteratorResult<T>> {
+      try {
+        return iterator.return
+          ? await iterator.return(value)
+          : { done: true, value };
+      } finally {
+        end();
+      }
+    },
+
+    async throw(error?: unknown): Promise<IteratorResult<T>> {
+      end(error);
+      if (iterator.throw) {
+        return iterator.throw(error);
+      }
+      throw error;
+    },
+
+    [Symbol.asyncIterator]() {
+      return this;
+    }
+  };
+}
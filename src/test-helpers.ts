@@ -0,0 +1,62 @@
+/**
+ * Test Helpers
+ *
+ * Fixtures shared by the plan system tests.
+ */
+
+import { PlanRegistry } from './PlanRegistry.js';
+import { createAuthContext, createPlanContext } from './types/context.js';
+import type { AuthContext, PlanContext } from './types/context.js';
+import { createServer } from 'net';
+import type { AddressInfo } from 'net';
+
+/**
+ * Person ID hash of an AuthContext
+ */
+type PersonId = AuthContext['userId'];
+
+export class EchoPlan {
+  async echo(request: any) {
+    return { echoed: request };
+  }
+}
+
+/**
+ * Auth context of a test user
+ */
+export function authWith(capabilities: string[], userId = 'user', sessionId = 'session'): AuthContext {
+  return createAuthContext(userId as PersonId, sessionId, capabilities);
+}
+
+/**
+ * Plan context of a test user
+ */
+export function contextWith(capabilities: string[]): PlanContext {
+  return createPlanContext(authWith(capabilities), 'req-1');
+}
+
+/**
+ * Registry with `test:echo` (requires the capability 'test:echo')
+ */
+export function createTestRegistry(): PlanRegistry {
+  const registry = new PlanRegistry({ slowOperationThreshold: Infinity });
+  registry.register({
+    domain: 'test',
+    method: 'echo',
+    plan: new EchoPlan(),
+    version: '1.0.0',
+    requiredCapability: 'test:echo'
+  });
+  return registry;
+}
+
+/**
+ * Find a free local port
+ */
+export async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, 'localhost', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
@@ -0,0 +1,430 @@
+/**
+ * GrpcTransportPlan - gRPC transport implementation
+ *
+ * Serves the plan registry to gRPC clients over HTTP/2 (plaintext h2c, for
+ * local and loopback use; terminate TLS in front of it otherwise). Services
+ * are generated from registry introspection (see protobuf.ts): one service
+ * per domain, one rpc per operation, messages from the request/response
+ * schemas. Hand the output of `generateProto()` to protoc or any gRPC
+ * client library:
+ *
+ * ```typescript
+ * const transport = new GrpcTransportPlan(registry, { port: 50051 });
+ * await transport.start();
+ * await fs.writeFile('refinio.proto', transport.generateProto());
+ * ```
+ *
+ * Mapping:
+ * - Path: /<package>.<Domain>/<Method>, e.g. /refinio.api.Chat/ExportHistory
+ * - Streaming operations are server-streaming rpcs; each chunk is one
+ *   google.protobuf.Value message
+ * - Auth: `authorization: Bearer <token>` metadata
+ * - Version: `accept-version` metadata (default: latest). The generated
+ *   messages describe the latest version only.
+ * - Idempotency: `idempotency-key` metadata
+ * - `grpc-timeout` deadlines end the call with DEADLINE_EXCEEDED
+ * - Errors: catalog gRPC status in `grpc-status`, the message in
+ *   `grpc-message`, the PlanError code in `error-code` metadata
+ * - Client cancellation (stream reset) cancels the operation
+ *
+ * Compressed messages are not supported (UNIMPLEMENTED).
+ */
+
+import * as http2 from 'http2';
+import { TransportPlan } from '../TransportPlan.js';
+import type { TransportConfig } from '../TransportPlan.js';
+import type { PlanRegistry } from '../PlanRegistry.js';
+import type { AuthContext } from '../types/context.js';
+import type { ErrorResponse, StreamFrame } from '../types/responses.js';
+import {
+  NotImplementedError,
+  TimeoutError,
+  UnknownOperationError,
+  ValidationError,
+  errorMapping
+} from '../errors.js';
+import { isAsyncIterable } from '../streaming.js';
+import { decodeMessage, encodeMessage, generateProto, protoServices } from '../protobuf.js';
+import type { ProtoMethod } from '../protobuf.js';
+
+/**
+ * gRPC transport configuration
+ */
+export interface GrpcTransportConfig extends TransportConfig {
+  /**
+   * Port to listen on (default: 50051, 0 picks a free port)
+   */
+  port?: number;
+
+  /**
+   * Host to bind to (default: 127.0.0.1)
+   */
+  host?: string;
+
+  /**
+   * Proto package of the generated services (default: 'refinio.api')
+   */
+  packageName?: string;
+
+  /**
+   * Largest accepted request message (bytes, default: 4 MiB)
+   */
+  maxMessageSize?: number;
+
+  /**
+   * Validate the bearer token from `authorization` metadata
+   */
+  validateAuthToken?: (token: string) => Promise<AuthContext | null>;
+}
+
+/**
+ * An incoming call as seen by extractAuthContext
+ */
+export interface GrpcCall {
+  path: string;
+  headers: http2.IncomingHttpHeaders;
+}
+
+/**
+ * gRPC Transport Plan
+ *
+ * Exposes PlanRegistry operations as gRPC services.
+ */
+export class GrpcTransportPlan extends TransportPlan {
+  private port: number;
+  private host: string;
+  private packageName: string;
+  private maxMessageSize: number;
+  private validateAuthToken?: GrpcTransportConfig['validateAuthToken'];
+  private server?: http2.Http2Server;
+  private sessions = new Set<http2.ServerHttp2Session>();
+
+  constructor(
+    registry: PlanRegistry,
+    config: GrpcTransportConfig = {}
+  ) {
+    super(registry, config);
+    this.port = config.port ?? 50051;
+    this.host = config.host ?? '127.0.0.1';
+    this.packageName = config.packageName ?? 'refinio.api';
+    this.maxMessageSize = config.maxMessageSize ?? 4 * 1024 * 1024;
+    this.validateAuthToken = config.validateAuthToken;
+  }
+
+  /**
+   * Start the HTTP/2 server
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      throw new Error('gRPC transport already running');
+    }
+
+    const server = http2.createServer();
+    server.on('session', session => {
+      this.sessions.add(session);
+      session.on('close', () => this.sessions.delete(session));
+    });
+    server.on('stream', (stream, headers) => {
+      void this.handleCall(stream, headers);
+    });
+    this.server = server;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(this.port, this.host, () => {
+          server.removeListener('error', reject);
+          resolve();
+        });
+      });
+    } catch (error) {
+      this.server = undefined;
+      throw error;
+    }
+
+    console.log(`gRPC transport listening on ${this.host}:${this.address()?.port}`);
+  }
+
+  /**
+   * Stop the server, cancel in-flight calls and close all sessions
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = undefined;
+
+    this.cancelAllRequests('Transport stopped');
+    for (const session of this.sessions) {
+      session.destroy();
+    }
+
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    console.log('gRPC transport stopped');
+  }
+
+  /**
+   * Check if transport is running
+   */
+  isRunning(): boolean {
+    return !!this.server;
+  }
+
+  /**
+   * Bound address (e.g. to find the port when configured with 0)
+   */
+  address(): { address: string; port: number } | undefined {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address : undefined;
+  }
+
+  /**
+   * Generate the `.proto` file for the currently registered operations
+   */
+  generateProto(): string {
+    return generateProto(protoServices(this.registry.list()), this.packageName);
+  }
+
+  /**
+   * Extract auth context from call metadata
+   */
+  protected async extractAuthContext(call: GrpcCall): Promise<AuthContext | null> {
+    const match = String(call.headers.authorization ?? '').match(/^Bearer\s+(.+)$/i);
+    const token = match?.[1];
+
+    if (token && this.validateAuthToken) {
+      return await this.validateAuthToken(token);
+    }
+
+    // Development mode: allow all operations
+    if (this.config.devMode) {
+      return {
+        userId: token ?? 'dev-user',
+        sessionId: `grpc-session-${Date.now()}`,
+        capabilities: ['*']
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Handle one call (HTTP/2 stream)
+   */
+  private async handleCall(stream: http2.ServerHttp2Stream, headers: http2.IncomingHttpHeaders): Promise<void> {
+    const path = String(headers[':path'] ?? '');
+    const closed = new AbortController();
+    stream.on('close', () => closed.abort());
+    stream.on('error', () => {});
+
+    if (headers[':method'] !== 'POST' || !String(headers['content-type'] ?? '').startsWith('application/grpc')) {
+      stream.respond({ ':status': 415 }, { endStream: true });
+      return;
+    }
+
+    const method = this.resolveMethod(path);
+    if (!method) {
+      this.sendError(stream, this.formatError(new UnknownOperationError(path)));
+      return;
+    }
+
+    let request: unknown;
+    try {
+      request = decodeMessage(method.request, await this.readMessage(stream));
+    } catch (err) {
+      this.sendError(stream, this.formatError(err));
+      return;
+    }
+
+    const requestId = this.generateRequestId();
+    const deadline = parseTimeout(headers['grpc-timeout']);
+    let deadlineExceeded = false;
+    const timer = deadline === undefined ? undefined : setTimeout(() => {
+      deadlineExceeded = true;
+      this.cancelRequest(requestId, 'Deadline exceeded');
+    }, deadline);
+
+    // Report deadline expiry as such rather than as a cancellation
+    const fail = (response: ErrorResponse) => this.sendError(
+      stream,
+      deadlineExceeded && response.error.code === 'CANCELLED'
+        ? this.formatError(new TimeoutError(method.operation, deadline!))
+        : response
+    );
+
+    try {
+      const response = await this.invokeOperation(method.operation, request, { path, headers }, {
+        requestId,
+        versionRange: header(headers['accept-version']),
+        idempotencyKey: header(headers['idempotency-key']),
+        signal: closed.signal
+      });
+
+      if (!response.success) {
+        fail(response);
+        return;
+      }
+
+      const responseHeaders: http2.OutgoingHttpHeaders = {
+        ':status': 200,
+        'content-type': 'application/grpc',
+        ...(response.deprecation && { deprecation: 'true' })
+      };
+
+      if (isAsyncIterable(response.result)) {
+        stream.respond(responseHeaders, { waitForTrailers: true });
+        await this.forwardStream(
+          response.result,
+          frame => this.sendFrame(stream, method, frame, fail),
+          () => !stream.closed
+        );
+        return;
+      }
+
+      let payload: Buffer;
+      try {
+        payload = encodeMessage(method.response, response.result);
+      } catch (err) {
+        fail(this.formatError(err));
+        return;
+      }
+
+      stream.respond(responseHeaders, { waitForTrailers: true });
+      stream.once('wantTrailers', () => stream.sendTrailers({ 'grpc-status': '0' }));
+      stream.end(frameMessage(payload));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Write a stream frame as a message, or end the call on done/error
+   */
+  private async sendFrame(
+    stream: http2.ServerHttp2Stream,
+    method: ProtoMethod,
+    frame: StreamFrame<unknown>,
+    fail: (response: ErrorResponse) => void
+  ): Promise<void> {
+    if (stream.closed) {
+      return;
+    }
+
+    if (!frame.success) {
+      fail(frame);
+      return;
+    }
+
+    if ('done' in frame) {
+      stream.once('wantTrailers', () => stream.sendTrailers({ 'grpc-status': '0' }));
+      stream.end();
+      return;
+    }
+
+    if (!stream.write(frameMessage(encodeMessage(method.response, frame.chunk)))) {
+      await new Promise<void>(resolve => {
+        stream.once('drain', resolve);
+        stream.once('close', resolve);
+      });
+    }
+  }
+
+  /**
+   * End a call with an error status
+   *
+   * Before the response headers are sent this is a trailers-only
+   * response; during a stream the status goes into the trailers.
+   */
+  private sendError(stream: http2.ServerHttp2Stream, response: ErrorResponse): void {
+    if (stream.closed) {
+      return;
+    }
+
+    const status = {
+      'grpc-status': String(errorMapping(response.error.code).grpc),
+      'grpc-message': encodeURIComponent(response.error.message),
+      'error-code': response.error.code
+    };
+
+    if (stream.headersSent) {
+      stream.once('wantTrailers', () => stream.sendTrailers(status));
+      stream.end();
+    } else {
+      stream.respond({ ':status': 200, 'content-type': 'application/grpc', ...status }, { endStream: true });
+    }
+  }
+
+  /**
+   * Find the rpc for a path
+   *
+   * Resolved per call so operations registered after start() are served.
+   */
+  private resolveMethod(path: string): ProtoMethod | undefined {
+    const match = path.match(/^\/([^/]+)\/([^/]+)$/);
+    if (!match) {
+      return undefined;
+    }
+
+    for (const service of protoServices(this.registry.list())) {
+      if (match[1] !== `${this.packageName}.${service.name}`) {
+        continue;
+      }
+      return service.methods.find(method => method.name === match[2]);
+    }
+    return undefined;
+  }
+
+  /**
+   * Read the single request message of a unary or server-streaming call
+   */
+  private async readMessage(stream: http2.ServerHttp2Stream): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of stream) {
+      size += chunk.length;
+      if (size > this.maxMessageSize + 5) {
+        throw new ValidationError(`Request message exceeds ${this.maxMessageSize} bytes`);
+      }
+      chunks.push(chunk);
+    }
+
+    const body = Buffer.concat(chunks);
+    if (body.length < 5 || body.length !== 5 + body.readUInt32BE(1)) {
+      throw new ValidationError('Expected exactly one length-prefixed request message');
+    }
+    if (body[0] !== 0) {
+      throw new NotImplementedError('Compressed messages are not supported');
+    }
+
+    return body.subarray(5);
+  }
+}
+
+/**
+ * Prefix a message with the gRPC frame header (uncompressed flag + length)
+ */
+function frameMessage(payload: Buffer): Buffer {
+  const header = Buffer.alloc(5);
+  header.writeUInt32BE(payload.length, 1);
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Parse a `grpc-timeout` value (e.g. "100m", "5S") to milliseconds
+ */
+function parseTimeout(value: string | string[] | undefined): number | undefined {
+  const match = header(value)?.match(/^(\d{1,8})([HMSmun])$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const units: Record<string, number> = { H: 3600000, M: 60000, S: 1000, m: 1, u: 0.001, n: 0.000001 };
+  return Math.ceil(Number(match[1]) * units[match[2]]);
+}
+
+function header(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
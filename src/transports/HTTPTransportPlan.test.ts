@@ -0,0 +1,46 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from '../PlanRegistry.js';
+import { HTTPTransportPlan } from './HTTPTransportPlan.js';
+import { authWith, createTestRegistry, freePort } from '../test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('http transport', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  it('should answer operations exceeding the timeout with 504', async () => {
+    registry.register({
+      domain: 'slow',
+      method: 'wait',
+      plan: { wait: () => new Promise(resolve => setTimeout(() => resolve('late'), 500)) },
+      version: '1.0.0'
+    });
+
+    const port = await freePort();
+    const transport = new HTTPTransportPlan(registry);
+    await transport.start({
+      port,
+      timeout: 20,
+      validateAuthToken: async token => token === 'secret' ? authWith(['*']) : null
+    });
+
+    try {
+      const response = await fetch(`http://localhost:${port}/api/operations/slow:wait`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret' },
+        body: '{}'
+      });
+
+      expect(response.status).toBe(504);
+      expect(response.headers.get('content-type')).toContain('application/problem+json');
+      expect(await response.json()).toMatchObject({ code: 'TIMEOUT' });
+    } finally {
+      await transport.stop();
+    }
+  });
+});
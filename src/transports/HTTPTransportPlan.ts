@@ -6,16 +6,27 @@
  *
  * Key features:
  * - RESTful API: POST /api/operations/:operation
+ * - Batch API: POST /api/batch (sequential/parallel, atomic, $ref between entries)
  * - CORS support for browser clients
  * - Bearer token authentication
  * - OpenAPI introspection: GET /api/operations
  * - Request/response validation
- * - Structured error handling
+ * - Streaming operations as Server-Sent Events or chunked NDJSON
+ * - Version negotiation via `Accept-Version` header (e.g. `^1.0.0`),
+ *   with `Deprecation`/`Sunset` response headers for deprecated versions
+ * - Operations are cancelled when the client disconnects
+ * - Replay-safe retries via `Idempotency-Key` header
+ * - Rate limited requests are answered with 429 and `Retry-After`,
+ *   operations with an open circuit breaker with 503 and `Retry-After`
+ * - OpenMetrics endpoint for Prometheus scrapers: GET /metrics
+ * - Errors as RFC 7807 problem details (`application/problem+json`), with
+ *   status codes from the error catalog
+ * - JSON-RPC 2.0 endpoint: POST /api/jsonrpc (batches and notifications)
  *
  * Usage:
  * ```typescript
  * const transport = new HTTPTransportPlan(registry);
- * await transport.start({ port: 3000, cors: true });
+ * await transport.start({ port: 3000, cors: true, timeout: 30000 });
  * ```
  */
 
@@ -23,14 +34,19 @@ import express, { Express, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import type { Server } from 'http';
 import { TransportPlan } from '../TransportPlan.js';
+import type { TransportConfig } from '../TransportPlan.js';
 import type { PlanRegistry } from '../PlanRegistry.js';
 import type { AuthContext } from '../types/context.js';
-import { OperationResponse } from '../types/responses.js';
+import type { OperationResponse, StreamFrame, ErrorResponse } from '../types/responses.js';
+import { error as errorResponse, problemDetails, PROBLEM_CONTENT_TYPE } from '../types/responses.js';
+import { isAsyncIterable } from '../streaming.js';
+import { OPENMETRICS_CONTENT_TYPE } from '../openmetrics.js';
+import { handleJsonRpc, jsonRpcParseError } from '../jsonrpc.js';
 
 /**
  * HTTP Transport Configuration
  */
-export interface HTTPTransportConfig {
+export interface HTTPTransportConfig extends TransportConfig {
     /** Port to listen on (default: 3000) */
     port?: number;
 
@@ -57,6 +73,12 @@ export interface HTTPTransportConfig {
 
     /** API prefix (default: '/api') */
     apiPrefix?: string;
+
+    /** OpenMetrics endpoint path, outside the API prefix (default: '/metrics', false to disable) */
+    metricsPath?: string | false;
+
+    /** JSON-RPC 2.0 endpoint path, under the API prefix (default: '/jsonrpc', false to disable) */
+    jsonRpcPath?: string | false;
 }
 
 /**
@@ -67,21 +89,23 @@ export interface HTTPTransportConfig {
 export class HTTPTransportPlan extends TransportPlan {
     private app?: Express;
     private server?: Server;
-    private config: Required<Omit<HTTPTransportConfig, 'corsOptions' | 'validateAuthToken'>> & {
+    private options: Required<Omit<HTTPTransportConfig, 'corsOptions' | 'validateAuthToken' | keyof TransportConfig>> & {
         corsOptions?: cors.CorsOptions;
         validateAuthToken?: (token: string) => Promise<AuthContext | null>;
     };
 
-    constructor(registry: PlanRegistry) {
-        super(registry, 'http-transport');
-        this.config = {
+    constructor(registry: PlanRegistry, config: TransportConfig = {}) {
+        super(registry, config);
+        this.options = {
             port: 3000,
             host: 'localhost',
             cors: false,
             bodyLimit: '10mb',
             logging: false,
             development: false,
-            apiPrefix: '/api'
+            apiPrefix: '/api',
+            metricsPath: '/metrics',
+            jsonRpcPath: '/jsonrpc'
         };
     }
 
@@ -94,31 +118,35 @@ export class HTTPTransportPlan extends TransportPlan {
         }
 
         // Merge config
-        this.config = { ...this.config, ...config };
+        this.options = { ...this.options, ...config };
+        this.config = {
+            devMode: config?.devMode ?? this.config.devMode,
+            timeout: config?.timeout ?? this.config.timeout
+        };
 
         // Create Express app
         this.app = express();
 
         // Middleware
-        if (this.config.cors) {
-            this.app.use(cors(this.config.corsOptions));
+        if (this.options.cors) {
+            this.app.use(cors(this.options.corsOptions));
         }
 
-        this.app.use(express.json({ limit: this.config.bodyLimit }));
-        this.app.use(express.urlencoded({ extended: true, limit: this.config.bodyLimit }));
+        this.app.use(express.json({ limit: this.options.bodyLimit }));
+        this.app.use(express.urlencoded({ extended: true, limit: this.options.bodyLimit }));
 
         // Request logging
-        if (this.config.logging) {
+        if (this.options.logging) {
             this.app.use(this.loggingMiddleware.bind(this));
         }
 
         // Health check
-        this.app.get(`${this.config.apiPrefix}/health`, (req, res) => {
+        this.app.get(`${this.options.apiPrefix}/health`, (req, res) => {
             res.json({ status: 'ok', timestamp: new Date().toISOString() });
         });
 
         // Introspection endpoint - list all operations
-        this.app.get(`${this.config.apiPrefix}/operations`, (req, res) => {
+        this.app.get(`${this.options.apiPrefix}/operations`, (req, res) => {
             const operations = this.registry.list();
             res.json({
                 operations,
@@ -127,24 +155,46 @@ export class HTTPTransportPlan extends TransportPlan {
         });
 
         // OpenAPI schema endpoint
-        this.app.get(`${this.config.apiPrefix}/openapi.json`, (req, res) => {
+        this.app.get(`${this.options.apiPrefix}/openapi.json`, (req, res) => {
             res.json(this.generateOpenAPISchema());
         });
 
+        // Metrics endpoint - GET /metrics (OpenMetrics text format)
+        if (this.options.metricsPath) {
+            this.app.get(this.options.metricsPath, (req, res) => {
+                res.setHeader('Content-Type', OPENMETRICS_CONTENT_TYPE);
+                res.send(this.registry.exportMetrics());
+            });
+        }
+
         // Operation endpoint - POST /api/operations/:operation
         this.app.post(
-            `${this.config.apiPrefix}/operations/:operation`,
+            `${this.options.apiPrefix}/operations/:operation`,
             this.operationHandler.bind(this)
         );
 
+        // Batch endpoint - POST /api/batch
+        this.app.post(
+            `${this.options.apiPrefix}/batch`,
+            this.batchHandler.bind(this)
+        );
+
+        // JSON-RPC 2.0 endpoint - POST /api/jsonrpc
+        if (this.options.jsonRpcPath) {
+            this.app.post(
+                `${this.options.apiPrefix}${this.options.jsonRpcPath}`,
+                this.jsonRpcHandler.bind(this)
+            );
+        }
+
         // Error handler
         this.app.use(this.errorHandler.bind(this));
 
         // Start server
         await new Promise<void>((resolve, reject) => {
-            this.server = this.app!.listen(this.config.port, this.config.host, () => {
+            this.server = this.app!.listen(this.options.port, this.options.host, () => {
                 console.log(
-                    `[HTTPTransport] Server started on http://${this.config.host}:${this.config.port}${this.config.apiPrefix}`
+                    `[HTTPTransport] Server started on http://${this.options.host}:${this.options.port}${this.options.apiPrefix}`
                 );
                 resolve();
             });
@@ -161,6 +211,8 @@ export class HTTPTransportPlan extends TransportPlan {
             return;
         }
 
+        this.cancelAllRequests('Transport stopped');
+
         await new Promise<void>((resolve, reject) => {
             this.server!.close((err) => {
                 if (err) {
@@ -189,7 +241,7 @@ export class HTTPTransportPlan extends TransportPlan {
         // Extract Bearer token from Authorization header
         const authHeader = request.headers.authorization;
         if (!authHeader) {
-            return this.config.development ? this.createDevAuthContext() : null;
+            return this.options.development ? this.createDevAuthContext() : null;
         }
 
         const match = authHeader.match(/^Bearer\s+(.+)$/i);
@@ -200,12 +252,12 @@ export class HTTPTransportPlan extends TransportPlan {
         const token = match[1];
 
         // Use custom validator if provided
-        if (this.config.validateAuthToken) {
-            return await this.config.validateAuthToken(token);
+        if (this.options.validateAuthToken) {
+            return await this.options.validateAuthToken(token);
         }
 
         // Development mode - accept any token
-        if (this.config.development) {
+        if (this.options.development) {
             return {
                 userId: token, // Use token as userId in dev mode
                 sessionId: `dev-session-${Date.now()}`,
@@ -226,44 +278,219 @@ export class HTTPTransportPlan extends TransportPlan {
 
             // Extract auth context
             const authContext = await this.extractAuthContext(req);
-            if (!authContext && !this.config.development) {
-                res.status(401).json({
-                    success: false,
-                    error: {
-                        code: 'UNAUTHORIZED',
-                        message: 'Authentication required',
-                        details: { hint: 'Provide Bearer token in Authorization header' }
-                    }
-                });
+            if (!authContext && !this.options.development) {
+                this.sendError(req, res, errorResponse(
+                    'UNAUTHORIZED',
+                    'Authentication required',
+                    { hint: 'Provide Bearer token in Authorization header' }
+                ));
                 return;
             }
 
+            // Cancel the operation if the client goes away before the response is sent
+            const disconnect = new AbortController();
+            res.on('close', () => {
+                if (!res.writableFinished) {
+                    disconnect.abort();
+                }
+            });
+
             // Invoke operation
-            const result = await this.invokeOperation(operation, request, authContext);
+            const result = await this.invokeOperation(operation, request, req, {
+                versionRange: req.header('accept-version') || undefined,
+                idempotencyKey: req.header('idempotency-key') || undefined,
+                signal: disconnect.signal
+            });
 
-            // Send response
             const response = result as OperationResponse<any>;
-            const statusCode = response.success ? 200 : this.getErrorStatusCode(response);
-            res.status(statusCode).json(response);
+            if (response.success && response.deprecation) {
+                res.setHeader('Deprecation', 'true');
+                if (response.deprecation.sunset) {
+                    res.setHeader('Sunset', new Date(response.deprecation.sunset).toUTCString());
+                }
+            }
+
+            // Streaming result - deliver chunks progressively
+            if (response.success && isAsyncIterable(response.result)) {
+                await this.streamHandler(req, res, response.result);
+                return;
+            }
+
+            // Send response
+            if (!response.success) {
+                this.sendError(req, res, response);
+                return;
+            }
+            res.status(200).json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Batch handler middleware
+     *
+     * Body: { entries: [{operation, request, version?}], mode?, atomic? }
+     * Responds 200 with per-entry OperationResponses once the batch ran,
+     * even if individual entries failed.
+     */
+    private async batchHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const authContext = await this.extractAuthContext(req);
+            if (!authContext && !this.options.development) {
+                this.sendError(req, res, errorResponse(
+                    'UNAUTHORIZED',
+                    'Authentication required',
+                    { hint: 'Provide Bearer token in Authorization header' }
+                ));
+                return;
+            }
+
+            const disconnect = new AbortController();
+            res.on('close', () => {
+                if (!res.writableFinished) {
+                    disconnect.abort();
+                }
+            });
+
+            const response = await this.invokeBatch(req.body, req, {
+                idempotencyKey: req.header('idempotency-key') || undefined,
+                signal: disconnect.signal
+            });
+            if (!response.success) {
+                this.sendError(req, res, response);
+                return;
+            }
+            res.status(200).json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * JSON-RPC 2.0 handler middleware
+     *
+     * Body: a JSON-RPC request or batch array. Errors are answered with
+     * status 200 and JSON-RPC error objects; a payload of notifications
+     * only with 204. `Accept-Version` applies to calls without a version
+     * in their params.
+     */
+    private async jsonRpcHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const disconnect = new AbortController();
+            res.on('close', () => {
+                if (!res.writableFinished) {
+                    disconnect.abort();
+                }
+            });
+
+            const response = await handleJsonRpc(req.body, {
+                invoke: (call) => this.invokeOperation(call.operation, call.request, req, {
+                    versionRange: call.versionRange ?? (req.header('accept-version') || undefined),
+                    idempotencyKey: call.idempotencyKey,
+                    signal: disconnect.signal
+                })
+            });
+
+            if (response === undefined) {
+                res.status(204).end();
+                return;
+            }
+            res.status(200).json(response);
         } catch (error) {
             next(error);
         }
     }
 
+    /**
+     * Deliver a streaming result
+     *
+     * Uses Server-Sent Events if the client accepts `text/event-stream`,
+     * otherwise chunked NDJSON (one StreamFrame per line). The next chunk is
+     * pulled once the previous one is flushed; the producer is closed when
+     * the client disconnects.
+     */
+    private async streamHandler(
+        req: Request,
+        res: Response,
+        stream: AsyncIterable<unknown>
+    ): Promise<void> {
+        const sse = (req.headers.accept ?? '').includes('text/event-stream');
+        let open = true;
+        res.on('close', () => {
+            open = false;
+        });
+
+        res.status(200);
+        res.setHeader('Content-Type', sse ? 'text/event-stream' : 'application/x-ndjson');
+        res.setHeader('Cache-Control', 'no-cache');
+        if (sse) {
+            res.setHeader('Connection', 'keep-alive');
+        }
+        res.flushHeaders();
+
+        await this.forwardStream(
+            stream,
+            (frame) => this.writeFrame(res, sse ? this.formatSSE(frame) : JSON.stringify(frame) + '\n'),
+            () => open
+        );
+
+        if (open) {
+            res.end();
+        }
+    }
+
+    /**
+     * Write a serialized frame, waiting for the socket to drain when its
+     * buffer is full (or for the client to disconnect)
+     */
+    private async writeFrame(res: Response, data: string): Promise<void> {
+        if (res.write(data) || res.destroyed) {
+            return;
+        }
+
+        await new Promise<void>(resolve => {
+            const done = () => {
+                res.off('drain', done);
+                res.off('close', done);
+                resolve();
+            };
+            res.on('drain', done);
+            res.on('close', done);
+        });
+    }
+
+    /**
+     * Format a stream frame as a Server-Sent Event
+     *
+     * Event names: 'chunk', 'end' or 'error'.
+     */
+    private formatSSE(frame: StreamFrame<unknown>): string {
+        const event = !frame.success ? 'error' : 'done' in frame ? 'end' : 'chunk';
+        return `event: ${event}\ndata: ${JSON.stringify(frame)}\n\n`;
+    }
+
     /**
      * Error handler middleware
      */
     private errorHandler(err: Error, req: Request, res: Response, next: NextFunction): void {
+        // Malformed JSON-RPC bodies are answered with a JSON-RPC parse error
+        if (
+            (err as any).type === 'entity.parse.failed' &&
+            this.options.jsonRpcPath &&
+            req.path === `${this.options.apiPrefix}${this.options.jsonRpcPath}`
+        ) {
+            res.status(200).json(jsonRpcParseError(err.message));
+            return;
+        }
+
         console.error('[HTTPTransport] Unhandled error:', err);
 
-        res.status(500).json({
-            success: false,
-            error: {
-                code: 'INTERNAL_ERROR',
-                message: this.config.development ? err.message : 'Internal server error',
-                details: this.config.development ? { stack: err.stack } : undefined
-            }
-        });
+        this.sendError(req, res, errorResponse(
+            'INTERNAL_ERROR',
+            this.options.development ? err.message : 'Internal server error',
+            this.options.development ? { stack: err.stack } : undefined
+        ));
     }
 
     /**
@@ -283,29 +510,20 @@ export class HTTPTransportPlan extends TransportPlan {
     }
 
     /**
-     * Get HTTP status code from error response
+     * Send an error response as RFC 7807 problem details
+     *
+     * The status code comes from the error catalog; rate limited and
+     * circuit open errors carry a `Retry-After` header.
      */
-    private getErrorStatusCode(response: OperationResponse<any>): number {
-        if (response.success) {
-            return 200;
-        }
+    private sendError(req: Request, res: Response, response: ErrorResponse): void {
+        const problem = problemDetails(response, req.originalUrl);
 
-        const errorCode = response.error?.code;
-
-        switch (errorCode) {
-            case 'VALIDATION_ERROR':
-                return 400;
-            case 'UNAUTHORIZED':
-                return 401;
-            case 'FORBIDDEN':
-                return 403;
-            case 'NOT_FOUND':
-            case 'UNKNOWN_OPERATION':
-                return 404;
-            case 'INTERNAL_ERROR':
-            default:
-                return 500;
+        const retryAfter = response.error.details?.retryAfter;
+        if (typeof retryAfter === 'number') {
+            res.setHeader('Retry-After', String(retryAfter));
         }
+
+        res.status(problem.status).type(PROBLEM_CONTENT_TYPE).json(problem);
     }
 
     /**
@@ -317,7 +535,7 @@ export class HTTPTransportPlan extends TransportPlan {
         const paths: any = {};
 
         for (const op of operations) {
-            const path = `${this.config.apiPrefix}/operations/${op.operation}`;
+            const path = `${this.options.apiPrefix}/operations/${op.operation}`;
             paths[path] = {
                 post: {
                     summary: `Execute ${op.operation}`,
@@ -328,7 +546,7 @@ export class HTTPTransportPlan extends TransportPlan {
                         required: true,
                         content: {
                             'application/json': {
-                                schema: {
+                                schema: op.requestSchema ?? {
                                     type: 'object',
                                     description: 'Operation request parameters'
                                 }
@@ -338,13 +556,26 @@ export class HTTPTransportPlan extends TransportPlan {
                     responses: {
                         200: {
                             description: 'Success',
-                            content: {
+                            content: op.streaming ? {
+                                'application/x-ndjson': {
+                                    schema: {
+                                        type: 'object',
+                                        description: 'One stream frame per line: {success, chunk} ... {success, done, chunks}'
+                                    }
+                                },
+                                'text/event-stream': {
+                                    schema: {
+                                        type: 'string',
+                                        description: "Server-Sent Events: 'chunk', 'end' or 'error'"
+                                    }
+                                }
+                            } : {
                                 'application/json': {
                                     schema: {
                                         type: 'object',
                                         properties: {
                                             success: { type: 'boolean', example: true },
-                                            result: { type: 'object' }
+                                            result: op.responseSchema ?? { type: 'object' }
                                         }
                                     }
                                 }
@@ -354,7 +585,129 @@ export class HTTPTransportPlan extends TransportPlan {
                         401: { description: 'Unauthorized' },
                         403: { description: 'Forbidden' },
                         404: { description: 'Operation not found' },
-                        500: { description: 'Internal server error' }
+                        422: { description: 'Idempotency key reused with a different request' },
+                        429: {
+                            description: 'Rate limit or quota exceeded',
+                            headers: {
+                                'Retry-After': {
+                                    description: 'Seconds until the request may succeed',
+                                    schema: { type: 'integer' }
+                                }
+                            }
+                        },
+                        503: {
+                            description: 'Circuit open after repeated failures',
+                            headers: {
+                                'Retry-After': {
+                                    description: 'Seconds until a probe request is let through',
+                                    schema: { type: 'integer' }
+                                }
+                            }
+                        },
+                        504: { description: 'Operation timed out' },
+                        500: { description: 'Internal server error' },
+                        default: {
+                            description: 'Error as RFC 7807 problem details',
+                            content: {
+                                [PROBLEM_CONTENT_TYPE]: {
+                                    schema: { $ref: '#/components/schemas/Problem' }
+                                }
+                            }
+                        }
+                    },
+                    parameters: [
+                        {
+                            name: 'Accept-Version',
+                            in: 'header',
+                            required: false,
+                            description: `Version range (available: ${(op.versions ?? [op.version]).join(', ')})`,
+                            schema: { type: 'string', example: `^${op.version}` }
+                        },
+                        {
+                            name: 'Idempotency-Key',
+                            in: 'header',
+                            required: false,
+                            description: 'Retries with the same key and request replay the first result',
+                            schema: { type: 'string' }
+                        }
+                    ],
+                    security: [{ bearerAuth: [] }]
+                }
+            };
+        }
+
+        paths[`${this.options.apiPrefix}/batch`] = {
+            post: {
+                summary: 'Execute a batch of operations',
+                description: 'Runs entries sequentially or in parallel. Requests may reference ' +
+                    'earlier results with {"$ref": "#0.result.path"}. Atomic batches roll back ' +
+                    'completed entries via their compensating actions on failure.',
+                operationId: 'batch',
+                tags: ['batch'],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['entries'],
+                                properties: {
+                                    entries: {
+                                        type: 'array',
+                                        items: {
+                                            type: 'object',
+                                            required: ['operation', 'request'],
+                                            properties: {
+                                                operation: { type: 'string' },
+                                                request: { type: 'object' },
+                                                version: { type: 'string' }
+                                            }
+                                        }
+                                    },
+                                    mode: { type: 'string', enum: ['sequential', 'parallel'] },
+                                    atomic: { type: 'boolean' }
+                                }
+                            }
+                        }
+                    }
+                },
+                responses: {
+                    200: { description: 'Batch executed (see per-entry results)' },
+                    400: { description: 'Invalid batch' },
+                    401: { description: 'Unauthorized' }
+                },
+                security: [{ bearerAuth: [] }]
+            }
+        };
+
+        if (this.options.jsonRpcPath) {
+            paths[`${this.options.apiPrefix}${this.options.jsonRpcPath}`] = {
+                post: {
+                    summary: 'Execute operations via JSON-RPC 2.0',
+                    description: 'method is the operation name (domain:method); params are the request, ' +
+                        'or [request, {version, idempotencyKey}]. Accepts batch arrays and notifications.',
+                    operationId: 'jsonrpc',
+                    tags: ['jsonrpc'],
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    required: ['jsonrpc', 'method'],
+                                    properties: {
+                                        jsonrpc: { type: 'string', enum: ['2.0'] },
+                                        method: { type: 'string' },
+                                        params: {},
+                                        id: {}
+                                    }
+                                }
+                            }
+                        }
+                    },
+                    responses: {
+                        200: { description: 'JSON-RPC response or batch of responses (errors included)' },
+                        204: { description: 'Notifications only, no response' }
                     },
                     security: [{ bearerAuth: [] }]
                 }
@@ -370,12 +723,27 @@ export class HTTPTransportPlan extends TransportPlan {
             },
             servers: [
                 {
-                    url: `http://${this.config.host}:${this.config.port}`,
+                    url: `http://${this.options.host}:${this.options.port}`,
                     description: 'Local server'
                 }
             ],
             paths,
             components: {
+                schemas: {
+                    Problem: {
+                        type: 'object',
+                        properties: {
+                            type: { type: 'string', example: 'urn:refinio:error:VALIDATION_ERROR' },
+                            title: { type: 'string' },
+                            status: { type: 'integer' },
+                            detail: { type: 'string' },
+                            instance: { type: 'string' },
+                            code: { type: 'string', description: 'Stable error code' },
+                            details: { type: 'object' }
+                        },
+                        required: ['type', 'title', 'status', 'detail', 'code']
+                    }
+                },
                 securitySchemes: {
                     bearerAuth: {
                         type: 'http',
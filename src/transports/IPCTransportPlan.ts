@@ -9,15 +9,22 @@
  * - Extracts auth from Electron session
  * - Routes all operations through plan registry
  * - Formats responses for IPC protocol
+ * - Streams chunks of streaming operations via webContents.send
+ * - Cancellation via the cancel channel or when the renderer is destroyed
+ * - Optional OpenMetrics push to a file or socket
  */
 
 import { ipcMain } from 'electron';
-import type { IpcMainInvokeEvent } from 'electron';
+import type { IpcMainEvent, IpcMainInvokeEvent } from 'electron';
 import { TransportPlan } from '../TransportPlan.js';
 import type { TransportConfig } from '../TransportPlan.js';
 import type { PlanRegistry } from '../PlanRegistry.js';
 import type { AuthContext } from '../types/context.js';
+import type { StreamFrame } from '../types/responses.js';
 import { UnauthorizedError } from '../errors.js';
+import { isAsyncIterable } from '../streaming.js';
+import { startMetricsPush } from '../openmetrics.js';
+import type { MetricsPushConfig, MetricsPusher } from '../openmetrics.js';
 import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
 import type { Person } from '@refinio/one.core/lib/recipes.js';
 
@@ -30,6 +37,32 @@ export interface IPCTransportConfig extends TransportConfig {
    */
   channel?: string;
 
+  /**
+   * IPC channel on which stream frames are sent to the renderer
+   *
+   * Default: `${channel}:stream`
+   */
+  streamChannel?: string;
+
+  /**
+   * IPC channel on which the renderer cancels requests by ID
+   *
+   * Default: `${channel}:cancel`
+   *
+   * ```typescript
+   * ipcRenderer.send('plan:invoke:cancel', requestId);
+   * ```
+   */
+  cancelChannel?: string;
+
+  /**
+   * Push registry metrics in OpenMetrics format to a file or socket
+   *
+   * The main process has no HTTP listener to scrape, so metrics are
+   * pushed periodically instead (default: disabled).
+   */
+  metricsPush?: MetricsPushConfig;
+
   /**
    * Function to get authenticated user from session
    *
@@ -43,6 +76,39 @@ export interface IPCTransportConfig extends TransportConfig {
   } | null>;
 }
 
+/**
+ * Per-invocation options passed by the renderer as third argument
+ *
+ * ```typescript
+ * ipcRenderer.invoke('plan:invoke', 'ai:generate', request, { requestId, version: '^1.0.0' });
+ * ```
+ */
+export interface IPCInvokeOptions {
+  /**
+   * Request ID chosen by the renderer
+   *
+   * Streaming operations tag every frame with this ID. Frames may arrive
+   * before the invoke() reply, so renderers consuming streams should pick
+   * the ID and subscribe to the stream channel before invoking.
+   */
+  requestId?: string;
+
+  /**
+   * Requested operation version range (default: latest)
+   */
+  version?: string;
+
+  /**
+   * Idempotency key - retries with the same key replay the first result
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Stream frame as sent on the stream channel
+ */
+export type IPCStreamMessage = StreamFrame<unknown> & { requestId: string };
+
 /**
  * IPC Transport Plan (Main Process)
  *
@@ -50,7 +116,11 @@ export interface IPCTransportConfig extends TransportConfig {
  */
 export class IPCTransportPlan extends TransportPlan {
   private channel: string;
+  private streamChannel: string;
+  private cancelChannel: string;
   private getUserFromSession?: IPCTransportConfig['getUserFromSession'];
+  private metricsPush?: MetricsPushConfig;
+  private metricsPusher?: MetricsPusher;
   private running = false;
 
   constructor(
@@ -59,7 +129,10 @@ export class IPCTransportPlan extends TransportPlan {
   ) {
     super(registry, config);
     this.channel = config.channel || 'plan:invoke';
+    this.streamChannel = config.streamChannel || `${this.channel}:stream`;
+    this.cancelChannel = config.cancelChannel || `${this.channel}:cancel`;
     this.getUserFromSession = config.getUserFromSession;
+    this.metricsPush = config.metricsPush;
   }
 
   /**
@@ -73,25 +146,65 @@ export class IPCTransportPlan extends TransportPlan {
     }
 
     // Register universal handler
-    ipcMain.handle(this.channel, async (event, operation: string, request: any) => {
+    ipcMain.handle(this.channel, async (
+      event: IpcMainInvokeEvent,
+      operation: string,
+      request: any,
+      options: IPCInvokeOptions = {}
+    ) => {
+      const sender = event.sender;
+
+      // Cancel the operation if the renderer goes away
+      const disconnect = new AbortController();
+      const onDestroyed = () => disconnect.abort();
+      sender.once('destroyed', onDestroyed);
+
       try {
-        const requestId = this.generateRequestId();
+        const requestId = options.requestId || this.generateRequestId();
 
         const response = await this.invokeOperation(
           operation,
           request,
           event,
-          requestId
+          {
+            requestId,
+            versionRange: options.version,
+            idempotencyKey: options.idempotencyKey,
+            signal: disconnect.signal
+          }
         );
 
+        // Streaming result - deliver frames via webContents.send and
+        // reply immediately with the request ID to correlate them
+        if (response.success && isAsyncIterable(response.result)) {
+          void this.forwardStream(
+            response.result,
+            (frame) => sender.send(this.streamChannel, { ...frame, requestId } as IPCStreamMessage),
+            () => !sender.isDestroyed()
+          ).finally(() => sender.removeListener('destroyed', onDestroyed));
+
+          return { success: true, result: { streaming: true, requestId } };
+        }
+
+        sender.removeListener('destroyed', onDestroyed);
         return response;
       } catch (error) {
         // This should not happen as invokeOperation catches everything,
         // but just in case...
-        return this.formatError(error as Error);
+        sender.removeListener('destroyed', onDestroyed);
+        return this.formatError(error);
       }
     });
 
+    // Explicit cancellation by request ID
+    ipcMain.on(this.cancelChannel, (_event: IpcMainEvent, requestId: string) => {
+      this.cancelRequest(requestId);
+    });
+
+    if (this.metricsPush) {
+      this.metricsPusher = startMetricsPush(this.registry, this.metricsPush);
+    }
+
     this.running = true;
     console.log(`IPC transport started on channel: ${this.channel}`);
   }
@@ -107,6 +220,14 @@ export class IPCTransportPlan extends TransportPlan {
     }
 
     ipcMain.removeHandler(this.channel);
+    ipcMain.removeAllListeners(this.cancelChannel);
+    this.cancelAllRequests('Transport stopped');
+
+    if (this.metricsPusher) {
+      await this.metricsPusher.stop();
+      this.metricsPusher = undefined;
+    }
+
     this.running = false;
     console.log('IPC transport stopped');
   }
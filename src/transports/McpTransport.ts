@@ -8,6 +8,9 @@
  * - Tool name: "handlerName.methodName" (e.g., "memory.createSubject")
  * - Tool parameters: Derived from handler method signature
  * - Tool execution: Calls registry.call()
+ *
+ * For PlanRegistry operations use McpTransportPlan, which publishes the
+ * operations' request/response schemas and enforces capabilities.
  */
 
 import type { HandlerRegistry } from '../registry/HandlerRegistry.js';
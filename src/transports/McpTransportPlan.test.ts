@@ -0,0 +1,182 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from '../PlanRegistry.js';
+import { JsonRpcErrorCode } from '../jsonrpc.js';
+import { McpTransportPlan } from './McpTransportPlan.js';
+import { authWith, createTestRegistry } from '../test-helpers.js';
+import { PassThrough } from 'stream';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('mcp', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  beforeEach(() => {
+    registry.register({
+      domain: 'secret',
+      method: 'get',
+      plan: { get: async () => 'classified' },
+      version: '1.0.0',
+      requiredCapability: 'secret:read'
+    });
+    registry.register({
+      domain: 'test',
+      method: 'count',
+      plan: {
+        count: async function* () {
+          yield 1;
+          yield 2;
+        }
+      },
+      version: '1.0.0',
+      streaming: true
+    });
+  });
+
+  it('should list permitted tools with schemas and call them over stdio', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const responses: any[] = [];
+    let buffered = '';
+    output.on('data', (data: Buffer) => {
+      buffered += data.toString();
+      responses.push(...buffered.split('\n').slice(0, -1).map(line => JSON.parse(line)));
+      buffered = buffered.slice(buffered.lastIndexOf('\n') + 1);
+    });
+
+    const transport = new McpTransportPlan(registry, {
+      inputStream: input,
+      outputStream: output,
+      getAuthContext: async () => authWith(['test:*'])
+    });
+    await transport.start();
+
+    const request = async (id: number, method: string, params?: any) => {
+      input.write(JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n');
+      while (!responses.some(response => response.id === id)) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      return responses.find(response => response.id === id);
+    };
+
+    try {
+      const initialized = await request(1, 'initialize', { protocolVersion: '2025-03-26', capabilities: {} });
+      expect(initialized.result.protocolVersion).toBe('2025-03-26');
+
+      const listed = await request(2, 'tools/list');
+      expect(listed.result.tools.map((tool: any) => tool.name)).toEqual(['test_echo', 'test_count']);
+      expect(listed.result.tools[0].inputSchema).toEqual({ type: 'object' });
+
+      const echoed = await request(3, 'tools/call', { name: 'test_echo', arguments: { a: 1 } });
+      expect(echoed.result).toEqual({
+        content: [{ type: 'text', text: '{"echoed":{"a":1}}' }],
+        structuredContent: { echoed: { a: 1 } }
+      });
+
+      const denied = await request(4, 'tools/call', { name: 'secret_get' });
+      expect(denied.result.isError).toBe(true);
+      expect(denied.result.content[0].text).toMatch(/^FORBIDDEN/);
+
+      const unknown = await request(5, 'tools/call', { name: 'test:echo' });
+      expect(unknown.error.code).toBe(JsonRpcErrorCode.INVALID_PARAMS);
+    } finally {
+      await transport.stop();
+    }
+  });
+
+  it('should stream progress over streamable HTTP sessions', async () => {
+    const transport = new McpTransportPlan(registry, { mode: 'http', port: 0, devMode: true });
+    await transport.start();
+    const url = `http://127.0.0.1:${transport.address()!.port}/mcp`;
+    const post = (body: any, headers: Record<string, string> = {}) => fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify(body)
+    });
+
+    try {
+      const initialized = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+      const session = initialized.headers.get('mcp-session-id')!;
+      expect(((await initialized.json()) as { result: { serverInfo: { name: string } } }).result.serverInfo.name).toBe('refinio-api');
+
+      expect((await post({ jsonrpc: '2.0', id: 2, method: 'ping' })).status).toBe(400);
+
+      const called = await post(
+        { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'test_count', _meta: { progressToken: 'p' } } },
+        { 'Mcp-Session-Id': session }
+      );
+      expect(called.headers.get('content-type')).toBe('text/event-stream');
+      const events = (await called.text()).split('\n\n').filter(Boolean)
+        .map(event => JSON.parse(event.slice(event.indexOf('data: ') + 6)));
+
+      expect(events.map(event => event.method ?? 'result')).toEqual([
+        'notifications/progress', 'notifications/progress', 'result'
+      ]);
+      expect(events[1].params).toEqual({ progressToken: 'p', progress: 2, message: '2' });
+      expect(events[2].result.content[0].text).toBe('[1,2]');
+
+      expect((await fetch(url, { method: 'DELETE', headers: { 'Mcp-Session-Id': session } })).status).toBe(200);
+    } finally {
+      await transport.stop();
+    }
+  });
+
+  it('should keep HTTP sessions to the user who initialized them', async () => {
+    const transport = new McpTransportPlan(registry, {
+      mode: 'http',
+      port: 0,
+      validateAuthToken: async token => authWith(['*'], token)
+    });
+    await transport.start();
+    const url = `http://127.0.0.1:${transport.address()!.port}/mcp`;
+    const request = (method: string, user: string | undefined, session?: string) => fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: method === 'GET' ? 'text/event-stream' : 'application/json',
+        ...(user ? { Authorization: `Bearer ${user}` } : {}),
+        ...(session ? { 'Mcp-Session-Id': session } : {})
+      },
+      body: method === 'POST' ? JSON.stringify({ jsonrpc: '2.0', id: 1, method: session ? 'ping' : 'initialize', params: {} }) : undefined
+    });
+
+    try {
+      const session = (await request('POST', 'alice')).headers.get('mcp-session-id')!;
+
+      expect((await request('POST', 'mallory', session)).status).toBe(404);
+      expect((await request('GET', 'mallory', session)).status).toBe(404);
+      expect((await request('DELETE', undefined, session)).status).toBe(401);
+      expect((await request('DELETE', 'mallory', session)).status).toBe(404);
+
+      expect((await request('POST', 'alice', session)).status).toBe(200);
+      expect((await request('DELETE', 'alice', session)).status).toBe(200);
+    } finally {
+      await transport.stop();
+    }
+  });
+
+  it('should expire idle HTTP sessions', async () => {
+    const transport = new McpTransportPlan(registry, { mode: 'http', port: 0, devMode: true, sessionTimeout: 20 });
+    await transport.start();
+    const url = `http://127.0.0.1:${transport.address()!.port}/mcp`;
+    const post = (body: any, headers: Record<string, string> = {}) => fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...headers },
+      body: JSON.stringify(body)
+    });
+
+    try {
+      const session = (await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} })).headers.get('mcp-session-id')!;
+      expect((await post({ jsonrpc: '2.0', id: 2, method: 'ping' }, { 'Mcp-Session-Id': session })).status).toBe(200);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect((await post({ jsonrpc: '2.0', id: 3, method: 'ping' }, { 'Mcp-Session-Id': session })).status).toBe(404);
+    } finally {
+      await transport.stop();
+    }
+  });
+});
@@ -0,0 +1,929 @@
+/**
+ * McpTransportPlan - Model Context Protocol server
+ *
+ * Serves PlanRegistry operations as MCP tools (see mcp.ts for the
+ * mapping) to assistants and agents, over either MCP transport:
+ *
+ * - 'stdio': newline-delimited JSON-RPC on stdin/stdout, for servers
+ *   launched by the client
+ * - 'http': streamable HTTP on one endpoint (default /mcp). POST carries
+ *   JSON-RPC messages; responses are JSON, or an SSE stream when a
+ *   tools/call asks for progress and the client accepts
+ *   text/event-stream. Sessions start with initialize (Mcp-Session-Id
+ *   header) and end with DELETE or after `sessionTimeout` without
+ *   requests; a GET opens the session's SSE stream for resource update
+ *   notifications.
+ *
+ * Resources: configured McpResourceSources (e.g. createOneResourceSources
+ * for ONE objects, recipes and channels) are served through
+ * resources/list, resources/templates/list and resources/read. Resources
+ * that can report changes support resources/subscribe; updates are sent
+ * as `notifications/resources/updated`.
+ *
+ * ```typescript
+ * // stdio (e.g. "command": "node", "args": ["mcp.js"] in the client config)
+ * await new McpTransportPlan(registry, { getAuthContext }).start();
+ *
+ * // streamable HTTP
+ * await new McpTransportPlan(registry, { mode: 'http', port: 3002, validateAuthToken }).start();
+ * ```
+ *
+ * Access control:
+ * - Auth: getAuthContext (stdio) or `Authorization: Bearer` on every
+ *   HTTP request (validateAuthToken); devMode allows all operations
+ * - HTTP sessions belong to the user who initialized them; other users
+ *   get 404 for them
+ * - tools/list only shows tools whose requiredCapability the caller has;
+ *   tools/call is enforced by the registry like on every transport
+ * - Resources are listed, read and subscribed only with the source's
+ *   capability for the URI
+ * - HTTP requests from browser origins other than localhost are rejected
+ *   unless listed in `allowedOrigins` (DNS rebinding protection)
+ *
+ * Cancellation: `notifications/cancelled`, or closing the HTTP request.
+ */
+
+import * as http from 'http';
+import * as readline from 'readline';
+import { randomUUID } from 'crypto';
+import { TransportPlan } from '../TransportPlan.js';
+import type { TransportConfig } from '../TransportPlan.js';
+import type { PlanRegistry } from '../PlanRegistry.js';
+import type { AuthContext } from '../types/context.js';
+import { hasCapability } from '../types/context.js';
+import { error as errorResponse } from '../types/responses.js';
+import type { OperationResponse } from '../types/responses.js';
+import { ForbiddenError, NotFoundError, ValidationError } from '../errors.js';
+import { isAsyncIterable } from '../streaming.js';
+import { JsonRpcErrorCode, jsonRpcFailure, jsonRpcParseError, toJsonRpcError } from '../jsonrpc.js';
+import type { JsonRpcId, JsonRpcRequest, JsonRpcResponse } from '../jsonrpc.js';
+import {
+  canListTool,
+  isMcpToolError,
+  matchUriTemplate,
+  mcpToolNames,
+  negotiateProtocolVersion,
+  toMcpTool,
+  toMcpToolResult,
+  toResourceContents
+} from '../mcp.js';
+import type { McpResource, McpResourceSource } from '../mcp.js';
+
+/**
+ * MCP transport configuration
+ */
+export interface McpTransportConfig extends TransportConfig {
+  /**
+   * MCP transport (default: 'stdio')
+   */
+  mode?: 'stdio' | 'http';
+
+  /**
+   * Reported in the initialize result (default: refinio-api 1.0.0)
+   */
+  serverInfo?: { name: string; version: string };
+
+  /**
+   * Usage hints for the model, reported in the initialize result
+   */
+  instructions?: string;
+
+  /**
+   * Input stream (stdio, default: process.stdin)
+   */
+  inputStream?: NodeJS.ReadableStream;
+
+  /**
+   * Output stream (stdio, default: process.stdout)
+   */
+  outputStream?: NodeJS.WritableStream;
+
+  /**
+   * Port to listen on (http, default: 3002, 0 picks a free port)
+   */
+  port?: number;
+
+  /**
+   * Host to bind to (http, default: 127.0.0.1)
+   */
+  host?: string;
+
+  /**
+   * Endpoint path (http, default: '/mcp')
+   */
+  path?: string;
+
+  /**
+   * Browser origins allowed besides localhost (http)
+   */
+  allowedOrigins?: string[];
+
+  /**
+   * Idle time after which a session expires (http, ms, default: 30 minutes)
+   *
+   * Sessions with an open notification stream do not expire.
+   */
+  sessionTimeout?: number;
+
+  /**
+   * Auth context of the stdio client (resolved once)
+   */
+  getAuthContext?: () => Promise<AuthContext | null>;
+
+  /**
+   * Validate the bearer token of an HTTP request
+   */
+  validateAuthToken?: (token: string) => Promise<AuthContext | null>;
+
+  /**
+   * Resources to serve (none by default)
+   */
+  resources?: McpResourceSource[];
+}
+
+/**
+ * A JSON-RPC notification sent by the server
+ */
+interface McpNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Server-side state of an MCP session
+ */
+interface McpSession {
+  id: string;
+  protocolVersion?: string;
+
+  /**
+   * User who initialized the session (http)
+   */
+  userId?: AuthContext['userId'];
+
+  /**
+   * Time of the last request (http)
+   */
+  lastSeen?: number;
+
+  /**
+   * Stops watching, by subscribed URI
+   */
+  subscriptions: Map<string, () => void>;
+
+  /**
+   * Sends a notification outside of a request (stdout, or the HTTP GET
+   * stream while one is open)
+   */
+  notify?: (notification: McpNotification) => void;
+}
+
+/**
+ * A resource URI resolved to its source
+ */
+interface ResolvedResource {
+  source: McpResourceSource;
+  params: Record<string, string>;
+}
+
+/**
+ * Context of one incoming message
+ */
+interface McpMessageContext {
+  session: McpSession;
+  auth: AuthContext | null;
+
+  /**
+   * Sends a notification related to the message (progress)
+   */
+  notify: (notification: McpNotification) => void;
+
+  /**
+   * Fires when the client went away (HTTP)
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Largest accepted HTTP request body (bytes)
+ */
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Default idle time before an HTTP session expires (ms)
+ */
+const DEFAULT_SESSION_TIMEOUT = 30 * 60 * 1000;
+
+/**
+ * MCP Transport Plan
+ *
+ * Exposes PlanRegistry operations as MCP tools.
+ */
+export class McpTransportPlan extends TransportPlan {
+  private options: McpTransportConfig;
+  private mode: 'stdio' | 'http';
+  private serverInfo: { name: string; version: string };
+  private path: string;
+  private resources: McpResourceSource[];
+  private sessions = new Map<string, McpSession>();
+  private rl?: readline.Interface;
+  private stdioAuth?: Promise<AuthContext | null>;
+  private server?: http.Server;
+  private sessionTimer?: NodeJS.Timeout;
+
+  constructor(
+    registry: PlanRegistry,
+    config: McpTransportConfig = {}
+  ) {
+    super(registry, config);
+    this.options = config;
+    this.mode = config.mode ?? 'stdio';
+    this.serverInfo = config.serverInfo ?? { name: 'refinio-api', version: '1.0.0' };
+    this.path = config.path ?? '/mcp';
+    this.resources = config.resources ?? [];
+  }
+
+  /**
+   * Start serving on stdio or HTTP
+   */
+  async start(): Promise<void> {
+    if (this.isRunning()) {
+      throw new Error('MCP transport already running');
+    }
+
+    if (this.mode === 'stdio') {
+      this.startStdio();
+      return;
+    }
+
+    const server = http.createServer((req, res) => {
+      const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+      if (pathname !== this.path) {
+        res.writeHead(404).end();
+        return;
+      }
+      void this.handleHttp(req, res);
+    });
+    this.server = server;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(this.options.port ?? 3002, this.options.host ?? '127.0.0.1', () => {
+          server.removeListener('error', reject);
+          resolve();
+        });
+      });
+    } catch (error) {
+      this.server = undefined;
+      throw error;
+    }
+
+    const sessionTimeout = this.options.sessionTimeout ?? DEFAULT_SESSION_TIMEOUT;
+    this.sessionTimer = setInterval(() => this.expireSessions(), Math.min(sessionTimeout, 60000));
+    this.sessionTimer.unref();
+
+    // Log to stderr (stdout may carry a stdio protocol)
+    console.error(`MCP transport listening on http://${this.options.host ?? '127.0.0.1'}:${this.address()?.port}${this.path}`);
+  }
+
+  /**
+   * Stop serving and cancel in-flight calls
+   */
+  async stop(): Promise<void> {
+    this.cancelAllRequests('Transport stopped');
+    clearInterval(this.sessionTimer);
+    this.sessionTimer = undefined;
+    for (const session of this.sessions.values()) {
+      this.endSession(session);
+    }
+    this.sessions.clear();
+
+    if (this.rl) {
+      this.rl.close();
+      this.rl = undefined;
+    }
+
+    if (this.server) {
+      const server = this.server;
+      this.server = undefined;
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Check if transport is running
+   */
+  isRunning(): boolean {
+    return !!this.rl || !!this.server;
+  }
+
+  /**
+   * Bound address (http, e.g. to find the port when configured with 0)
+   */
+  address(): { address: string; port: number } | undefined {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address : undefined;
+  }
+
+  /**
+   * Handle a request to the MCP endpoint
+   *
+   * Public so the endpoint can be mounted on an existing HTTP server;
+   * pass `body` if a framework already parsed it.
+   */
+  async handleHttp(req: http.IncomingMessage, res: http.ServerResponse, body?: unknown): Promise<void> {
+    if (!this.isAllowedOrigin(req.headers.origin)) {
+      this.sendJson(res, 403, jsonRpcFailure(null, JsonRpcErrorCode.INVALID_REQUEST, 'Origin not allowed'));
+      return;
+    }
+
+    const sessionId = header(req.headers['mcp-session-id']);
+
+    if (req.method === 'DELETE') {
+      const auth = await this.authenticate(req).catch(() => null);
+      if (!auth) {
+        this.sendUnauthorized(res);
+        return;
+      }
+      const session = this.findSession(sessionId, auth);
+      if (session) {
+        this.endSession(session);
+        this.sessions.delete(session.id);
+      }
+      res.writeHead(session ? 200 : 404).end();
+      return;
+    }
+
+    if (req.method === 'GET' && String(req.headers.accept ?? '').includes('text/event-stream')) {
+      await this.openNotificationStream(req, res, sessionId);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+      return;
+    }
+
+    let payload = body;
+    if (payload === undefined) {
+      try {
+        payload = JSON.parse(await readBody(req));
+      } catch (error) {
+        this.sendJson(res, 400, jsonRpcParseError((error as Error).message));
+        return;
+      }
+    }
+
+    const messages: unknown[] = Array.isArray(payload) ? payload : [payload];
+    if (messages.length === 0) {
+      this.sendJson(res, 400, jsonRpcFailure(null, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request: empty batch'));
+      return;
+    }
+
+    const auth = await this.authenticate(req).catch(() => null);
+    if (!auth) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    let session: McpSession | undefined;
+    if (messages.some(message => (message as JsonRpcRequest)?.method === 'initialize')) {
+      session = { id: randomUUID(), subscriptions: new Map(), userId: auth.userId, lastSeen: Date.now() };
+      this.sessions.set(session.id, session);
+    } else if (!sessionId) {
+      this.sendJson(res, 400, jsonRpcFailure(null, JsonRpcErrorCode.INVALID_REQUEST, 'Missing Mcp-Session-Id header'));
+      return;
+    } else {
+      session = this.findSession(sessionId, auth);
+      if (!session) {
+        this.sendJson(res, 404, jsonRpcFailure(null, JsonRpcErrorCode.INVALID_REQUEST, 'Unknown session'));
+        return;
+      }
+    }
+
+    const closed = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        closed.abort();
+      }
+    });
+
+    const wantsProgress = messages.some(message => {
+      const request = message as JsonRpcRequest;
+      return request?.method === 'tools/call' &&
+        (request.params as Record<string, any> | undefined)?._meta?.progressToken !== undefined;
+    });
+
+    // Progress needs a stream; otherwise answer with plain JSON
+    if (wantsProgress && String(req.headers.accept ?? '').includes('text/event-stream')) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Mcp-Session-Id': session.id
+      });
+      const send = (message: McpNotification | JsonRpcResponse) => {
+        if (!res.writableEnded) {
+          res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+        }
+      };
+
+      await Promise.all(messages.map(async message => {
+        const response = await this.handleMessage(message, { session: session!, auth, notify: send, signal: closed.signal });
+        if (response) {
+          send(response);
+        }
+      }));
+      res.end();
+      return;
+    }
+
+    const responses = (await Promise.all(messages.map(message =>
+      this.handleMessage(message, { session: session!, auth, notify: () => {}, signal: closed.signal })
+    ))).filter((response): response is JsonRpcResponse => response !== undefined);
+
+    res.setHeader('Mcp-Session-Id', session.id);
+    if (responses.length === 0) {
+      res.writeHead(202).end();
+      return;
+    }
+    this.sendJson(res, 200, Array.isArray(payload) ? responses : responses[0]);
+  }
+
+  /**
+   * Auth context of a message (resolved by the transport beforehand)
+   */
+  protected async extractAuthContext(context: McpMessageContext): Promise<AuthContext | null> {
+    return context.auth;
+  }
+
+  /**
+   * Authenticate an HTTP request from its bearer token
+   */
+  protected async authenticate(req: http.IncomingMessage): Promise<AuthContext | null> {
+    const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+    const token = match?.[1];
+
+    if (token && this.options.validateAuthToken) {
+      return await this.options.validateAuthToken(token);
+    }
+
+    // Development mode: allow all operations
+    if (this.config.devMode) {
+      return {
+        userId: token ?? 'dev-user',
+        sessionId: `mcp-session-${Date.now()}`,
+        capabilities: ['*']
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Serve newline-delimited JSON-RPC on the configured streams
+   */
+  private startStdio(): void {
+    const output = this.options.outputStream ?? process.stdout;
+    const write = (message: unknown) => output.write(JSON.stringify(message) + '\n');
+    const session: McpSession = { id: 'stdio', subscriptions: new Map(), notify: write };
+
+    this.rl = readline.createInterface({
+      input: this.options.inputStream ?? process.stdin,
+      terminal: false
+    });
+
+    this.rl.on('line', async (line) => {
+      if (!line.trim()) {
+        return;
+      }
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(line);
+      } catch (error) {
+        write(jsonRpcParseError((error as Error).message));
+        return;
+      }
+
+      const auth = await (this.stdioAuth ??= this.resolveStdioAuth());
+      const context: McpMessageContext = { session, auth, notify: write };
+
+      if (!Array.isArray(payload)) {
+        const response = await this.handleMessage(payload, context);
+        if (response) {
+          write(response);
+        }
+        return;
+      }
+
+      if (payload.length === 0) {
+        write(jsonRpcFailure(null, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request: empty batch'));
+        return;
+      }
+
+      const responses = (await Promise.all(payload.map(message => this.handleMessage(message, context))))
+        .filter((response): response is JsonRpcResponse => response !== undefined);
+      if (responses.length > 0) {
+        write(responses);
+      }
+    });
+
+    this.rl.on('close', () => {
+      this.cancelAllRequests('Input closed');
+      this.endSession(session);
+    });
+  }
+
+  /**
+   * Auth context of the stdio client
+   */
+  private async resolveStdioAuth(): Promise<AuthContext | null> {
+    if (this.options.getAuthContext) {
+      return await this.options.getAuthContext();
+    }
+
+    // Development mode: allow all operations
+    if (this.config.devMode) {
+      return {
+        userId: 'dev-user',
+        sessionId: `mcp-session-${Date.now()}`,
+        capabilities: ['*']
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Handle one JSON-RPC message
+   *
+   * @returns Response, or undefined for notifications and client responses
+   */
+  private async handleMessage(entry: unknown, context: McpMessageContext): Promise<JsonRpcResponse | undefined> {
+    const message = entry as Partial<JsonRpcRequest> & { result?: unknown; error?: unknown };
+    const id = isValidId(message?.id) ? message.id! : null;
+
+    if (typeof message !== 'object' || message === null || message.jsonrpc !== '2.0') {
+      return jsonRpcFailure(id, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request');
+    }
+
+    // Responses to server requests (none are sent)
+    if (message.method === undefined && ('result' in message || 'error' in message)) {
+      return undefined;
+    }
+
+    if (typeof message.method !== 'string' || (message.id !== undefined && !isValidId(message.id))) {
+      return jsonRpcFailure(id, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request');
+    }
+
+    const notification = message.id === undefined;
+    const params = (typeof message.params === 'object' && message.params !== null ? message.params : {}) as Record<string, any>;
+
+    switch (message.method) {
+      case 'initialize':
+        context.session.protocolVersion = negotiateProtocolVersion(params.protocolVersion);
+        return {
+          jsonrpc: '2.0',
+          result: {
+            protocolVersion: context.session.protocolVersion,
+            capabilities: {
+              tools: { listChanged: false },
+              ...(this.resources.length > 0 && { resources: { subscribe: true, listChanged: false } })
+            },
+            serverInfo: this.serverInfo,
+            ...(this.options.instructions && { instructions: this.options.instructions })
+          },
+          id
+        };
+
+      case 'ping':
+        return { jsonrpc: '2.0', result: {}, id };
+
+      case 'tools/list': {
+        if (!context.auth) {
+          return { jsonrpc: '2.0', error: toJsonRpcError(errorResponse('UNAUTHORIZED', 'Authentication required')), id };
+        }
+
+        const tools = [...mcpToolNames(this.registry.list())]
+          .filter(([, operation]) => canListTool(operation, context.auth!))
+          .map(([name, operation]) => toMcpTool(name, operation));
+        return { jsonrpc: '2.0', result: { tools }, id };
+      }
+
+      case 'tools/call': {
+        const response = await this.callTool(params, notification ? undefined : id, context);
+        return notification ? undefined : response;
+      }
+
+      case 'resources/list':
+      case 'resources/templates/list':
+      case 'resources/read':
+      case 'resources/subscribe':
+      case 'resources/unsubscribe': {
+        if (!context.auth) {
+          return { jsonrpc: '2.0', error: toJsonRpcError(errorResponse('UNAUTHORIZED', 'Authentication required')), id };
+        }
+
+        try {
+          const result = await this.handleResourceMethod(message.method, params, context.session, context.auth);
+          return notification ? undefined : { jsonrpc: '2.0', result, id };
+        } catch (err) {
+          return notification ? undefined : { jsonrpc: '2.0', error: toJsonRpcError(this.formatError(err)), id };
+        }
+      }
+
+      case 'notifications/cancelled':
+        if (isValidId(params.requestId)) {
+          this.cancelRequest(this.requestKey(context.session, params.requestId)!, params.reason);
+        }
+        return undefined;
+
+      default:
+        // Other notifications (e.g. notifications/initialized) need no action
+        return notification
+          ? undefined
+          : jsonRpcFailure(id, JsonRpcErrorCode.METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+    }
+  }
+
+  /**
+   * Invoke the operation behind a tool
+   */
+  private async callTool(
+    params: Record<string, any>,
+    id: JsonRpcId | undefined,
+    context: McpMessageContext
+  ): Promise<JsonRpcResponse> {
+    const operation = mcpToolNames(this.registry.list()).get(params.name);
+    if (!operation) {
+      return jsonRpcFailure(id ?? null, JsonRpcErrorCode.INVALID_PARAMS, `Unknown tool: ${params.name}`);
+    }
+
+    let response: OperationResponse<any> = await this.invokeOperation(
+      operation.operation,
+      params.arguments ?? {},
+      context,
+      { requestId: this.requestKey(context.session, id), signal: context.signal }
+    );
+
+    if (response.success && isAsyncIterable(response.result)) {
+      response = await this.collectProgress(response.result, params._meta?.progressToken, context);
+    }
+
+    if (!response.success && !isMcpToolError(response.error.code)) {
+      return { jsonrpc: '2.0', error: toJsonRpcError(response), id: id ?? null };
+    }
+    return { jsonrpc: '2.0', result: toMcpToolResult(response), id: id ?? null };
+  }
+
+  /**
+   * Handle a resources/* request
+   *
+   * @throws NotFoundError for URIs no source serves, ForbiddenError without
+   * the source's capability
+   */
+  private async handleResourceMethod(
+    method: string,
+    params: Record<string, any>,
+    session: McpSession,
+    auth: AuthContext
+  ): Promise<Record<string, unknown>> {
+    if (method === 'resources/templates/list') {
+      return { resourceTemplates: this.resources.map(source => source.template) };
+    }
+
+    if (method === 'resources/list') {
+      const lists = await Promise.all(this.resources.map(source => source.list?.() ?? []));
+      const resources = lists.flat().filter((resource: McpResource) => {
+        const resolved = this.resolveResource(resource.uri);
+        return resolved !== undefined && this.canAccessResource(resolved, auth);
+      });
+      return { resources };
+    }
+
+    if (typeof params.uri !== 'string') {
+      throw new ValidationError('uri is required');
+    }
+
+    const uri: string = params.uri;
+    if (method === 'resources/unsubscribe') {
+      session.subscriptions.get(uri)?.();
+      session.subscriptions.delete(uri);
+      return {};
+    }
+
+    const resolved = this.resolveResource(uri);
+    if (!resolved) {
+      throw new NotFoundError('Resource', uri);
+    }
+    if (!this.canAccessResource(resolved, auth)) {
+      throw new ForbiddenError(`Missing capability: ${resolved.source.capability!(resolved.params)}`, { uri });
+    }
+
+    const { source, params: variables } = resolved;
+    if (method === 'resources/read') {
+      return { contents: toResourceContents(uri, await source.read(variables), source.template.mimeType) };
+    }
+
+    if (!source.watch) {
+      throw new ValidationError(`Resource does not support subscriptions: ${uri}`, { uri });
+    }
+    if (!session.subscriptions.has(uri)) {
+      session.subscriptions.set(uri, source.watch(variables, () => session.notify?.({
+        jsonrpc: '2.0',
+        method: 'notifications/resources/updated',
+        params: { uri }
+      })));
+    }
+    return {};
+  }
+
+  /**
+   * Find the source serving a URI (first matching template)
+   */
+  private resolveResource(uri: string): ResolvedResource | undefined {
+    for (const source of this.resources) {
+      const params = matchUriTemplate(source.template.uriTemplate, uri);
+      if (params) {
+        return { source, params };
+      }
+    }
+    return undefined;
+  }
+
+  private canAccessResource({ source, params }: ResolvedResource, auth: AuthContext): boolean {
+    return !source.capability || hasCapability(auth, source.capability(params));
+  }
+
+  /**
+   * Serve the SSE stream of an HTTP session (GET), which carries resource
+   * update notifications until the client disconnects
+   */
+  private async openNotificationStream(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    sessionId: string | undefined
+  ): Promise<void> {
+    const auth = await this.authenticate(req).catch(() => null);
+    if (!auth) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    const session = this.findSession(sessionId, auth);
+    if (!session) {
+      this.sendJson(res, sessionId ? 404 : 400,
+        jsonRpcFailure(null, JsonRpcErrorCode.INVALID_REQUEST, sessionId ? 'Unknown session' : 'Missing Mcp-Session-Id header'));
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Mcp-Session-Id': session.id
+    });
+    res.flushHeaders();
+
+    const send = (notification: McpNotification) => {
+      if (!res.writableEnded) {
+        res.write(`event: message\ndata: ${JSON.stringify(notification)}\n\n`);
+      }
+    };
+    session.notify = send;
+    res.on('close', () => {
+      if (session.notify === send) {
+        session.notify = undefined;
+        session.lastSeen = Date.now();
+      }
+    });
+  }
+
+  /**
+   * Look up an HTTP session of the authenticated user and mark it as used
+   *
+   * Sessions of other users are not found, like expired ones.
+   */
+  private findSession(sessionId: string | undefined, auth: AuthContext): McpSession | undefined {
+    this.expireSessions();
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || session.userId !== auth.userId) {
+      return undefined;
+    }
+    session.lastSeen = Date.now();
+    return session;
+  }
+
+  /**
+   * End HTTP sessions idle for longer than the session timeout
+   */
+  private expireSessions(now = Date.now()): void {
+    const timeout = this.options.sessionTimeout ?? DEFAULT_SESSION_TIMEOUT;
+    for (const session of this.sessions.values()) {
+      if (!session.notify && session.lastSeen !== undefined && now - session.lastSeen > timeout) {
+        this.endSession(session);
+        this.sessions.delete(session.id);
+      }
+    }
+  }
+
+  /**
+   * Answer an unauthenticated HTTP request
+   */
+  private sendUnauthorized(res: http.ServerResponse): void {
+    const unauthorized = toJsonRpcError(errorResponse('UNAUTHORIZED', 'Authentication required'));
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    this.sendJson(res, 401, { jsonrpc: '2.0', error: unauthorized, id: null });
+  }
+
+  /**
+   * Stop a session's resource subscriptions
+   */
+  private endSession(session: McpSession): void {
+    for (const unsubscribe of session.subscriptions.values()) {
+      unsubscribe();
+    }
+    session.subscriptions.clear();
+    session.notify = undefined;
+  }
+
+  /**
+   * Collect a stream, reporting each chunk as progress if requested
+   */
+  private async collectProgress(
+    stream: AsyncIterable<unknown>,
+    progressToken: unknown,
+    context: McpMessageContext
+  ): Promise<OperationResponse<unknown[]>> {
+    const chunks: unknown[] = [];
+
+    try {
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+        if (typeof progressToken === 'string' || typeof progressToken === 'number') {
+          context.notify({
+            jsonrpc: '2.0',
+            method: 'notifications/progress',
+            params: { progressToken, progress: chunks.length, message: JSON.stringify(chunk) }
+          });
+        }
+      }
+    } catch (err) {
+      return this.formatError(err);
+    }
+
+    return { success: true, result: chunks };
+  }
+
+  /**
+   * Request ID tracking a client request (unique per session)
+   */
+  private requestKey(session: McpSession, id: JsonRpcId | undefined): string | undefined {
+    return id === undefined || id === null ? undefined : `mcp-${session.id}-${id}`;
+  }
+
+  private isAllowedOrigin(origin: string | undefined): boolean {
+    if (!origin || this.options.allowedOrigins?.includes(origin)) {
+      return true;
+    }
+
+    try {
+      return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(origin).hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+/**
+ * Read a request body as text
+ */
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new Error(`Body exceeds ${MAX_BODY_SIZE} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function header(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function isValidId(id: unknown): id is JsonRpcId {
+  return typeof id === 'string' || typeof id === 'number' || id === null;
+}
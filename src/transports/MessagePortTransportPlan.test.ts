@@ -0,0 +1,92 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from '../PlanRegistry.js';
+import { MessagePortTransportPlan } from './MessagePortTransportPlan.js';
+import { MessagePortPlanClient } from '../client/OnePlanClient.js';
+import { createTestRegistry } from '../test-helpers.js';
+import { MessageChannel } from 'worker_threads';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('messageport transport', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  it('should invoke operations and transfer buffers', async () => {
+    const buffer = new ArrayBuffer(8);
+    registry.register({
+      domain: 'blob',
+      method: 'get',
+      plan: { get: async () => ({ data: buffer }) },
+      version: '1.0.0'
+    });
+
+    const { port1, port2 } = new MessageChannel();
+    const transport = new MessagePortTransportPlan(registry, { port: port1, devMode: true });
+    await transport.start();
+    const client = new MessagePortPlanClient(port2);
+
+    try {
+      expect(await client.invoke('test:echo', { a: 1 })).toEqual({ echoed: { a: 1 } });
+
+      const result = await client.invoke('blob:get');
+      expect(result.data.byteLength).toBe(8);
+      expect(buffer.byteLength).toBe(0);
+
+      await expect(client.invoke('test:missing')).rejects.toMatchObject({ code: 'UNKNOWN_OPERATION' });
+      expect(await client.listPlans()).toEqual(['test', 'blob']);
+    } finally {
+      await client.close();
+      await transport.stop();
+      port1.close();
+    }
+  });
+
+  it('should stream chunks and cancel when the consumer stops', async () => {
+    let cancelled = false;
+    registry.register({
+      domain: 'test',
+      method: 'count',
+      plan: {
+        count: async function* (_request: any, context: any) {
+          for (let i = 0; ; i++) {
+            if (context.signal.aborted) {
+              cancelled = true;
+              return;
+            }
+            yield i;
+            await new Promise(resolve => setTimeout(resolve, 1));
+          }
+        }
+      },
+      version: '1.0.0',
+      streaming: true
+    });
+
+    const { port1, port2 } = new MessageChannel();
+    const transport = new MessagePortTransportPlan(registry, { port: port1, devMode: true });
+    await transport.start();
+    const client = new MessagePortPlanClient(port2);
+
+    try {
+      const chunks: number[] = [];
+      for await (const chunk of await client.invoke<AsyncIterable<number>>('test:count')) {
+        chunks.push(chunk);
+        if (chunks.length === 3) {
+          break;
+        }
+      }
+
+      expect(chunks).toEqual([0, 1, 2]);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(cancelled).toBe(true);
+    } finally {
+      await client.close();
+      await transport.stop();
+      port1.close();
+    }
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * MessagePortTransportPlan - MessagePort/Worker transport implementation
+ *
+ * Serves the plan registry over any MessagePort-like channel, e.g. from a
+ * worker running ONE.core to the UI thread (see MessagePortPlanClient):
+ *
+ * ```typescript
+ * // worker.ts (Node worker_threads)
+ * const transport = new MessagePortTransportPlan(registry, { port: parentPort! });
+ * await transport.start();
+ *
+ * // worker.ts (Web Worker)
+ * const transport = new MessagePortTransportPlan(registry, { port: self });
+ * ```
+ *
+ * Key features:
+ * - Structured clone instead of JSON; ArrayBuffers in results are
+ *   transferred, not copied (see messageport.ts)
+ * - Streams chunks of streaming operations as 'stream' messages
+ * - Cancellation by request ID
+ * - Registry introspection for client discovery
+ */
+
+import { TransportPlan } from '../TransportPlan.js';
+import type { TransportConfig } from '../TransportPlan.js';
+import type { PlanRegistry } from '../PlanRegistry.js';
+import type { AuthContext } from '../types/context.js';
+import { UnauthorizedError, ValidationError } from '../errors.js';
+import { success } from '../types/responses.js';
+import { isAsyncIterable } from '../streaming.js';
+import { collectTransferables, onPortMessage } from '../messageport.js';
+import type {
+  MessagePortLike,
+  PortClientMessage,
+  PortRequestMessage,
+  PortServerMessage
+} from '../messageport.js';
+
+/**
+ * MessagePort transport configuration
+ */
+export interface MessagePortTransportConfig extends TransportConfig {
+  /**
+   * Channel to serve (worker_threads port, Worker, Web Worker scope,
+   * MessageChannel port, BroadcastChannel)
+   */
+  port: MessagePortLike;
+
+  /**
+   * Transfer ArrayBuffers instead of copying them (default: true)
+   *
+   * Disable for channels without transfer support, e.g. BroadcastChannel.
+   */
+  transfer?: boolean;
+
+  /**
+   * Auth context for requests from the channel
+   *
+   * The other end of a port is typically the thread that created the
+   * worker, so the context usually describes the logged-in user of the UI.
+   */
+  getAuthContext?: (message: PortRequestMessage) => Promise<AuthContext | null>;
+}
+
+/**
+ * MessagePort Transport Plan
+ *
+ * Exposes PlanRegistry operations over a MessagePort-like channel.
+ */
+export class MessagePortTransportPlan extends TransportPlan {
+  private port: MessagePortLike;
+  private transfer: boolean;
+  private getAuthContext?: MessagePortTransportConfig['getAuthContext'];
+  private unlisten?: () => void;
+
+  constructor(
+    registry: PlanRegistry,
+    config: MessagePortTransportConfig
+  ) {
+    super(registry, config);
+    this.port = config.port;
+    this.transfer = config.transfer ?? true;
+    this.getAuthContext = config.getAuthContext;
+  }
+
+  /**
+   * Start serving requests from the port
+   */
+  async start(): Promise<void> {
+    if (this.unlisten) {
+      throw new Error('MessagePort transport already running');
+    }
+
+    this.unlisten = onPortMessage(this.port, (data) => {
+      void this.handleMessage(data);
+    });
+  }
+
+  /**
+   * Stop serving requests and cancel in-flight ones
+   *
+   * The port itself stays open; it belongs to the caller.
+   */
+  async stop(): Promise<void> {
+    if (!this.unlisten) {
+      return;
+    }
+
+    this.unlisten();
+    this.unlisten = undefined;
+    this.cancelAllRequests('Transport stopped');
+  }
+
+  /**
+   * Check if transport is running
+   */
+  isRunning(): boolean {
+    return !!this.unlisten;
+  }
+
+  /**
+   * Extract auth context for a request message
+   */
+  protected async extractAuthContext(message: PortRequestMessage): Promise<AuthContext | null> {
+    if (this.getAuthContext) {
+      return await this.getAuthContext(message);
+    }
+
+    // Development mode: allow all operations
+    if (this.config.devMode) {
+      return {
+        userId: 'dev-user',
+        sessionId: 'dev-session',
+        capabilities: ['*']
+      };
+    }
+
+    throw new UnauthorizedError('Authentication not configured');
+  }
+
+  /**
+   * Process one message from the port
+   *
+   * Messages that are not client messages of this protocol are ignored,
+   * so the port can be shared with other traffic.
+   */
+  private async handleMessage(data: unknown): Promise<void> {
+    const message = data as PortClientMessage;
+    if (typeof message !== 'object' || message === null || typeof message.id !== 'string') {
+      return;
+    }
+
+    switch (message.type) {
+      case 'request':
+        await this.handleRequest(message);
+        return;
+      case 'cancel':
+        this.cancelRequest(message.id);
+        return;
+      case 'introspect':
+        this.post({ type: 'response', id: message.id, response: success(this.registry.list()) });
+        return;
+    }
+  }
+
+  /**
+   * Invoke an operation and post its response or stream frames
+   */
+  private async handleRequest(message: PortRequestMessage): Promise<void> {
+    const { id } = message;
+
+    if (typeof message.operation !== 'string') {
+      this.post({
+        type: 'response',
+        id,
+        response: this.formatError(new ValidationError('Missing or invalid "operation" field'))
+      });
+      return;
+    }
+
+    const response = await this.invokeOperation(message.operation, message.request, message, {
+      requestId: id,
+      versionRange: message.version,
+      idempotencyKey: message.idempotencyKey
+    });
+
+    if (response.success && isAsyncIterable(response.result)) {
+      await this.forwardStream(
+        response.result,
+        frame => this.post({ type: 'stream', id, frame }),
+        () => this.isRunning()
+      );
+      return;
+    }
+
+    this.post({ type: 'response', id, response });
+  }
+
+  /**
+   * Post a message, transferring its ArrayBuffers if enabled
+   */
+  private post(message: PortServerMessage): void {
+    const transfer = this.transfer ? collectTransferables(message) : [];
+    if (transfer.length > 0) {
+      this.port.postMessage(message, transfer);
+    } else {
+      this.port.postMessage(message);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from '../PlanRegistry.js';
+import { SocketTransportPlan } from './SocketTransportPlan.js';
+import { createTestRegistry } from '../test-helpers.js';
+import { connect } from 'net';
+import { statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('socket transport', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  const path = join(tmpdir(), `refinio-test-${process.pid}.sock`);
+
+  it('should serve owner-only sockets with newline framing', async () => {
+    const transport = new SocketTransportPlan(registry, { path });
+    await transport.start();
+
+    try {
+      expect(statSync(path).mode & 0o777).toBe(0o600);
+
+      const socket = connect(path);
+      const lines: string[] = [];
+      let buffered = '';
+      const received = new Promise<void>(resolve => socket.on('data', (data: Buffer) => {
+        buffered += data.toString();
+        lines.push(...buffered.split('\n').slice(0, -1));
+        buffered = buffered.slice(buffered.lastIndexOf('\n') + 1);
+        if (lines.length === 2) {
+          resolve();
+        }
+      }));
+
+      socket.write('{"operation":"test:echo","request":{"a":1},"requestId":"1"}\n');
+      socket.write('{"operation":"test:missing","request":{},"requestId":"2"}\n');
+      await received;
+
+      const responses = lines.map(line => JSON.parse(line));
+      expect(responses).toContainEqual({ success: true, result: { echoed: { a: 1 } }, requestId: '1' });
+      expect(responses).toContainEqual(expect.objectContaining({
+        success: false, requestId: '2', error: expect.objectContaining({ code: 'UNKNOWN_OPERATION' })
+      }));
+      socket.end();
+    } finally {
+      await transport.stop();
+    }
+  });
+
+  it('should decode characters split across chunks', async () => {
+    const transport = new SocketTransportPlan(registry, { path });
+    await transport.start();
+
+    try {
+      const socket = connect(path);
+      let buffered = '';
+      const received = new Promise<string>(resolve => socket.on('data', (data: Buffer) => {
+        buffered += data.toString();
+        if (buffered.includes('\n')) {
+          resolve(buffered.slice(0, buffered.indexOf('\n')));
+        }
+      }));
+
+      const frame = Buffer.from('{"operation":"test:echo","request":"café","requestId":"1"}\n');
+      const split = frame.indexOf('é') + 1;
+      socket.write(frame.subarray(0, split));
+      await new Promise(resolve => setTimeout(resolve, 20));
+      socket.write(frame.subarray(split));
+
+      expect(JSON.parse(await received)).toEqual({ success: true, result: { echoed: 'café' }, requestId: '1' });
+      socket.end();
+    } finally {
+      await transport.stop();
+    }
+  });
+
+  it('should speak length-prefixed JSON-RPC and reject unknown peers', async () => {
+    const transport = new SocketTransportPlan(registry, {
+      path,
+      framing: 'length-prefixed',
+      protocol: 'jsonrpc',
+      mode: 0o660
+    });
+    await transport.start();
+
+    try {
+      const socket = connect(path);
+      const response = new Promise<any>(resolve => socket.once('data', (data: Buffer) => {
+        resolve(JSON.parse(data.subarray(4, 4 + data.readUInt32BE(0)).toString()));
+      }));
+
+      const body = Buffer.from(JSON.stringify({ jsonrpc: '2.0', id: 7, method: 'test:echo' }));
+      const length = Buffer.alloc(4);
+      length.writeUInt32BE(body.length);
+      socket.write(Buffer.concat([length, body]));
+
+      expect(await response).toMatchObject({ id: 7, error: { data: { code: 'UNAUTHORIZED' } } });
+      socket.end();
+    } finally {
+      await transport.stop();
+    }
+  });
+});
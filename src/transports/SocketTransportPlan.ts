@@ -0,0 +1,536 @@
+/**
+ * SocketTransportPlan - Unix domain socket / named pipe transport
+ *
+ * Serves local daemons without opening a TCP port: several local CLIs and
+ * tools can share one running instance through a socket file.
+ *
+ * Protocol: the stdio JSONL message shapes, one message per frame
+ * - Request: {"operation":"chat:exportHistory","request":{...},"requestId":"1","version":"^1.0.0"}
+ * - Response: {"success":true,"result":{...},"requestId":"1"}
+ * - Streaming: {"success":true,"chunk":{...},"requestId":"1"} ... {"success":true,"done":true,"chunks":3,"requestId":"1"}
+ * - Cancel: {"cancel":"1"}
+ * - With protocol: 'jsonrpc', JSON-RPC 2.0 requests and batches instead
+ *
+ * Framing:
+ * - 'ndjson': one JSON document per line
+ * - 'length-prefixed': 4-byte big-endian byte length, then the UTF-8 JSON
+ *
+ * Access control:
+ * - The socket file is created with `mode` (default 0o600), so only its
+ *   owner (and root) can connect
+ * - Peer credentials feed extractAuthContext. Node has no SO_PEERCRED API,
+ *   so by default the peer is known only when the mode admits the owner
+ *   alone; supply `getPeerCredentials` (e.g. backed by a native addon) for
+ *   group/world accessible sockets
+ *
+ * Usage:
+ * ```typescript
+ * const transport = new SocketTransportPlan(registry, { path: '/run/user/1000/refinio.sock' });
+ * await transport.start();
+ * ```
+ */
+
+import * as net from 'net';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StringDecoder } from 'string_decoder';
+import { TransportPlan } from '../TransportPlan.js';
+import type { TransportConfig } from '../TransportPlan.js';
+import type { PlanRegistry } from '../PlanRegistry.js';
+import type { AuthContext } from '../types/context.js';
+import type { OperationResponse } from '../types/responses.js';
+import { NotFoundError, ValidationError } from '../errors.js';
+import { isAsyncIterable } from '../streaming.js';
+import { handleJsonRpc, jsonRpcParseError } from '../jsonrpc.js';
+
+/**
+ * Credentials of the process on the other end of a connection
+ */
+export interface PeerCredentials {
+  uid: number;
+  gid?: number;
+  pid?: number;
+}
+
+/**
+ * Message framing on the socket
+ */
+export type SocketFraming = 'ndjson' | 'length-prefixed';
+
+/**
+ * Socket transport configuration
+ */
+export interface SocketTransportConfig extends TransportConfig {
+  /**
+   * Socket path, or `\\.\pipe\<name>` for a Windows named pipe
+   * (default: refinio-api.sock in the temp directory)
+   */
+  path?: string;
+
+  /**
+   * Message framing (default: 'ndjson')
+   */
+  framing?: SocketFraming;
+
+  /**
+   * Message protocol (default: 'jsonl', the stdio message shapes)
+   */
+  protocol?: 'jsonl' | 'jsonrpc';
+
+  /**
+   * File mode of the socket (default: 0o600, ignored for named pipes)
+   */
+  mode?: number;
+
+  /**
+   * Largest accepted frame (bytes, default: 16 MiB)
+   */
+  maxFrameSize?: number;
+
+  /**
+   * Look up the credentials of a connected peer
+   *
+   * Default: the server's own uid if `mode` grants no group or other
+   * access, otherwise unknown (null).
+   */
+  getPeerCredentials?: (socket: net.Socket) => Promise<PeerCredentials | null>;
+
+  /**
+   * Map peer credentials to an auth context
+   *
+   * Default: peers running as the server's user get full access, all
+   * others are rejected.
+   */
+  authenticate?: (peer: PeerCredentials | null) => Promise<AuthContext | null>;
+}
+
+/**
+ * Request message (protocol 'jsonl')
+ */
+export interface SocketRequest {
+  /** Operation name (e.g. "chat:exportHistory") */
+  operation: string;
+
+  /** Request parameters */
+  request: any;
+
+  /** Request ID echoed in the response and stream frames (generated if absent) */
+  requestId?: string;
+
+  /** Optional version range (e.g. "^1.0.0", default: latest) */
+  version?: string;
+
+  /** Optional idempotency key - retries with the same key replay the first result */
+  idempotencyKey?: string;
+}
+
+/**
+ * Server-side state of one client connection
+ */
+interface Connection {
+  id: string;
+  socket: net.Socket;
+
+  /**
+   * Resolved once when the connection is accepted
+   */
+  auth: Promise<AuthContext | null>;
+
+  /**
+   * Fires when the connection closes, cancelling its requests
+   */
+  closed: AbortController;
+}
+
+/**
+ * Socket Transport Plan
+ *
+ * Exposes PlanRegistry operations on a Unix domain socket or named pipe.
+ */
+export class SocketTransportPlan extends TransportPlan {
+  private path: string;
+  private framing: SocketFraming;
+  private protocol: 'jsonl' | 'jsonrpc';
+  private mode: number;
+  private maxFrameSize: number;
+  private getPeerCredentials?: SocketTransportConfig['getPeerCredentials'];
+  private authenticatePeer?: SocketTransportConfig['authenticate'];
+  private server?: net.Server;
+  private connections = new Set<Connection>();
+  private nextConnectionId = 0;
+
+  /**
+   * Connections are only accepted once the socket has its final mode
+   */
+  private ready = false;
+
+  constructor(
+    registry: PlanRegistry,
+    config: SocketTransportConfig = {}
+  ) {
+    super(registry, config);
+    this.path = config.path || join(tmpdir(), 'refinio-api.sock');
+    this.framing = config.framing ?? 'ndjson';
+    this.protocol = config.protocol ?? 'jsonl';
+    this.mode = config.mode ?? 0o600;
+    this.maxFrameSize = config.maxFrameSize ?? 16 * 1024 * 1024;
+    this.getPeerCredentials = config.getPeerCredentials;
+    this.authenticatePeer = config.authenticate;
+  }
+
+  /**
+   * Start listening on the socket
+   *
+   * A stale socket file left by a crashed instance is removed; a socket
+   * another instance still listens on is not.
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      throw new Error('Socket transport already running');
+    }
+
+    if (!this.isNamedPipe()) {
+      await this.removeStaleSocket();
+    }
+
+    const server = net.createServer(socket => this.accept(socket));
+    this.server = server;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(this.path, () => {
+          server.removeListener('error', reject);
+          resolve();
+        });
+      });
+
+      if (!this.isNamedPipe()) {
+        await fs.chmod(this.path, this.mode);
+      }
+    } catch (error) {
+      this.server = undefined;
+      server.close();
+      throw error;
+    }
+
+    this.ready = true;
+    console.log(`Socket transport listening on ${this.path}`);
+  }
+
+  /**
+   * Stop listening, cancel in-flight requests and close all connections
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = undefined;
+    this.ready = false;
+
+    for (const connection of this.connections) {
+      connection.socket.destroy();
+      this.disconnect(connection);
+    }
+
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    if (!this.isNamedPipe()) {
+      await fs.rm(this.path, { force: true });
+    }
+    console.log('Socket transport stopped');
+  }
+
+  /**
+   * Check if transport is running
+   */
+  isRunning(): boolean {
+    return !!this.server;
+  }
+
+  /**
+   * Auth context of a connection (resolved once, on connect)
+   */
+  protected async extractAuthContext(connection: Connection): Promise<AuthContext | null> {
+    return connection.auth;
+  }
+
+  /**
+   * Authenticate a new connection from its peer credentials
+   */
+  protected async authenticate(socket: net.Socket): Promise<AuthContext | null> {
+    const peer = this.getPeerCredentials
+      ? await this.getPeerCredentials(socket)
+      : this.ownerOnly() ? { uid: process.getuid!() } : null;
+
+    if (this.authenticatePeer) {
+      return await this.authenticatePeer(peer);
+    }
+
+    if (!peer || peer.uid !== process.getuid?.()) {
+      return null;
+    }
+
+    return {
+      userId: `uid:${peer.uid}`,
+      sessionId: `socket-session-${Date.now()}`,
+      capabilities: ['*']
+    };
+  }
+
+  /**
+   * Whether the socket mode admits the owner only
+   */
+  private ownerOnly(): boolean {
+    return !this.isNamedPipe() && typeof process.getuid === 'function' && (this.mode & 0o077) === 0;
+  }
+
+  private isNamedPipe(): boolean {
+    return this.path.startsWith('\\\\.\\pipe\\') || this.path.startsWith('\\\\?\\pipe\\');
+  }
+
+  /**
+   * Remove a socket file nobody listens on any more
+   *
+   * @throws Error if another instance is listening on the socket
+   */
+  private async removeStaleSocket(): Promise<void> {
+    const inUse = await new Promise<boolean>(resolve => {
+      const probe = net.connect(this.path);
+      probe.once('connect', () => {
+        probe.destroy();
+        resolve(true);
+      });
+      probe.once('error', () => resolve(false));
+    });
+
+    if (inUse) {
+      throw new Error(`Socket ${this.path} is in use by another instance`);
+    }
+
+    await fs.rm(this.path, { force: true });
+  }
+
+  /**
+   * Set up a new connection
+   */
+  private accept(socket: net.Socket): void {
+    if (!this.ready) {
+      socket.destroy();
+      return;
+    }
+
+    const connection: Connection = {
+      id: `socket-${++this.nextConnectionId}`,
+      socket,
+      auth: this.authenticate(socket).catch(() => null),
+      closed: new AbortController()
+    };
+    this.connections.add(connection);
+
+    const read = this.framing === 'ndjson' ? this.lineReader() : this.lengthPrefixedReader();
+    socket.on('data', (data: Buffer) => {
+      try {
+        for (const message of read(data)) {
+          void this.handleMessage(connection, message);
+        }
+      } catch (error) {
+        void this.write(connection, this.formatError(error)).then(() => socket.destroy());
+      }
+    });
+    socket.on('close', () => this.disconnect(connection));
+    socket.on('error', () => socket.destroy());
+  }
+
+  /**
+   * Clean up a closed connection
+   */
+  private disconnect(connection: Connection): void {
+    if (this.connections.delete(connection)) {
+      connection.closed.abort('Connection closed');
+    }
+  }
+
+  /**
+   * Process one message from a client
+   */
+  private async handleMessage(connection: Connection, raw: string): Promise<void> {
+    if (!raw.trim()) {
+      return;
+    }
+
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      await this.write(connection, this.protocol === 'jsonrpc'
+        ? jsonRpcParseError((error as Error).message)
+        : this.formatError(new ValidationError('Failed to parse JSON message', {
+            error: (error as Error).message
+          })));
+      return;
+    }
+
+    if (this.protocol === 'jsonrpc') {
+      const response = await handleJsonRpc(message, {
+        invoke: call => this.invokeOperation(call.operation, call.request, connection, {
+          requestId: call.id === undefined || call.id === null
+            ? undefined
+            : this.requestKey(connection, String(call.id)),
+          versionRange: call.versionRange,
+          idempotencyKey: call.idempotencyKey,
+          signal: connection.closed.signal
+        }),
+        cancel: id => {
+          if (id !== null) {
+            this.cancelRequest(this.requestKey(connection, String(id)));
+          }
+        }
+      });
+      if (response !== undefined) {
+        await this.write(connection, response);
+      }
+      return;
+    }
+
+    if (typeof message?.cancel === 'string') {
+      if (!this.cancelRequest(this.requestKey(connection, message.cancel))) {
+        await this.write(connection, {
+          ...this.formatError(new NotFoundError('Request', message.cancel)),
+          requestId: message.cancel
+        });
+      }
+      return;
+    }
+
+    await this.handleRequest(connection, message);
+  }
+
+  /**
+   * Invoke an operation and write its response or stream frames
+   */
+  private async handleRequest(connection: Connection, message: SocketRequest): Promise<void> {
+    const requestId = typeof message?.requestId === 'string' ? message.requestId : this.generateRequestId();
+
+    if (!message || typeof message.operation !== 'string') {
+      await this.write(connection, {
+        ...this.formatError(new ValidationError('Missing or invalid "operation" field')),
+        requestId
+      });
+      return;
+    }
+
+    const response: OperationResponse<any> = await this.invokeOperation(
+      message.operation,
+      message.request ?? {},
+      connection,
+      {
+        requestId: this.requestKey(connection, requestId),
+        versionRange: message.version,
+        idempotencyKey: message.idempotencyKey,
+        signal: connection.closed.signal
+      }
+    );
+
+    if (response.success && isAsyncIterable(response.result)) {
+      await this.forwardStream(
+        response.result,
+        frame => this.write(connection, { ...frame, requestId }),
+        () => this.connections.has(connection)
+      );
+      return;
+    }
+
+    await this.write(connection, { ...response, requestId });
+  }
+
+  /**
+   * Write a framed message
+   *
+   * Resolves once the socket accepted it, or after 'drain' if its buffer
+   * is full (backpressure for streams).
+   */
+  private write(connection: Connection, message: object): Promise<void> {
+    const { socket } = connection;
+    if (socket.destroyed) {
+      return Promise.resolve();
+    }
+
+    const json = Buffer.from(JSON.stringify(message), 'utf8');
+    let data: Buffer;
+    if (this.framing === 'ndjson') {
+      data = Buffer.concat([json, Buffer.from('\n')]);
+    } else {
+      data = Buffer.alloc(4 + json.length);
+      data.writeUInt32BE(json.length, 0);
+      json.copy(data, 4);
+    }
+
+    if (socket.write(data)) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => {
+      const done = () => {
+        socket.removeListener('drain', done);
+        socket.removeListener('close', done);
+        resolve();
+      };
+      socket.once('drain', done);
+      socket.once('close', done);
+    });
+  }
+
+  /**
+   * Split incoming data into lines
+   *
+   * The decoder holds back characters split across chunks.
+   */
+  private lineReader(): (data: Buffer) => string[] {
+    const decoder = new StringDecoder('utf8');
+    let buffer = '';
+    return (data) => {
+      buffer += decoder.write(data);
+      const lines = buffer.split('\n');
+      buffer = lines.pop()!;
+      if (buffer.length > this.maxFrameSize) {
+        throw new ValidationError(`Frame exceeds ${this.maxFrameSize} bytes`);
+      }
+      return lines;
+    };
+  }
+
+  /**
+   * Split incoming data into length-prefixed frames
+   */
+  private lengthPrefixedReader(): (data: Buffer) => string[] {
+    let buffer = Buffer.alloc(0);
+    return (data) => {
+      buffer = Buffer.concat([buffer, data]);
+      const frames: string[] = [];
+
+      while (buffer.length >= 4) {
+        const length = buffer.readUInt32BE(0);
+        if (length > this.maxFrameSize) {
+          throw new ValidationError(`Frame exceeds ${this.maxFrameSize} bytes`);
+        }
+        if (buffer.length < 4 + length) {
+          break;
+        }
+
+        frames.push(buffer.subarray(4, 4 + length).toString('utf8'));
+        buffer = buffer.subarray(4 + length);
+      }
+
+      return frames;
+    };
+  }
+
+  /**
+   * Request ID used for tracking, unique across connections
+   */
+  private requestKey(connection: Connection, id: string): string {
+    return `${connection.id}:${id}`;
+  }
+}
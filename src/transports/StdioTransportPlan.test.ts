@@ -0,0 +1,155 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from '../PlanRegistry.js';
+import { StdioTransportPlan, parseStdioArgs } from './StdioTransportPlan.js';
+import { completeReplLine, formatTable, parseShorthand } from '../repl.js';
+import type { OperationMetadata } from '../types/metadata.js';
+import { createTestRegistry } from '../test-helpers.js';
+import { readFileSync, rmSync } from 'fs';
+import { PassThrough } from 'stream';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('StdioTransportPlan', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  describe('stdio repl', () => {
+    it('should parse shorthand, complete and tabulate', () => {
+      expect(parseShorthand(`chat:getHistory topicId=abc limit=20 filter.since="2024-01-01" text='a b'`)).toEqual({
+        operation: 'chat:getHistory',
+        request: { topicId: 'abc', limit: 20, filter: { since: '2024-01-01' }, text: 'a b' }
+      });
+      expect(() => parseShorthand('chat:send oops')).toThrow('expected key=value');
+
+      const operations: Array<Pick<OperationMetadata, 'operation' | 'requestSchema'>> = [{
+        operation: 'chat:send',
+        requestSchema: { type: 'object', properties: { text: { type: 'string' }, topic: { type: 'string' } } }
+      }];
+      expect(completeReplLine('ch', operations, ['.help'])).toEqual([['chat:send'], 'ch']);
+      expect(completeReplLine('.help c', operations, ['.help'])).toEqual([['chat:send'], 'c']);
+      expect(completeReplLine('chat:send text=x t', operations, [])).toEqual([['topic='], 't']);
+
+      expect(formatTable([{ id: 1, name: 'a' }, { id: 22 }])).toBe('id  name\n--  ----\n1   a\n22');
+    });
+
+    it('should run commands, switch identity and persist history', async () => {
+      const historyFile = join(tmpdir(), `refinio-test-history-${process.pid}`);
+      const input = new PassThrough();
+      const output = new PassThrough();
+      const errors = new PassThrough();
+      let printed = '';
+      let logged = '';
+      output.on('data', (data: Buffer) => { printed += data.toString(); });
+      errors.on('data', (data: Buffer) => { logged += data.toString(); });
+
+      const until = async (condition: () => boolean) => {
+        while (!condition()) {
+          await new Promise(resolve => setTimeout(resolve, 5));
+        }
+      };
+
+      const transport = new StdioTransportPlan(registry);
+      await transport.start({
+        repl: true,
+        exitOnEnd: false,
+        historyFile,
+        inputStream: input,
+        outputStream: output,
+        errorStream: errors
+      });
+
+      try {
+        input.write('test:echo a=1\n');
+        await until(() => logged.includes('UNAUTHORIZED'));
+
+        input.write('.auth alice\n.format json\ntest:echo a=1 b.c=x\n');
+        await until(() => printed.includes('\n'));
+        expect(JSON.parse(printed)).toEqual({ echoed: { a: 1, b: { c: 'x' } } });
+
+        input.write('.help test:echo\n');
+        await until(() => logged.includes('Usage: test:echo'));
+
+        expect(readFileSync(historyFile, 'utf8')).toBe('test:echo a=1\n.format json\ntest:echo a=1 b.c=x\n.help test:echo\n');
+      } finally {
+        await transport.stop();
+        rmSync(historyFile, { force: true });
+      }
+    });
+  });
+
+  describe('stdio batches', () => {
+    async function runBatch(lines: string[], config: Record<string, any>) {
+      const input = new PassThrough();
+      const output = new PassThrough();
+      const errors = new PassThrough();
+      let printed = '';
+      let logged = '';
+      output.on('data', (data: Buffer) => { printed += data.toString(); });
+      errors.on('data', (data: Buffer) => { logged += data.toString(); });
+
+      const transport = new StdioTransportPlan(registry);
+      await transport.start({
+        development: true,
+        exitOnEnd: false,
+        ...config,
+        inputStream: input,
+        outputStream: output,
+        errorStream: errors
+      });
+
+      input.end(lines.join('\n') + '\n');
+      while (!logged.includes('Summary')) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      await transport.stop();
+
+      return { responses: printed.trim().split('\n').map(line => JSON.parse(line)), logged, stats: transport.getStats() };
+    }
+
+    it('should run lines concurrently and write output in input order', async () => {
+      let running = 0;
+      let peak = 0;
+      registry.register({
+        domain: 'test',
+        method: 'sleep',
+        plan: {
+          sleep: async (request: any) => {
+            peak = Math.max(peak, ++running);
+            await new Promise(resolve => setTimeout(resolve, request.ms));
+            running--;
+            return request.ms;
+          }
+        },
+        version: '1.0.0'
+      });
+
+      const delays = [30, 1, 20, 5, 1, 10];
+      const { responses, logged } = await runBatch(
+        delays.map((ms, i) => JSON.stringify({ operation: 'test:sleep', request: { ms }, requestId: String(i) })),
+        { concurrency: 3, preserveOrder: true }
+      );
+
+      expect(responses.map(response => response.result)).toEqual(delays);
+      expect(peak).toBe(3);
+      expect(logged).toContain('Summary: 6 processed, 0 errors, 0 skipped');
+    });
+
+    it('should stop at the first error with fail-fast', async () => {
+      const line = (operation: string) => JSON.stringify({ operation, request: {} });
+      const { responses, stats } = await runBatch(
+        [line('test:echo'), line('test:missing'), line('test:echo'), line('test:echo')],
+        parseStdioArgs(['--concurrency', '1', '--fail-fast'])
+      );
+
+      expect(responses).toHaveLength(2);
+      expect(responses[1].error.code).toBe('UNKNOWN_OPERATION');
+      expect(stats).toEqual({ processed: 1, errors: 1, skipped: 2 });
+    });
+  });
+});
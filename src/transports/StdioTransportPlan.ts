@@ -5,8 +5,34 @@
  * Enables Unix-style command-line usage with pipes.
  *
  * Protocol: Line-delimited JSON (JSONL)
- * - Input: {"operation":"chat:exportHistory","request":{...}}
+ * - Input: {"operation":"chat:exportHistory","request":{...},"version":"^1.0.0"}
+ *   (optional "idempotencyKey" makes retries replay the first result)
  * - Output: {"success":true,"result":{...}}
+ * - Streaming output: one line per chunk, tagged with the requestId
+ *   {"success":true,"chunk":{...},"requestId":"..."}
+ *   {"success":true,"done":true,"chunks":3,"requestId":"..."}
+ * - Cancel an in-flight request: {"cancel":"<requestId>"}
+ *
+ * JSON-RPC 2.0 mode (protocol: 'jsonrpc'): one request or batch per line,
+ * see jsonrpc.ts; cancel with {"jsonrpc":"2.0","method":"$/cancelRequest","params":{"id":...}}
+ *
+ * REPL mode (repl: true): shorthand commands for humans, see repl.ts
+ * - `chat:getHistory topicId=abc limit=20` (JSON lines still work)
+ * - Tab completes operation names and request properties
+ * - History persists in `historyFile` across sessions
+ * - `.help [operation]`, `.auth [token|off]`, `.format [pretty|table|json]`, `.exit`
+ * - Ctrl+C cancels running operations, or exits when idle
+ *
+ * Batch processing:
+ * - Up to `concurrency` lines run at once; output is written as operations
+ *   finish, or in input order with `preserveOrder`
+ * - Input is paused while many lines are queued, and no new lines start
+ *   while stdout is backed up, so large files stream through in bounded
+ *   memory
+ * - Cancel messages skip the queue
+ * - `failFast` stops at the first error: queued lines are skipped and
+ *   in-flight operations cancelled
+ * - Progress (optional) and a summary line go to stderr
  *
  * Key features:
  * - Unix pipe-friendly (one operation per line)
@@ -14,8 +40,9 @@
  * - Streaming mode for continuous input
  * - JSON error responses
  * - Works with any ONE.core operations
+ * - Optional OpenMetrics push to a file or socket (no HTTP listener needed)
  *
- * Usage:
+ * Usage (flags map to the config via parseStdioArgs):
  * ```bash
  * # Single operation
  * echo '{"operation":"chat:exportHistory","request":{"topicId":"123","format":"json"}}' | node cli.js
@@ -23,16 +50,45 @@
  * # Batch operations
  * cat operations.jsonl | node cli.js
  *
+ * # Large batch: 32 at a time, output in input order, stop at the first error
+ * cat operations.jsonl | node cli.js --concurrency 32 --preserve-order --fail-fast --progress
+ *
  * # Interactive mode
  * node cli.js --interactive
+ *
+ * # REPL
+ * node cli.js --repl
  * ```
  */
 
 import * as readline from 'readline';
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
 import { TransportPlan } from '../TransportPlan.js';
 import type { PlanRegistry } from '../PlanRegistry.js';
 import type { AuthContext } from '../types/context.js';
-import { OperationResponse } from '../types/responses.js';
+import { OperationResponse, StreamFrame } from '../types/responses.js';
+import type { ErrorResponse } from '../types/responses.js';
+import { isAsyncIterable } from '../streaming.js';
+import { startMetricsPush } from '../openmetrics.js';
+import type { MetricsPushConfig, MetricsPusher } from '../openmetrics.js';
+import { handleJsonRpc, jsonRpcParseError } from '../jsonrpc.js';
+import type { JsonRpcCall, JsonRpcId } from '../jsonrpc.js';
+import { JSONRPC_CANCEL_METHOD } from '../jsonrpc.js';
+import { completeReplLine, formatOperationHelp, formatResult, parseShorthand } from '../repl.js';
+import type { ReplCommand, ReplResultFormat } from '../repl.js';
+
+/**
+ * Dot-commands of the REPL
+ */
+const REPL_COMMANDS = ['.help', '.auth', '.format', '.exit'];
+
+/**
+ * Queued lines at which input is paused, and resumed again
+ */
+const PENDING_HIGH_WATER = 1024;
+const PENDING_LOW_WATER = 256;
 
 /**
  * Stdio Transport Configuration
@@ -53,6 +109,51 @@ export interface StdioTransportConfig {
     /** Interactive mode - show prompts (default: false) */
     interactive?: boolean;
 
+    /**
+     * REPL mode - shorthand commands, completion, history and formatted
+     * results for humans (default: false)
+     */
+    repl?: boolean;
+
+    /** REPL history file, false disables persistence (default: ~/.refinio_api_history) */
+    historyFile?: string | false;
+
+    /** Number of REPL history entries kept (default: 1000) */
+    historySize?: number;
+
+    /** How the REPL prints results (default: 'pretty') */
+    resultFormat?: ReplResultFormat;
+
+    /** Lines processed concurrently (default: 16) */
+    concurrency?: number;
+
+    /** Write output in input order instead of completion order (default: false) */
+    preserveOrder?: boolean;
+
+    /** Stop at the first error: skip queued lines, cancel running ones (default: false) */
+    failFast?: boolean;
+
+    /** Report progress to stderr (default: false) */
+    progress?: boolean;
+
+    /** Progress report interval in milliseconds (default: 1000) */
+    progressInterval?: number;
+
+    /** Write a summary line to stderr when input ends (default: true) */
+    summary?: boolean;
+
+    /** Line protocol: our JSONL format or JSON-RPC 2.0 (default: 'jsonl') */
+    protocol?: 'jsonl' | 'jsonrpc';
+
+    /**
+     * Cancel in-flight operations when input ends (default: false)
+     *
+     * Enable when stdin closing means the client went away (e.g. a parent
+     * process driving the CLI). Leave disabled for piped batch files, whose
+     * input ends while their operations are still running.
+     */
+    cancelOnInputEnd?: boolean;
+
     /** Enable verbose logging to stderr (default: false) */
     verbose?: boolean;
 
@@ -64,6 +165,9 @@ export interface StdioTransportConfig {
 
     /** Error stream (default: process.stderr) */
     errorStream?: NodeJS.WritableStream;
+
+    /** Push registry metrics in OpenMetrics format to a file or socket (default: disabled) */
+    metricsPush?: MetricsPushConfig;
 }
 
 /**
@@ -79,32 +183,101 @@ interface StdioRequest {
     /** Optional request ID for tracking */
     requestId?: string;
 
+    /** Optional version range (e.g. "^1.0.0", default: latest) */
+    version?: string;
+
+    /** Optional idempotency key - retries with the same key replay the first result */
+    idempotencyKey?: string;
+
     /** Optional auth token (overrides config) */
     authToken?: string;
 }
 
+/**
+ * Stdio Cancel Message Format
+ */
+interface StdioCancelRequest {
+    /** ID of the in-flight request to cancel */
+    cancel: string;
+}
+
+/**
+ * Output of one input line, held back until earlier lines are written
+ * (preserveOrder)
+ */
+interface OutputSlot {
+    /** Lines written while earlier lines were still running */
+    buffered: string[];
+
+    /** Processing finished */
+    done: boolean;
+}
+
 /**
  * Stdio Transport Plan
  *
  * Exposes PlanRegistry operations via stdin/stdout.
  */
 export class StdioTransportPlan extends TransportPlan {
-    private config: Required<Omit<StdioTransportConfig, 'authToken' | 'getAuthContext'>> & {
+    private options: Required<Omit<StdioTransportConfig, 'authToken' | 'getAuthContext' | 'metricsPush'>> & {
         authToken?: string;
         getAuthContext?: () => Promise<AuthContext | null>;
+        metricsPush?: MetricsPushConfig;
     };
 
     private rl?: readline.Interface;
-    private isRunning = false;
+    private metricsPusher?: MetricsPusher;
+    private started = false;
     private processedCount = 0;
     private errorCount = 0;
+    private skippedCount = 0;
+    private startedAt = 0;
+
+    /** Lines waiting for a free slot */
+    private pending: string[] = [];
+
+    /** Lines started whose output is not yet fully written */
+    private running = 0;
+
+    /** Output slots in input order (preserveOrder) */
+    private outputs: OutputSlot[] = [];
+
+    private inputPaused = false;
+    private waitingForDrain = false;
+
+    /** Set once fail-fast triggered; later lines are skipped */
+    private stopping = false;
+
+    private idleWaiters: Array<() => void> = [];
+    private progressTimer?: ReturnType<typeof setInterval>;
+
+    /** Identity set with `.auth` in the REPL */
+    private replAuthToken?: string;
+
+    /** Operations currently running in the REPL (Ctrl+C cancels them) */
+    private replRunning = 0;
+
+    /** REPL lines run one after another, in input order */
+    private replQueue: Promise<void> = Promise.resolve();
 
     constructor(registry: PlanRegistry) {
-        super(registry, 'stdio-transport');
-        this.config = {
+        super(registry);
+        this.options = {
             development: false,
             exitOnEnd: true,
             interactive: false,
+            repl: false,
+            historyFile: join(homedir(), '.refinio_api_history'),
+            historySize: 1000,
+            resultFormat: 'pretty',
+            concurrency: 16,
+            preserveOrder: false,
+            failFast: false,
+            progress: false,
+            progressInterval: 1000,
+            summary: true,
+            protocol: 'jsonl',
+            cancelOnInputEnd: false,
             verbose: false,
             inputStream: process.stdin,
             outputStream: process.stdout,
@@ -116,71 +289,158 @@ export class StdioTransportPlan extends TransportPlan {
      * Start stdio transport
      */
     async start(config?: StdioTransportConfig): Promise<void> {
-        if (this.isRunning) {
+        if (this.started) {
             throw new Error('Stdio transport already started');
         }
 
         // Merge config
-        this.config = { ...this.config, ...config };
+        this.options = { ...this.options, ...config };
 
-        this.isRunning = true;
+        this.started = true;
         this.processedCount = 0;
         this.errorCount = 0;
+        this.skippedCount = 0;
+        this.startedAt = Date.now();
+        this.stopping = false;
+
+        if (this.options.metricsPush) {
+            this.metricsPusher = startMetricsPush(this.registry, this.options.metricsPush);
+        }
 
         // Log startup to stderr (don't pollute stdout)
-        if (this.config.verbose) {
+        if (this.options.verbose) {
             this.log('[StdioTransport] Starting...');
         }
 
+        if (this.options.repl) {
+            await this.startRepl();
+            return;
+        }
+
         // Show welcome message in interactive mode
-        if (this.config.interactive) {
+        if (this.options.interactive) {
             this.log('LAMA CLI - Enter operations as JSON (one per line)');
-            this.log('Format: {"operation":"name","request":{...}}');
+            this.log(this.options.protocol === 'jsonrpc'
+                ? 'Format: {"jsonrpc":"2.0","id":1,"method":"name","params":{...}}'
+                : 'Format: {"operation":"name","request":{...}}');
             this.log('Type Ctrl+D to exit\n');
         }
 
         // Create readline interface
         this.rl = readline.createInterface({
-            input: this.config.inputStream,
-            output: this.config.interactive ? this.config.errorStream : undefined,
-            terminal: this.config.interactive
+            input: this.options.inputStream,
+            output: this.options.interactive ? this.options.errorStream : undefined,
+            terminal: this.options.interactive
         });
 
-        // Process each line
-        this.rl.on('line', async (line) => {
-            await this.processLine(line);
-        });
+        if (this.options.progress) {
+            this.progressTimer = setInterval(() => this.log(this.progressLine()), this.options.progressInterval);
+            this.progressTimer.unref?.();
+        }
 
-        // Handle end of input
+        this.rl.on('line', (line) => this.enqueueLine(line));
         this.rl.on('close', () => {
-            if (this.config.verbose) {
-                this.log(
-                    `[StdioTransport] Processed ${this.processedCount} operations (${this.errorCount} errors)`
-                );
-            }
+            void this.onInputEnd();
+        });
+    }
+
+    /**
+     * Start the REPL on the input stream
+     *
+     * Prompts, help and errors go to the error stream, results to the
+     * output stream.
+     */
+    private async startRepl(): Promise<void> {
+        this.log('LAMA CLI - enter operations as `domain:method key=value ...` or JSON');
+        this.log('Type .help for commands, Tab to complete, Ctrl+D to exit\n');
+
+        this.rl = readline.createInterface({
+            input: this.options.inputStream,
+            output: this.options.errorStream,
+            completer: (line: string) => completeReplLine(line, this.registry.list(), REPL_COMMANDS),
+            history: await this.loadHistory(),
+            historySize: this.options.historySize,
+            prompt: '> '
+        });
 
-            if (this.config.exitOnEnd) {
-                process.exit(this.errorCount > 0 ? 1 : 0);
+        this.rl.on('line', (line) => {
+            this.replQueue = this.replQueue
+                .then(() => this.processReplLine(line))
+                .catch(error => this.writeReplError(this.formatError(error)))
+                .then(() => this.rl?.prompt());
+        });
+
+        this.rl.on('SIGINT', () => {
+            if (this.replRunning > 0) {
+                this.cancelAllRequests('Interrupted');
+            } else {
+                this.rl?.close();
             }
         });
+
+        // Let queued lines finish before exiting
+        this.rl.on('close', () => {
+            void this.replQueue.then(() => this.onInputEnd());
+        });
+        this.rl.prompt();
+    }
+
+    /**
+     * Handle end of input
+     *
+     * Waits for queued and running lines before the summary and exit.
+     */
+    private async onInputEnd(): Promise<void> {
+        if (this.options.cancelOnInputEnd) {
+            this.skippedCount += this.pending.length;
+            this.pending = [];
+            this.cancelAllRequests('Input closed');
+        }
+
+        await this.whenIdle();
+        this.stopProgress();
+
+        if (this.options.summary || this.options.verbose) {
+            this.log(this.summaryLine());
+        }
+
+        if (this.options.exitOnEnd) {
+            const exitCode = this.errorCount > 0 ? 1 : 0;
+            if (this.metricsPusher) {
+                // Flush final metrics before exiting
+                void this.metricsPusher.stop().finally(() => process.exit(exitCode));
+            } else {
+                process.exit(exitCode);
+            }
+        }
     }
 
     /**
      * Stop stdio transport
      */
     async stop(): Promise<void> {
-        if (!this.isRunning) {
+        if (!this.started) {
             return;
         }
 
+        this.skippedCount += this.pending.length;
+        this.pending = [];
+        this.cancelAllRequests('Transport stopped');
+        this.stopProgress();
+
+        if (this.metricsPusher) {
+            await this.metricsPusher.stop();
+            this.metricsPusher = undefined;
+        }
+
         if (this.rl) {
             this.rl.close();
             this.rl = undefined;
         }
 
-        this.isRunning = false;
+        this.started = false;
 
-        if (this.config.verbose) {
+        if (this.options.verbose) {
             this.log('[StdioTransport] Stopped');
         }
     }
@@ -189,7 +449,7 @@ export class StdioTransportPlan extends TransportPlan {
      * Check if transport is running
      */
     isRunning(): boolean {
-        return this.isRunning;
+        return this.started;
     }
 
     /**
@@ -197,8 +457,8 @@ export class StdioTransportPlan extends TransportPlan {
      */
     protected async extractAuthContext(request: StdioRequest): Promise<AuthContext | null> {
         // Use custom provider if provided
-        if (this.config.getAuthContext) {
-            return await this.config.getAuthContext();
+        if (this.options.getAuthContext) {
+            return await this.options.getAuthContext();
         }
 
         // Use request-specific token if provided
@@ -210,17 +470,26 @@ export class StdioTransportPlan extends TransportPlan {
             };
         }
 
+        // Use identity chosen with .auth in the REPL
+        if (this.replAuthToken) {
+            return {
+                userId: this.replAuthToken,
+                sessionId: `repl-session-${Date.now()}`,
+                capabilities: ['*']
+            };
+        }
+
         // Use config token if provided
-        if (this.config.authToken) {
+        if (this.options.authToken) {
             return {
-                userId: this.config.authToken,
+                userId: this.options.authToken,
                 sessionId: `stdio-session-${Date.now()}`,
                 capabilities: ['*']
             };
         }
 
         // Development mode - allow without auth
-        if (this.config.development) {
+        if (this.options.development) {
             return {
                 userId: 'cli-user',
                 sessionId: `cli-session-${Date.now()}`,
@@ -231,16 +500,173 @@ export class StdioTransportPlan extends TransportPlan {
         return null;
     }
 
+    /**
+     * Queue a line of input for processing
+     */
+    private enqueueLine(line: string): void {
+        if (!line.trim()) {
+            return;
+        }
+
+        if (this.stopping) {
+            this.skippedCount++;
+            return;
+        }
+
+        // Cancel messages must not wait behind the lines they cancel
+        if (this.isCancelLine(line)) {
+            void this.processLine(line);
+            return;
+        }
+
+        this.pending.push(line);
+        if (!this.inputPaused && this.pending.length >= PENDING_HIGH_WATER) {
+            this.inputPaused = true;
+            this.rl?.pause();
+        }
+
+        this.dispatch();
+    }
+
+    /**
+     * Start queued lines while slots are free and stdout keeps up
+     */
+    private dispatch(): void {
+        const output = this.options.outputStream as NodeJS.WritableStream & { writableNeedDrain?: boolean };
+
+        while (this.running < this.options.concurrency && this.pending.length > 0) {
+            if (output.writableNeedDrain) {
+                if (!this.waitingForDrain) {
+                    this.waitingForDrain = true;
+                    output.once('drain', () => {
+                        this.waitingForDrain = false;
+                        this.dispatch();
+                    });
+                }
+                break;
+            }
+
+            const line = this.pending.shift()!;
+            let slot: OutputSlot | undefined;
+            if (this.options.preserveOrder) {
+                slot = { buffered: [], done: false };
+                this.outputs.push(slot);
+            }
+
+            this.running++;
+            void this.processLine(line, slot)
+                .catch(error => {
+                    this.writeError(this.formatError(error), slot);
+                    this.recordError();
+                })
+                .finally(() => this.finishLine(slot));
+        }
+
+        if (this.inputPaused && this.pending.length <= PENDING_LOW_WATER) {
+            this.inputPaused = false;
+            this.rl?.resume();
+        }
+    }
+
+    /**
+     * Release a line's slot, writing held-back output that is now in order
+     */
+    private finishLine(slot?: OutputSlot): void {
+        if (!slot) {
+            this.running--;
+        } else {
+            slot.done = true;
+            while (this.outputs[0]?.done) {
+                this.outputs.shift();
+                this.running--;
+
+                const head = this.outputs[0];
+                if (head) {
+                    for (const text of head.buffered) {
+                        this.options.outputStream.write(text + '\n');
+                    }
+                    head.buffered = [];
+                }
+            }
+        }
+
+        this.dispatch();
+
+        if (this.running === 0 && this.pending.length === 0) {
+            const waiters = this.idleWaiters;
+            this.idleWaiters = [];
+            waiters.forEach(resolve => resolve());
+        }
+    }
+
+    /**
+     * Resolve once no lines are queued or running
+     */
+    private whenIdle(): Promise<void> {
+        if (this.running === 0 && this.pending.length === 0) {
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.idleWaiters.push(resolve));
+    }
+
+    /**
+     * Whether a line is a cancel message (checked without parsing)
+     */
+    private isCancelLine(line: string): boolean {
+        return this.options.protocol === 'jsonrpc'
+            ? line.includes(`"${JSONRPC_CANCEL_METHOD}"`)
+            : /^\s*\{\s*"cancel"\s*:/.test(line);
+    }
+
+    /**
+     * Count an error; with failFast, stop processing
+     */
+    private recordError(): void {
+        this.errorCount++;
+
+        if (this.options.failFast && !this.stopping) {
+            this.stopping = true;
+            this.log('[StdioTransport] Stopping after first error (fail-fast)');
+            this.skippedCount += this.pending.length;
+            this.pending = [];
+            this.cancelAllRequests('Fail-fast');
+            this.rl?.close();
+        }
+    }
+
+    private progressLine(): string {
+        return `[StdioTransport] Progress: ${this.processedCount} processed, ${this.errorCount} errors, ` +
+            `${this.running} running, ${this.pending.length} queued`;
+    }
+
+    private summaryLine(): string {
+        const seconds = ((Date.now() - this.startedAt) / 1000).toFixed(1);
+        return `[StdioTransport] Summary: ${this.processedCount} processed, ${this.errorCount} errors, ` +
+            `${this.skippedCount} skipped in ${seconds}s`;
+    }
+
+    private stopProgress(): void {
+        if (this.progressTimer) {
+            clearInterval(this.progressTimer);
+            this.progressTimer = undefined;
+        }
+    }
+
     /**
      * Process a single line of input
      */
-    private async processLine(line: string): Promise<void> {
+    private async processLine(line: string, slot?: OutputSlot): Promise<void> {
         // Skip empty lines
         if (!line.trim()) {
             return;
         }
 
-        let stdioRequest: StdioRequest;
+        if (this.options.protocol === 'jsonrpc') {
+            await this.processJsonRpcLine(line, slot);
+            return;
+        }
+
+        let stdioRequest: StdioRequest | StdioCancelRequest;
 
         // Parse JSON
         try {
@@ -256,8 +682,14 @@ export class StdioTransportPlan extends TransportPlan {
                         error: (error as Error).message
                     }
                 }
-            });
-            this.errorCount++;
+            }, slot);
+            this.recordError();
+            return;
+        }
+
+        // Cancel message for an in-flight request
+        if ('cancel' in stdioRequest) {
+            this.processCancel(stdioRequest);
             return;
         }
 
@@ -270,8 +702,8 @@ export class StdioTransportPlan extends TransportPlan {
                     message: 'Missing or invalid "operation" field',
                     details: { received: stdioRequest }
                 }
-            });
-            this.errorCount++;
+            }, slot);
+            this.recordError();
             return;
         }
 
@@ -283,14 +715,14 @@ export class StdioTransportPlan extends TransportPlan {
                     message: 'Missing or invalid "request" field',
                     details: { received: stdioRequest }
                 }
-            });
-            this.errorCount++;
+            }, slot);
+            this.recordError();
             return;
         }
 
         // Extract auth context
         const authContext = await this.extractAuthContext(stdioRequest);
-        if (!authContext && !this.config.development) {
+        if (!authContext && !this.options.development) {
             this.writeError({
                 success: false,
                 error: {
@@ -299,67 +731,469 @@ export class StdioTransportPlan extends TransportPlan {
                     details: { hint: 'Provide authToken in request or use --development flag' }
                 },
                 requestId: stdioRequest.requestId
-            });
-            this.errorCount++;
+            }, slot);
+            this.recordError();
             return;
         }
 
         // Invoke operation
         try {
+            const requestId = stdioRequest.requestId ?? this.generateRequestId();
             const result = await this.invokeOperation(
                 stdioRequest.operation,
                 stdioRequest.request,
-                authContext
+                stdioRequest,
+                {
+                    requestId,
+                    versionRange: stdioRequest.version,
+                    idempotencyKey: stdioRequest.idempotencyKey
+                }
             );
 
+            // Streaming result - one line per chunk
+            const response = result as OperationResponse<any>;
+            if (response.success && isAsyncIterable(response.result)) {
+                let failed = false;
+                await this.forwardStream(response.result, (frame) => {
+                    failed = failed || !frame.success;
+                    this.writeResponse(frame, requestId, slot);
+                });
+                if (failed) {
+                    this.recordError();
+                } else {
+                    this.processedCount++;
+                }
+                return;
+            }
+
             // Write response
-            this.writeResponse(result as OperationResponse<any>, stdioRequest.requestId);
-            this.processedCount++;
+            this.writeResponse(response, stdioRequest.requestId, slot);
+            if (response.success) {
+                this.processedCount++;
+            } else {
+                this.recordError();
+            }
         } catch (error) {
             this.writeError({
                 success: false,
                 error: {
                     code: 'INTERNAL_ERROR',
                     message: (error as Error).message,
-                    details: this.config.development
+                    details: this.options.development
                         ? { stack: (error as Error).stack }
                         : undefined
                 },
                 requestId: stdioRequest.requestId
+            }, slot);
+            this.recordError();
+        }
+    }
+
+    /**
+     * Process a line in JSON-RPC 2.0 mode
+     *
+     * Requests with an ID are tracked under that ID, so they can be
+     * cancelled with `$/cancelRequest`.
+     */
+    private async processJsonRpcLine(line: string, slot?: OutputSlot): Promise<void> {
+        let payload: unknown;
+        try {
+            payload = JSON.parse(line);
+        } catch (error) {
+            this.writeError(jsonRpcParseError((error as Error).message), slot);
+            this.recordError();
+            return;
+        }
+
+        const response = await handleJsonRpc(payload, {
+            invoke: async (call: JsonRpcCall) => {
+                const response = await this.invokeOperation(
+                    call.operation,
+                    call.request,
+                    { operation: call.operation, request: call.request } as StdioRequest,
+                    {
+                        requestId: this.jsonRpcRequestId(call.id),
+                        versionRange: call.versionRange,
+                        idempotencyKey: call.idempotencyKey
+                    }
+                );
+                if (response.success) {
+                    this.processedCount++;
+                } else {
+                    this.recordError();
+                }
+                return response;
+            },
+            cancel: (id: JsonRpcId) => {
+                const requestId = this.jsonRpcRequestId(id);
+                if (requestId) {
+                    this.cancelRequest(requestId);
+                }
+            }
+        });
+
+        if (response !== undefined) {
+            this.writeLine(JSON.stringify(response), slot);
+        }
+    }
+
+    /**
+     * Request ID used to track a JSON-RPC request
+     */
+    private jsonRpcRequestId(id: JsonRpcId | undefined): string | undefined {
+        return id === undefined || id === null ? undefined : `jsonrpc-${id}`;
+    }
+
+    /**
+     * Process a cancel message
+     *
+     * The cancelled operation itself reports a CANCELLED error under its
+     * requestId; only unknown request IDs produce output here.
+     */
+    private processCancel(message: StdioCancelRequest): void {
+        if (typeof message.cancel !== 'string') {
+            this.writeError({
+                success: false,
+                error: {
+                    code: 'INVALID_REQUEST',
+                    message: 'Invalid "cancel" field (expected requestId)',
+                    details: { received: message }
+                }
             });
-            this.errorCount++;
+            this.recordError();
+            return;
+        }
+
+        if (!this.cancelRequest(message.cancel)) {
+            this.writeError({
+                success: false,
+                error: {
+                    code: 'UNKNOWN_REQUEST',
+                    message: `No in-flight request with ID ${message.cancel}`,
+                    details: { requestId: message.cancel }
+                },
+                requestId: message.cancel
+            });
+            this.recordError();
+        }
+    }
+
+    /**
+     * Process a line in REPL mode
+     *
+     * Dot-commands are handled here, JSON lines go through processLine,
+     * anything else is parsed as shorthand.
+     */
+    private async processReplLine(line: string): Promise<void> {
+        const input = line.trim();
+        if (!input) {
+            return;
+        }
+
+        await this.appendHistory(input);
+
+        if (input.startsWith('.')) {
+            this.processReplCommand(input);
+            return;
+        }
+
+        if (input.startsWith('{') || input.startsWith('[')) {
+            await this.processLine(input);
+            return;
+        }
+
+        let command: ReplCommand;
+        try {
+            command = parseShorthand(input);
+        } catch (error) {
+            this.writeReplError(this.formatError(error));
+            this.recordError();
+            return;
+        }
+
+        this.replRunning++;
+        try {
+            await this.runReplCommand(command);
+        } finally {
+            this.replRunning--;
+        }
+    }
+
+    /**
+     * Invoke a shorthand command and print its result
+     */
+    private async runReplCommand(command: ReplCommand): Promise<void> {
+        const response = await this.invokeOperation(
+            command.operation,
+            command.request,
+            { operation: command.operation, request: command.request } as StdioRequest
+        );
+
+        if (!response.success) {
+            this.writeReplError(response);
+            this.recordError();
+            return;
+        }
+
+        if (response.deprecation) {
+            this.log(`Warning: ${response.deprecation.message}`);
+        }
+
+        if (!isAsyncIterable(response.result)) {
+            this.writeReplResult(response.result);
+            this.processedCount++;
+            return;
+        }
+
+        let failed = false;
+        await this.forwardStream(response.result, (frame) => {
+            if (!frame.success) {
+                failed = true;
+                this.writeReplError(frame);
+            } else if ('chunk' in frame) {
+                this.writeReplResult(frame.chunk);
+            } else {
+                this.log(`(${frame.chunks} chunks)`);
+            }
+        });
+
+        if (failed) {
+            this.recordError();
+        } else {
+            this.processedCount++;
         }
     }
 
+    /**
+     * Handle a REPL dot-command
+     */
+    private processReplCommand(input: string): void {
+        const [command, ...args] = input.split(/\s+/);
+
+        switch (command) {
+            case '.help': {
+                if (args[0]) {
+                    const metadata = this.registry.list().find(operation => operation.operation === args[0]);
+                    this.log(metadata ? formatOperationHelp(metadata) : `Unknown operation: ${args[0]}`);
+                    return;
+                }
+
+                const operations = this.registry.list();
+                const width = Math.max(0, ...operations.map(operation => operation.operation.length));
+                this.log([
+                    'Commands:',
+                    '  .help [operation]            List operations or describe one',
+                    '  .auth [token|off]            Show or switch identity',
+                    '  .format [pretty|table|json]  Show or set result format',
+                    '  .exit                        Exit',
+                    '',
+                    'Operations:',
+                    ...operations.map(operation =>
+                        `  ${operation.operation.padEnd(width)}  ${operation.description ?? ''}`.trimEnd()
+                    )
+                ].join('\n'));
+                return;
+            }
+
+            case '.auth':
+                if (this.options.getAuthContext) {
+                    this.log('Identity is provided by getAuthContext and cannot be switched');
+                } else if (args[0] === 'off') {
+                    this.replAuthToken = undefined;
+                    this.log('Identity cleared');
+                } else if (args[0]) {
+                    this.replAuthToken = args[0];
+                    this.log(`Identity: ${args[0]}`);
+                } else {
+                    const current = this.replAuthToken ?? this.options.authToken
+                        ?? (this.options.development ? 'cli-user (development)' : undefined);
+                    this.log(current ? `Identity: ${current}` : 'Not authenticated');
+                }
+                return;
+
+            case '.format':
+                if (args[0] === 'pretty' || args[0] === 'table' || args[0] === 'json') {
+                    this.options.resultFormat = args[0];
+                } else if (args[0]) {
+                    this.log(`Unknown format: ${args[0]} (expected pretty, table or json)`);
+                    return;
+                }
+                this.log(`Format: ${this.options.resultFormat}`);
+                return;
+
+            case '.exit':
+                this.rl?.close();
+                return;
+
+            default:
+                this.log(`Unknown command: ${command} (type .help)`);
+        }
+    }
+
+    /**
+     * Load persisted REPL history (newest first, as readline expects)
+     *
+     * Trims the file to `historySize` entries.
+     */
+    private async loadHistory(): Promise<string[]> {
+        if (!this.options.historyFile) {
+            return [];
+        }
+
+        let lines: string[];
+        try {
+            lines = (await fs.readFile(this.options.historyFile, 'utf8')).split('\n').filter(Boolean);
+        } catch {
+            return [];
+        }
+
+        if (lines.length > this.options.historySize) {
+            lines = lines.slice(-this.options.historySize);
+            await fs.writeFile(this.options.historyFile, lines.join('\n') + '\n', { mode: 0o600 }).catch(() => {});
+        }
+
+        return lines.reverse();
+    }
+
+    /**
+     * Persist a REPL line (`.auth` lines are not saved, they hold tokens)
+     */
+    private async appendHistory(line: string): Promise<void> {
+        if (!this.options.historyFile || line.startsWith('.auth')) {
+            return;
+        }
+
+        await fs.appendFile(this.options.historyFile, line + '\n', { mode: 0o600 }).catch(() => {});
+    }
+
+    /**
+     * Print a result in the REPL format
+     */
+    private writeReplResult(result: unknown): void {
+        const colors = (this.options.outputStream as NodeJS.WriteStream).isTTY === true;
+        this.options.outputStream.write(formatResult(result, this.options.resultFormat, colors) + '\n');
+    }
+
+    /**
+     * Print an error in the REPL
+     */
+    private writeReplError(response: ErrorResponse): void {
+        this.log(`Error [${response.error.code}]: ${response.error.message}`);
+    }
+
     /**
      * Write response to stdout
      */
-    private writeResponse(response: OperationResponse<any>, requestId?: string): void {
+    private writeResponse(
+        response: OperationResponse<any> | StreamFrame<any>,
+        requestId?: string,
+        slot?: OutputSlot
+    ): void {
         const output = requestId ? { ...response, requestId } : response;
-        this.config.outputStream.write(JSON.stringify(output) + '\n');
+        this.writeLine(JSON.stringify(output), slot);
     }
 
     /**
      * Write error to stdout
      */
-    private writeError(error: any): void {
-        this.config.outputStream.write(JSON.stringify(error) + '\n');
+    private writeError(error: any, slot?: OutputSlot): void {
+        this.writeLine(JSON.stringify(error), slot);
+    }
+
+    /**
+     * Write an output line, or hold it back until earlier lines are written
+     */
+    private writeLine(text: string, slot?: OutputSlot): void {
+        if (slot && slot !== this.outputs[0]) {
+            slot.buffered.push(text);
+            return;
+        }
+        this.options.outputStream.write(text + '\n');
     }
 
     /**
      * Log message to stderr
      */
     private log(message: string): void {
-        this.config.errorStream.write(message + '\n');
+        this.options.errorStream.write(message + '\n');
     }
 
     /**
      * Get statistics
      */
-    getStats(): { processed: number; errors: number } {
+    getStats(): { processed: number; errors: number; skipped: number } {
         return {
             processed: this.processedCount,
-            errors: this.errorCount
+            errors: this.errorCount,
+            skipped: this.skippedCount
         };
     }
 }
+
+/**
+ * Parse command line flags into a stdio configuration
+ *
+ * Flags: --development, --auth-token <token>, --interactive, --repl,
+ * --jsonrpc, --concurrency <n>, --preserve-order, --fail-fast, --progress,
+ * --no-summary, --cancel-on-input-end, --verbose
+ *
+ * @throws Error on unknown flags or invalid values
+ */
+export function parseStdioArgs(args: string[]): StdioTransportConfig {
+    const config: StdioTransportConfig = {};
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+
+        switch (arg) {
+            case '--development':
+                config.development = true;
+                break;
+            case '--auth-token':
+                config.authToken = args[++i];
+                if (!config.authToken) {
+                    throw new Error('--auth-token requires a value');
+                }
+                break;
+            case '--interactive':
+                config.interactive = true;
+                break;
+            case '--repl':
+                config.repl = true;
+                break;
+            case '--jsonrpc':
+                config.protocol = 'jsonrpc';
+                break;
+            case '--concurrency': {
+                const concurrency = Number(args[++i]);
+                if (!Number.isInteger(concurrency) || concurrency < 1) {
+                    throw new Error('--concurrency requires a positive integer');
+                }
+                config.concurrency = concurrency;
+                break;
+            }
+            case '--preserve-order':
+                config.preserveOrder = true;
+                break;
+            case '--fail-fast':
+                config.failFast = true;
+                break;
+            case '--progress':
+                config.progress = true;
+                break;
+            case '--no-summary':
+                config.summary = false;
+                break;
+            case '--cancel-on-input-end':
+                config.cancelOnInputEnd = true;
+                break;
+            case '--verbose':
+                config.verbose = true;
+                break;
+            default:
+                throw new Error(`Unknown option: ${arg}`);
+        }
+    }
+
+    return config;
+}
@@ -0,0 +1,146 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from '../PlanRegistry.js';
+import { WebSocketTransportPlan } from './WebSocketTransportPlan.js';
+import type { WebSocketTransportConfig } from './WebSocketTransportPlan.js';
+import { authWith, createTestRegistry } from '../test-helpers.js';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+/**
+ * Run a WebSocket transport on an ephemeral port for the duration of a test
+ */
+async function withWebSocketTransport(
+  registry: PlanRegistry,
+  config: WebSocketTransportConfig,
+  test: (url: string) => Promise<void>
+) {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, 'localhost', resolve));
+  const transport = new WebSocketTransportPlan(registry, { ...config, server });
+  await transport.start();
+
+  try {
+    await test(`ws://localhost:${(server.address() as AddressInfo).port}`);
+  } finally {
+    await transport.stop();
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+/**
+ * Connect and queue incoming messages
+ */
+async function connectWebSocket(url: string) {
+  const socket = new WebSocket(url);
+  const received: any[] = [];
+  const waiting: Array<(message: any) => void> = [];
+
+  socket.on('message', (data: Buffer) => {
+    const message = JSON.parse(data.toString());
+    const resolve = waiting.shift();
+    if (resolve) {
+      resolve(message);
+    } else {
+      received.push(message);
+    }
+  });
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('error', reject);
+  });
+
+  return {
+    socket,
+    send: (message: any) => socket.send(JSON.stringify(message)),
+    next: (): Promise<any> => received.length > 0
+      ? Promise.resolve(received.shift())
+      : new Promise(resolve => waiting.push(resolve))
+  };
+}
+
+describe('websocket transport', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  const validateAuthToken = async (token: string) => token === 'secret'
+    ? authWith(['test:echo', 'events:story.created'])
+    : null;
+
+  it('should multiplex requests over one authenticated connection', async () => {
+    let release!: () => void;
+    registry.register({
+      domain: 'test',
+      method: 'slow',
+      plan: { slow: () => new Promise(resolve => { release = () => resolve('slow'); }) },
+      version: '1.0.0'
+    });
+
+    await withWebSocketTransport(registry, { validateAuthToken, heartbeatInterval: 0 }, async (url) => {
+      const client = await connectWebSocket(`${url}?token=secret`);
+
+      client.send({ id: 'a', operation: 'test:slow', request: {} });
+      client.send({ id: 'b', handler: 'test', method: 'echo', params: { hello: 1 } });
+
+      expect(await client.next()).toMatchObject({
+        id: 'b', success: true, handler: 'test', method: 'echo', data: { echoed: { hello: 1 } }
+      });
+      release();
+      expect(await client.next()).toMatchObject({ id: 'a', success: true, data: 'slow' });
+
+      client.send({ id: 'c', handler: '_system', method: 'listPlans' });
+      expect((await client.next()).data).toEqual(['test']);
+
+      client.socket.close();
+    });
+  });
+
+  it('should push events to subscribers only while subscribed', async () => {
+    let emit: ((data: unknown) => void) | undefined;
+    const topics = {
+      'story.created': (listener: (data: unknown) => void) => {
+        emit = listener;
+        return () => { emit = undefined; };
+      },
+      'connections.changed': null
+    };
+
+    await withWebSocketTransport(registry, { validateAuthToken, topics, heartbeatInterval: 0 }, async (url) => {
+      const client = await connectWebSocket(`${url}?token=secret`);
+
+      client.send({ type: 'subscribe', id: 's1', topic: 'connections.changed' });
+      expect(await client.next()).toMatchObject({ id: 's1', success: false, error: { code: 'FORBIDDEN' } });
+
+      client.send({ type: 'subscribe', id: 's2', topic: 'story.created' });
+      expect(await client.next()).toMatchObject({ id: 's2', success: true });
+
+      emit!({ title: 'Created' });
+      expect(await client.next()).toMatchObject({ type: 'event', topic: 'story.created', data: { title: 'Created' } });
+
+      client.send({ type: 'unsubscribe', id: 's3', topic: 'story.created' });
+      expect(await client.next()).toMatchObject({ id: 's3', success: true });
+      expect(emit).toBeUndefined();
+
+      client.send({ type: 'subscribe', id: 's4', topic: 'toString' });
+      expect(await client.next()).toMatchObject({ id: 's4', success: false, error: { code: 'TOPIC_NOT_FOUND' } });
+
+      client.socket.close();
+    });
+  });
+
+  it('should close unauthenticated connections', async () => {
+    await withWebSocketTransport(registry, { validateAuthToken, heartbeatInterval: 0 }, async (url) => {
+      const client = await connectWebSocket(`${url}?token=wrong`);
+      const closed = new Promise(resolve => client.socket.once('close', resolve));
+
+      expect(await client.next()).toMatchObject({ success: false, error: { code: 'UNAUTHORIZED' } });
+      expect(await closed).toBe(1008);
+    });
+  });
+});
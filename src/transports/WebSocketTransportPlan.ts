@@ -0,0 +1,649 @@
+/**
+ * WebSocketTransportPlan - WebSocket transport implementation
+ *
+ * Serves browser and cube UIs (see QuicPlanClient in client/OnePlanClient.ts)
+ * over one long-lived connection per client.
+ *
+ * Protocol: one JSON message per text frame
+ * - Request: {"id":"req-1","operation":"chat:send","request":{...},"version":"^1.0.0"}
+ *   or, as sent by QuicPlanClient: {"id":"req-1","handler":"chat","method":"send","params":{...}}
+ *   (legacy plan names are mapped like registerUnifiedOperations does)
+ * - Response: {"id":"req-1","success":true,"data":{...},"operation":"chat:send",...}
+ * - Error: {"id":"req-1","success":false,"error":{"code":"...","status":400,"message":"..."}}
+ * - Streaming: {"id":"req-1","success":true,"chunk":{...}} per chunk, then
+ *   {"id":"req-1","success":true,"done":true,"chunks":3}
+ * - Cancel: {"type":"cancel","id":"req-1"}
+ * - Subscribe: {"type":"subscribe","id":"sub-1","topic":"story.created"}
+ *   (unsubscribe alike); events arrive as {"type":"event","topic":"...","data":{...}}
+ *
+ * Key features:
+ * - Authenticates once per connection (Bearer token or `?token=` query
+ *   parameter on the upgrade request - browsers cannot set headers)
+ * - Concurrent requests multiplexed by id
+ * - Server push for declared topics (object changes, connection status,
+ *   Story creation, ...)
+ * - Heartbeats: unresponsive connections are terminated
+ * - Backpressure: streams pause while the socket buffer is full; events
+ *   for slow consumers are dropped and the next event reports how many
+ * - System calls `_system.listPlans` / `_system.getPlanMetadata`
+ */
+
+import { WebSocketServer, WebSocket } from 'ws';
+import type { IncomingMessage, Server } from 'http';
+import { TransportPlan } from '../TransportPlan.js';
+import type { TransportConfig } from '../TransportPlan.js';
+import type { PlanRegistry } from '../PlanRegistry.js';
+import type { AuthContext } from '../types/context.js';
+import type { OperationResponse } from '../types/responses.js';
+import { hasCapability } from '../types/context.js';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError
+} from '../errors.js';
+import { isAsyncIterable } from '../streaming.js';
+import { legacyDomainName } from '../registry/unified-adapter.js';
+
+/**
+ * Source of server-pushed events for a topic
+ *
+ * Attached when the first client subscribes to the topic; the returned
+ * function detaches it when the last one unsubscribes. Matches the shape
+ * of StoryFactory.onStoryCreated and OEvent.listen:
+ *
+ * ```typescript
+ * topics: {
+ *   'story.created': emit => storyFactory.onStoryCreated((story, idHash) => emit({ story, idHash })),
+ *   'connections.changed': emit => connectionsModel.onConnectionsChange.listen(() => emit({}))
+ * }
+ * ```
+ */
+export type EventSource = (emit: (data: unknown) => void) => () => void;
+
+/**
+ * WebSocket transport configuration
+ */
+export interface WebSocketTransportConfig extends TransportConfig {
+  /**
+   * Port to listen on (default: 3001, ignored with `server`)
+   */
+  port?: number;
+
+  /**
+   * Host to bind to (default: 'localhost', ignored with `server`)
+   */
+  host?: string;
+
+  /**
+   * Existing HTTP server to accept upgrades on instead of listening
+   */
+  server?: Server;
+
+  /**
+   * Only accept upgrades on this path (default: any path)
+   */
+  path?: string;
+
+  /**
+   * Custom auth token validator
+   */
+  validateAuthToken?: (token: string) => Promise<AuthContext | null>;
+
+  /**
+   * Topics clients may subscribe to
+   *
+   * A null source means events are only pushed through publish().
+   * Subscribing requires the `events:<topic>` capability.
+   */
+  topics?: Record<string, EventSource | null>;
+
+  /**
+   * Ping interval (ms, default: 30000, 0 disables)
+   *
+   * Connections that did not answer the previous ping are terminated.
+   */
+  heartbeatInterval?: number;
+
+  /**
+   * Socket buffer size above which backpressure applies (bytes, default: 1 MiB)
+   */
+  maxBufferedAmount?: number;
+}
+
+/**
+ * Message sent by a client
+ */
+export interface WebSocketRequest {
+  /**
+   * Message type (default: 'request')
+   */
+  type?: 'request' | 'cancel' | 'subscribe' | 'unsubscribe';
+
+  /**
+   * Client-chosen ID, echoed in all responses and frames
+   */
+  id?: string | number;
+
+  /**
+   * Operation name (domain:method)
+   */
+  operation?: string;
+
+  /**
+   * Request payload
+   */
+  request?: any;
+
+  /**
+   * Legacy plan name, combined with `method` when `operation` is absent
+   */
+  handler?: string;
+
+  /**
+   * Legacy method name
+   */
+  method?: string;
+
+  /**
+   * Legacy request payload
+   */
+  params?: any;
+
+  /**
+   * Requested operation version range (default: latest)
+   */
+  version?: string;
+
+  /**
+   * Idempotency key - retries with the same key replay the first result
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Topic of a subscribe/unsubscribe message
+   */
+  topic?: string;
+}
+
+/**
+ * Event pushed to subscribers
+ */
+export interface WebSocketEvent {
+  type: 'event';
+  topic: string;
+  data: unknown;
+  timestamp: number;
+
+  /**
+   * Events dropped for this connection since the last delivered one
+   */
+  dropped?: number;
+}
+
+/**
+ * Server-side state of one client connection
+ */
+interface Connection {
+  id: string;
+  socket: WebSocket;
+  auth: Promise<AuthContext | null>;
+  alive: boolean;
+
+  /**
+   * Fires when the connection closes, cancelling its requests
+   */
+  closed: AbortController;
+
+  /**
+   * Client IDs of in-flight requests
+   */
+  pending: Set<string>;
+  topics: Set<string>;
+  dropped: number;
+}
+
+/**
+ * WebSocket Transport Plan
+ *
+ * Exposes PlanRegistry operations and server-pushed events over WebSocket.
+ */
+export class WebSocketTransportPlan extends TransportPlan {
+  private options: WebSocketTransportConfig;
+  private heartbeatInterval: number;
+  private maxBufferedAmount: number;
+  private topics: Record<string, EventSource | null>;
+  private server?: WebSocketServer;
+  private heartbeat?: ReturnType<typeof setInterval>;
+  private connections = new Set<Connection>();
+  private detachers = new Map<string, () => void>();
+  private nextConnectionId = 0;
+
+  constructor(
+    registry: PlanRegistry,
+    config: WebSocketTransportConfig = {}
+  ) {
+    super(registry, config);
+    this.options = config;
+    this.heartbeatInterval = config.heartbeatInterval ?? 30000;
+    this.maxBufferedAmount = config.maxBufferedAmount ?? 1024 * 1024;
+    this.topics = config.topics ?? {};
+  }
+
+  /**
+   * Start accepting connections
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      throw new Error('WebSocket transport already running');
+    }
+
+    const server = this.options.server
+      ? new WebSocketServer({ server: this.options.server, path: this.options.path })
+      : new WebSocketServer({
+          port: this.options.port ?? 3001,
+          host: this.options.host ?? 'localhost',
+          path: this.options.path
+        });
+    this.server = server;
+
+    server.on('connection', (socket: WebSocket, req: IncomingMessage) => {
+      this.accept(socket, req);
+    });
+
+    if (!this.options.server) {
+      await new Promise<void>((resolve, reject) => {
+        server.once('listening', resolve);
+        server.once('error', reject);
+      });
+    }
+
+    if (this.heartbeatInterval > 0) {
+      this.heartbeat = setInterval(() => this.checkHeartbeats(), this.heartbeatInterval);
+    }
+
+    console.log('WebSocket transport started');
+  }
+
+  /**
+   * Stop the transport
+   *
+   * Cancels in-flight requests, detaches event sources and closes all
+   * connections (an attached HTTP server keeps running).
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    clearInterval(this.heartbeat);
+    this.heartbeat = undefined;
+
+    for (const connection of this.connections) {
+      connection.socket.close(1001, 'Transport stopped');
+      this.disconnect(connection, 'Transport stopped');
+    }
+
+    const server = this.server;
+    this.server = undefined;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    console.log('WebSocket transport stopped');
+  }
+
+  /**
+   * Check if transport is running
+   */
+  isRunning(): boolean {
+    return !!this.server;
+  }
+
+  /**
+   * Push an event to all subscribers of a topic
+   *
+   * @returns Number of connections the event was sent to
+   */
+  publish(topic: string, data: unknown): number {
+    let delivered = 0;
+
+    for (const connection of this.connections) {
+      if (!connection.topics.has(topic)) {
+        continue;
+      }
+
+      // Slow consumer - drop rather than buffer without bound
+      if (connection.socket.bufferedAmount > this.maxBufferedAmount) {
+        connection.dropped++;
+        continue;
+      }
+
+      const event: WebSocketEvent = {
+        type: 'event',
+        topic,
+        data,
+        timestamp: Date.now(),
+        ...(connection.dropped > 0 && { dropped: connection.dropped })
+      };
+      connection.dropped = 0;
+      void this.send(connection, event);
+      delivered++;
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Auth context of a connection (resolved once, on connect)
+   */
+  protected async extractAuthContext(connection: Connection): Promise<AuthContext | null> {
+    return connection.auth;
+  }
+
+  /**
+   * Authenticate the upgrade request of a new connection
+   */
+  protected async authenticate(req: IncomingMessage): Promise<AuthContext | null> {
+    const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+    const token = match?.[1] ?? new URL(req.url ?? '/', 'http://localhost').searchParams.get('token');
+
+    if (token && this.options.validateAuthToken) {
+      return await this.options.validateAuthToken(token);
+    }
+
+    // Development mode: allow all operations
+    if (this.config.devMode) {
+      return {
+        userId: token ?? 'dev-user',
+        sessionId: `ws-session-${Date.now()}`,
+        capabilities: ['*']
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Set up a new connection
+   */
+  private accept(socket: WebSocket, req: IncomingMessage): void {
+    const connection: Connection = {
+      id: `ws-${++this.nextConnectionId}`,
+      socket,
+      auth: this.authenticate(req).catch(() => null),
+      alive: true,
+      closed: new AbortController(),
+      pending: new Set(),
+      topics: new Set(),
+      dropped: 0
+    };
+    this.connections.add(connection);
+
+    socket.on('pong', () => {
+      connection.alive = true;
+    });
+    socket.on('message', (data: Buffer) => {
+      void this.handleMessage(connection, data.toString());
+    });
+    socket.on('close', () => this.disconnect(connection, 'Connection closed'));
+    socket.on('error', () => socket.terminate());
+
+    void connection.auth.then(auth => {
+      if (!auth && this.connections.has(connection)) {
+        void this.send(connection, this.formatError(new UnauthorizedError('Authentication required')));
+        socket.close(1008, 'Authentication required');
+      }
+    });
+  }
+
+  /**
+   * Clean up a closed connection
+   */
+  private disconnect(connection: Connection, reason: string): void {
+    if (!this.connections.delete(connection)) {
+      return;
+    }
+
+    connection.closed.abort(reason);
+    for (const topic of connection.topics) {
+      this.releaseTopic(topic);
+    }
+    connection.topics.clear();
+  }
+
+  /**
+   * Terminate connections that missed a ping, ping the others
+   */
+  private checkHeartbeats(): void {
+    for (const connection of this.connections) {
+      if (!connection.alive) {
+        connection.socket.terminate();
+        this.disconnect(connection, 'Heartbeat timeout');
+        continue;
+      }
+
+      connection.alive = false;
+      connection.socket.ping();
+    }
+  }
+
+  /**
+   * Process one message from a client
+   */
+  private async handleMessage(connection: Connection, raw: string): Promise<void> {
+    let message: WebSocketRequest;
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      await this.send(connection, this.formatError(
+        new ValidationError('Failed to parse JSON message', { error: (error as Error).message })
+      ));
+      return;
+    }
+
+    const id = message?.id;
+
+    try {
+      if (!(await connection.auth)) {
+        return;
+      }
+
+      if (id !== undefined && typeof id !== 'string' && typeof id !== 'number') {
+        throw new ValidationError('Invalid "id" field (expected string or number)');
+      }
+
+      switch (message.type ?? 'request') {
+        case 'request':
+          await this.handleRequest(connection, message);
+          return;
+        case 'cancel':
+          if (id === undefined || !this.cancelRequest(this.requestKey(connection, id))) {
+            throw new NotFoundError('Request', String(id));
+          }
+          return;
+        case 'subscribe':
+          await this.subscribe(connection, message.topic);
+          break;
+        case 'unsubscribe':
+          this.unsubscribe(connection, message.topic);
+          break;
+        default:
+          throw new ValidationError(`Unknown message type: ${message.type}`);
+      }
+
+      await this.send(connection, { id, success: true, data: { topic: message.topic } });
+    } catch (error) {
+      await this.send(connection, { id, ...this.formatError(error) });
+    }
+  }
+
+  /**
+   * Invoke an operation and send its response or stream frames
+   */
+  private async handleRequest(connection: Connection, message: WebSocketRequest): Promise<void> {
+    const { id, handler, method } = message;
+    if (id === undefined) {
+      throw new ValidationError('Missing "id" field');
+    }
+
+    const clientId = String(id);
+    if (connection.pending.has(clientId)) {
+      throw new ConflictError(`Request ${clientId} is already in flight`, { id });
+    }
+
+    const operation = message.operation ??
+      (handler && method ? `${legacyDomainName(handler)}:${method}` : undefined);
+    if (!operation) {
+      throw new ValidationError('Missing "operation" (or "handler" and "method") field');
+    }
+
+    const echo = { id, operation, ...(handler !== undefined && { handler, method }) };
+
+    if (handler === '_system') {
+      await this.send(connection, { ...echo, success: true, data: this.systemCall(method, message.params) });
+      return;
+    }
+
+    connection.pending.add(clientId);
+    try {
+      const response: OperationResponse<any> = await this.invokeOperation(
+        operation,
+        message.request ?? message.params ?? {},
+        connection,
+        {
+          requestId: this.requestKey(connection, id),
+          versionRange: message.version,
+          idempotencyKey: message.idempotencyKey,
+          signal: connection.closed.signal
+        }
+      );
+
+      if (!response.success) {
+        await this.send(connection, { ...echo, ...response });
+        return;
+      }
+
+      if (isAsyncIterable(response.result)) {
+        await this.forwardStream(
+          response.result,
+          frame => this.send(connection, { id, ...frame }),
+          () => this.connections.has(connection)
+        );
+        return;
+      }
+
+      await this.send(connection, {
+        ...echo,
+        success: true,
+        data: response.result,
+        ...(response.deprecation && { deprecation: response.deprecation })
+      });
+    } finally {
+      connection.pending.delete(clientId);
+    }
+  }
+
+  /**
+   * Answer QuicPlanClient discovery calls from registry introspection
+   */
+  private systemCall(method: string | undefined, params: any): unknown {
+    const operations = this.registry.list();
+
+    switch (method) {
+      case 'listPlans':
+        return [...new Set(operations.map(operation => operation.domain))];
+      case 'getPlanMetadata': {
+        const plan = params?.plan;
+        if (typeof plan !== 'string') {
+          throw new ValidationError('Missing "plan" parameter');
+        }
+
+        const domain = legacyDomainName(plan);
+        const methods = operations.filter(operation => operation.domain === domain);
+        if (methods.length === 0) {
+          throw new NotFoundError('Plan', plan);
+        }
+        return { plan, domain, operations: methods };
+      }
+      default:
+        throw new NotFoundError('System method', String(method));
+    }
+  }
+
+  /**
+   * Subscribe a connection to a topic, attaching the topic's source if needed
+   */
+  private async subscribe(connection: Connection, topic: string | undefined): Promise<void> {
+    if (typeof topic !== 'string' || !Object.hasOwn(this.topics, topic)) {
+      throw new NotFoundError('Topic', String(topic));
+    }
+
+    const auth = (await connection.auth)!;
+    if (!hasCapability(auth, `events:${topic}`)) {
+      throw new ForbiddenError(`Insufficient permissions for topic ${topic}`, {
+        required: `events:${topic}`
+      });
+    }
+
+    if (connection.topics.has(topic)) {
+      return;
+    }
+
+    connection.topics.add(topic);
+    if (!this.detachers.has(topic)) {
+      const source = this.topics[topic];
+      this.detachers.set(topic, source ? source(data => this.publish(topic, data)) : () => {});
+    }
+  }
+
+  /**
+   * Unsubscribe a connection from a topic
+   */
+  private unsubscribe(connection: Connection, topic: string | undefined): void {
+    if (typeof topic !== 'string' || !connection.topics.delete(topic)) {
+      throw new NotFoundError('Subscription', String(topic));
+    }
+
+    this.releaseTopic(topic);
+  }
+
+  /**
+   * Detach a topic's source once no connection is subscribed to it
+   */
+  private releaseTopic(topic: string): void {
+    for (const connection of this.connections) {
+      if (connection.topics.has(topic)) {
+        return;
+      }
+    }
+
+    this.detachers.get(topic)?.();
+    this.detachers.delete(topic);
+  }
+
+  /**
+   * Send a message to a client
+   *
+   * Resolves immediately, or - while the socket buffer is above
+   * maxBufferedAmount - once the message has been flushed.
+   */
+  private send(connection: Connection, message: object): Promise<void> {
+    const { socket } = connection;
+    if (socket.readyState !== WebSocket.OPEN) {
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      socket.send(JSON.stringify(message), () => resolve());
+      if (socket.bufferedAmount <= this.maxBufferedAmount) {
+        resolve();
+      }
+    });
+  }
+
+  /**
+   * Request ID used for tracking, unique across connections
+   */
+  private requestKey(connection: Connection, id: string | number): string {
+    return `${connection.id}:${id}`;
+  }
+}
@@ -37,20 +37,18 @@ export enum MessageType {
   STREAM_UNSUBSCRIBE = 'stream.unsubscribe'
 }
 
-export enum ErrorCode {
-  UNAUTHORIZED = 401,
-  FORBIDDEN = 403,
-  NOT_FOUND = 404,
-  CONFLICT = 409,
-  VALIDATION_ERROR = 422,
-  INTERNAL_ERROR = 500
-}
-
+/**
+ * Error message
+ *
+ * `code` is a PlanError code from the error catalog (see ERROR_CATALOG in
+ * errors.ts), `status` its HTTP-style status.
+ */
 export interface ErrorResponse {
   id: string;
   type: 'error';
   error: {
-    code: ErrorCode;
+    code: string;
+    status: number;
     message: string;
     details?: any;
   };
@@ -0,0 +1,75 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from '../PlanRegistry.js';
+import { hasCapability, scopedCapability } from './context.js';
+import { authWith, contextWith, createTestRegistry } from '../test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('scoped capabilities', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  class TopicPlan {
+    async post(request: { topicId: string; text: string }) {
+      return { posted: request.topicId };
+    }
+  }
+
+  beforeEach(() => {
+    registry.register({
+      domain: 'chat',
+      method: 'post',
+      plan: new TopicPlan(),
+      version: '1.0.0',
+      requiredCapability: 'chat:send',
+      resolveCapability: (request) => scopedCapability('chat:send', request?.topicId)
+    });
+  });
+
+  it('should match scopes, wildcards and denials', () => {
+    expect(hasCapability(authWith(['chat:send']), 'chat:send:t1')).toBe(true);
+    expect(hasCapability(authWith(['chat:send:t1']), 'chat:send')).toBe(false);
+    expect(hasCapability(authWith(['chat']), 'chat:send')).toBe(false);
+    expect(hasCapability(authWith(['admin:*']), 'admin:users:delete')).toBe(true);
+    expect(hasCapability(authWith(['*']), 'anything:at:all')).toBe(true);
+    expect(hasCapability(authWith(['storage:read:type=*']), 'storage:read:type=Profile')).toBe(true);
+    expect(hasCapability(authWith(['storage:read:type=*']), 'storage:read:id=abc')).toBe(false);
+    expect(hasCapability(authWith(['chat:*', '!chat:send:t2']), 'chat:send:t2')).toBe(false);
+    expect(hasCapability(authWith(['chat:*', '!chat:send:t2']), 'chat:send:t1')).toBe(true);
+  });
+
+  it('should restrict a token to one topic', async () => {
+    const bot = contextWith(['chat:send:t1']);
+
+    expect(await registry.invoke('chat:post', { topicId: 't1', text: 'hi' }, bot)).toEqual({ posted: 't1' });
+    await expect(
+      registry.invoke('chat:post', { topicId: 't2', text: 'hi' }, bot)
+    ).rejects.toMatchObject({ code: 'FORBIDDEN', details: { required: 'chat:send:t2' } });
+  });
+
+  it('should not let request values widen a scope', async () => {
+    const bot = contextWith(['chat:send:abc']);
+
+    await expect(
+      registry.invoke('chat:post', { topicId: 'abc:x', text: 'hi' }, bot)
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    await expect(
+      registry.invoke('chat:post', { topicId: 'a*', text: 'hi' }, contextWith(['chat:send']))
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(scopedCapability('chat:send', 'abc', 7)).toBe('chat:send:abc:7');
+  });
+
+  it('should let deny entries override grants', async () => {
+    const user = contextWith(['chat:send', '!chat:send:t2']);
+
+    await registry.invoke('chat:post', { topicId: 't1', text: 'hi' }, user);
+    await expect(
+      registry.invoke('chat:post', { topicId: 't2', text: 'hi' }, user)
+    ).rejects.toMatchObject({ details: { denied: 'chat:send:t2' } });
+    expect(registry.describe('chat:post')).toMatchObject({ scopedCapability: true });
+  });
+});
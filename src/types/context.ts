@@ -7,6 +7,7 @@
 
 import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
 import type { Person } from '@refinio/one.core/lib/recipes.js';
+import { ValidationError } from '../errors.js';
 
 /**
  * Authentication context
@@ -27,10 +28,19 @@ export interface AuthContext {
   /**
    * List of capabilities granted to this user/session
    *
+   * Capabilities are colon-separated segments: domain, action and an
+   * optional resource scope. A grant covers narrower scopes of itself, and
+   * `*` matches any segment (any remaining segments at the end). Entries
+   * starting with `!` deny instead of grant and override all grants.
+   *
    * Examples:
-   * - 'chat:send' - Can send messages
+   * - 'chat:send' - Can send messages to any topic
+   * - 'chat:send:<topicIdHash>' - Can send messages to one topic only
+   * - 'storage:read:type=Profile' - Can read Profile objects only
    * - 'chat:read' - Can read messages
    * - 'admin:*' - All admin capabilities
+   * - '*' - Everything
+   * - '!chat:send:<topicIdHash>' - Must not send to this topic
    */
   capabilities: string[];
 }
@@ -57,6 +67,24 @@ export interface PlanContext {
    */
   timestamp: number;
 
+  /**
+   * Requested operation version range (e.g. '^1.0.0')
+   *
+   * The registry invokes the highest registered version satisfying this
+   * range. Defaults to the latest version if omitted.
+   */
+  versionRange?: string;
+
+  /**
+   * Cancellation signal
+   *
+   * Fires on timeout, client disconnect or an explicit cancel request.
+   * Long-running plans should check it (or pass it on to I/O) and stop
+   * work early; the registry rejects aborted invocations with a TIMEOUT
+   * or CANCELLED PlanError.
+   */
+  signal?: AbortSignal;
+
   /**
    * Optional transport-specific metadata
    *
@@ -100,22 +128,107 @@ export function createPlanContext(
 }
 
 /**
- * Check if user has a specific capability
+ * Prefix marking a deny entry in AuthContext.capabilities
  */
-export function hasCapability(auth: AuthContext, capability: string): boolean {
-  // Check for exact match
-  if (auth.capabilities.includes(capability)) {
+export const DENY_PREFIX = '!';
+
+/**
+ * Check if a granted (or denied) capability pattern covers a capability
+ *
+ * - Exact match: 'chat:send' covers 'chat:send'
+ * - Narrower scope: 'chat:send' covers 'chat:send:topic1' (patterns need at
+ *   least domain and action to cover narrower capabilities)
+ * - Wildcards: '*' as a segment matches any one segment, as the last
+ *   segment any remaining segments ('admin:*' covers 'admin:users:delete');
+ *   '*' inside a segment matches any characters ('type=*')
+ */
+export function matchesCapability(pattern: string, capability: string): boolean {
+  if (pattern === '*' || pattern === capability) {
     return true;
   }
 
-  // Check for wildcard match (e.g., 'admin:*' grants 'admin:users:delete')
+  const patternParts = pattern.split(':');
   const parts = capability.split(':');
-  for (let i = parts.length; i > 0; i--) {
-    const wildcard = parts.slice(0, i).join(':') + ':*';
-    if (auth.capabilities.includes(wildcard)) {
+  const last = patternParts.length - 1;
+
+  for (let i = 0; i < patternParts.length; i++) {
+    const segment = patternParts[i];
+
+    if (segment === '*' && i === last) {
       return true;
     }
+    if (i >= parts.length) {
+      return false;
+    }
+    if (!matchesSegment(segment, parts[i])) {
+      return false;
+    }
+  }
+
+  // Pattern is a prefix of the capability: covers narrower scopes
+  return parts.length === patternParts.length || patternParts.length >= 2;
+}
+
+function matchesSegment(pattern: string, segment: string): boolean {
+  if (pattern === '*' || pattern === segment) {
+    return true;
+  }
+  if (!pattern.includes('*')) {
+    return false;
+  }
+
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(segment);
+}
+
+/**
+ * Build a capability scoped to resources named in a request
+ *
+ * Each resource becomes one segment: `scopedCapability('chat:send', topicId)`
+ * gives 'chat:send:<topicId>'. Use it in `resolveCapability` so request
+ * values cannot add segments or wildcards - a topic 'abc:x' would otherwise
+ * be covered by a 'chat:send:abc' grant.
+ *
+ * @throws ValidationError if a resource is not a non-empty string or number,
+ *   or contains ':' or '*'
+ */
+export function scopedCapability(capability: string, ...resources: unknown[]): string {
+  const segments = resources.map(resource => {
+    const segment = typeof resource === 'number' ? String(resource) : resource;
+    if (typeof segment !== 'string' || segment === '' || /[:*]/.test(segment)) {
+      throw new ValidationError(`Invalid resource in capability ${capability}`, { resource });
+    }
+    return segment;
+  });
+  return [capability, ...segments].join(':');
+}
+
+/**
+ * Find the deny entry that forbids a capability
+ *
+ * @returns The matching deny entry (without prefix), or undefined
+ */
+export function findDenial(auth: AuthContext, capability: string): string | undefined {
+  return auth.capabilities
+    .filter(entry => entry.startsWith(DENY_PREFIX))
+    .map(entry => entry.slice(DENY_PREFIX.length))
+    .find(denied => matchesCapability(denied, capability));
+}
+
+/**
+ * Check if user has a specific capability
+ *
+ * True if some grant covers the capability and no deny entry does.
+ */
+export function hasCapability(auth: AuthContext, capability: string): boolean {
+  if (findDenial(auth, capability) !== undefined) {
+    return false;
   }
 
-  return false;
+  return auth.capabilities.some(
+    entry => !entry.startsWith(DENY_PREFIX) && matchesCapability(entry, capability)
+  );
 }
@@ -2,6 +2,10 @@
  * Metadata types for plan registration and introspection
  */
 
+import type { JSONSchema } from './schema.js';
+import type { PlanContext } from './context.js';
+import type { RetryPolicy, CircuitBreakerPolicy, CircuitSnapshot } from '../resilience.js';
+
 /**
  * Plan metadata for operation registration
  *
@@ -34,9 +38,26 @@ export interface PlanMetadata {
    * Semantic version for the operation
    *
    * Format: MAJOR.MINOR.PATCH (e.g., '1.0.0')
+   *
+   * Several versions of the same domain:method can be registered side by
+   * side. Callers select one with a version range (see
+   * PlanContext.versionRange); the highest matching version is used.
    */
   version: string;
 
+  /**
+   * Whether this version is deprecated
+   *
+   * Deprecated versions remain callable until their sunset date, but every
+   * response carries a deprecation notice. Requires `sunset`.
+   */
+  deprecated?: boolean;
+
+  /**
+   * Date after which a deprecated version may be removed (ISO 8601)
+   */
+  sunset?: string;
+
   /**
    * Required capability to invoke this operation
    *
@@ -47,6 +68,20 @@ export interface PlanMetadata {
    */
   requiredCapability?: string;
 
+  /**
+   * Compute the required capability from the request (resource scoping)
+   *
+   * Returns one or more capabilities that must all be granted, e.g.
+   * `scopedCapability('chat:send', request.topicId)`; takes precedence over
+   * `requiredCapability` unless it returns undefined. Scoped deny entries
+   * only apply to operations that resolve a scope.
+   *
+   * Runs before schema validation, so it must cope with malformed
+   * requests (throw a ValidationError or return a scope that is never
+   * granted).
+   */
+  resolveCapability?: (request: any, context: PlanContext) => string | string[] | undefined;
+
   /**
    * Whether this operation returns AsyncIterableIterator (streaming)
    *
@@ -61,13 +96,53 @@ export interface PlanMetadata {
    * Used for documentation, CLI help, and introspection.
    */
   description?: string;
+
+  /**
+   * Name of a plan method that undoes this operation
+   *
+   * Called as `plan[compensate](request, result, context)` when an atomic
+   * batch containing this operation fails after it completed.
+   */
+  compensate?: string;
+
+  /**
+   * Retry policy for transient failures
+   *
+   * Failed attempts whose error code is retryable are repeated with
+   * exponential backoff, up to `maxAttempts` in total.
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * Circuit breaker policy
+   *
+   * After `failureThreshold` consecutive failures the operation fails fast
+   * with CIRCUIT_OPEN until a probe after `resetTimeout` succeeds.
+   */
+  circuitBreaker?: CircuitBreakerPolicy;
+
+  /**
+   * JSON Schema for the request payload
+   *
+   * If specified, the plan registry validates every request against it
+   * before invoking the plan and rejects mismatches with ValidationError.
+   */
+  requestSchema?: JSONSchema;
+
+  /**
+   * JSON Schema for the response payload
+   *
+   * If specified, the plan registry validates non-streaming results
+   * against it before returning them.
+   */
+  responseSchema?: JSONSchema;
 }
 
 /**
  * Operation metadata for introspection
  *
  * Subset of PlanMetadata exposed for runtime introspection,
- * excluding non-serializable parts (plan instance, schemas).
+ * excluding non-serializable parts (plan instance).
  */
 export interface OperationMetadata {
   /**
@@ -90,6 +165,21 @@ export interface OperationMetadata {
    */
   version: string;
 
+  /**
+   * All registered versions, highest first (only set by PlanRegistry.list())
+   */
+  versions?: string[];
+
+  /**
+   * Whether this version is deprecated
+   */
+  deprecated?: boolean;
+
+  /**
+   * Sunset date of a deprecated version (ISO 8601)
+   */
+  sunset?: string;
+
   /**
    * Whether operation supports streaming
    */
@@ -100,10 +190,45 @@ export interface OperationMetadata {
    */
   requiredCapability?: string;
 
+  /**
+   * Whether the required capability is scoped to the request's resource
+   */
+  scopedCapability: boolean;
+
   /**
    * Human-readable description
    */
   description?: string;
+
+  /**
+   * Whether the operation declares a compensating action
+   */
+  compensable: boolean;
+
+  /**
+   * Retry policy (if declared)
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * Circuit breaker policy (if declared)
+   */
+  circuitBreaker?: CircuitBreakerPolicy;
+
+  /**
+   * Current circuit breaker state (only set by PlanRegistry introspection)
+   */
+  circuit?: CircuitSnapshot;
+
+  /**
+   * JSON Schema for the request payload (if declared)
+   */
+  requestSchema?: JSONSchema;
+
+  /**
+   * JSON Schema for the response payload (if declared)
+   */
+  responseSchema?: JSONSchema;
 }
 
 /**
@@ -115,9 +240,17 @@ export function toOperationMetadata(metadata: PlanMetadata): OperationMetadata {
     domain: metadata.domain,
     method: metadata.method,
     version: metadata.version,
+    deprecated: metadata.deprecated,
+    sunset: metadata.sunset,
     streaming: metadata.streaming ?? false,
     requiredCapability: metadata.requiredCapability,
-    description: metadata.description
+    scopedCapability: metadata.resolveCapability !== undefined,
+    description: metadata.description,
+    compensable: metadata.compensate !== undefined,
+    retry: metadata.retry,
+    circuitBreaker: metadata.circuitBreaker,
+    requestSchema: metadata.requestSchema,
+    responseSchema: metadata.responseSchema
   };
 }
 
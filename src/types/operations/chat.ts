@@ -94,3 +94,16 @@ export interface GetHistoryResponse {
   /** Cursor for next page */
   nextCursor?: string;
 }
+
+// ============================================================================
+// Operation map
+// ============================================================================
+
+/**
+ * Chat operations by name, for typed clients (e.g. HttpPlanClient)
+ */
+export interface ChatOperations {
+  'chat:exportHistory': { request: ExportHistoryRequest; response: ExportHistoryResponse };
+  'chat:sendMessage': { request: SendMessageRequest; response: SendMessageResponse };
+  'chat:getHistory': { request: GetHistoryRequest; response: GetHistoryResponse };
+}
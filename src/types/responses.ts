@@ -2,12 +2,26 @@
  * Standard response types for operations
  */
 
+import { errorMapping } from '../errors.js';
+
 /**
  * Successful operation response
  */
 export interface SuccessResponse<T> {
   success: true;
   result: T;
+  deprecation?: DeprecationNotice; // Only if a deprecated version was invoked
+}
+
+/**
+ * Warning attached to responses from deprecated operation versions
+ */
+export interface DeprecationNotice {
+  operation: string;
+  version: string;
+  /** Date after which the version may be removed (ISO 8601) */
+  sunset?: string;
+  message: string;
 }
 
 /**
@@ -30,6 +44,32 @@ export interface ErrorResponse {
  */
 export type OperationResponse<T> = SuccessResponse<T> | ErrorResponse;
 
+/**
+ * Single chunk of a streaming operation response
+ */
+export interface StreamChunkResponse<T> {
+  success: true;
+  chunk: T;
+}
+
+/**
+ * Final frame of a successfully completed streaming response
+ */
+export interface StreamEndResponse {
+  success: true;
+  done: true;
+  /** Number of chunks delivered */
+  chunks: number;
+}
+
+/**
+ * Frame of a streaming operation response
+ *
+ * Streaming operations are delivered as zero or more chunk frames followed
+ * by exactly one end frame, or by an error frame if the stream failed.
+ */
+export type StreamFrame<T> = StreamChunkResponse<T> | StreamEndResponse | ErrorResponse;
+
 /**
  * Create a success response
  */
@@ -78,3 +118,49 @@ export function errorFromException(
     includeStack ? err.stack : undefined
   );
 }
+
+/**
+ * Media type of RFC 7807 problem details
+ */
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * RFC 7807 problem details (HTTP error body)
+ *
+ * `code` and `details` are extension members carrying the PlanError code
+ * and details.
+ */
+export interface ProblemDetails {
+  /** URI identifying the error type ('urn:refinio:error:<code>') */
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  /** URI of the failed request */
+  instance?: string;
+  code: string;
+  details?: Record<string, any>;
+  stack?: string; // Only in development mode
+}
+
+/**
+ * Convert an error response to RFC 7807 problem details
+ *
+ * @param response - Error response
+ * @param instance - URI of the failed request (e.g. the request path)
+ */
+export function problemDetails(response: ErrorResponse, instance?: string): ProblemDetails {
+  const { code, message, details, stack } = response.error;
+  const mapping = errorMapping(code);
+
+  return {
+    type: `urn:refinio:error:${code}`,
+    title: mapping.title,
+    status: mapping.status,
+    detail: message,
+    ...(instance !== undefined && { instance }),
+    code,
+    ...(details !== undefined && { details }),
+    ...(stack !== undefined && { stack })
+  };
+}
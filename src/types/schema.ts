@@ -0,0 +1,59 @@
+/**
+ * JSON Schema types for operation request/response descriptions
+ *
+ * Covers the subset of JSON Schema (draft 2020-12 vocabulary) that the
+ * plan registry validates at runtime and publishes via introspection.
+ */
+
+/**
+ * JSON Schema primitive type names
+ */
+export type JSONSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * JSON Schema definition
+ *
+ * Keywords outside the validated subset (e.g. `format`, `examples`) are
+ * allowed and passed through to introspection unchanged.
+ */
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+
+  // Generic
+  enum?: unknown[];
+  const?: unknown;
+
+  // Objects
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+
+  // Arrays
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+
+  // Composition
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+
+  [keyword: string]: unknown;
+}
@@ -0,0 +1,93 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from './PlanRegistry.js';
+import { EchoPlan, createTestRegistry } from './test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('schema validation', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  beforeEach(() => {
+    registry.register({
+      domain: 'chat',
+      method: 'echo',
+      plan: new EchoPlan(),
+      version: '1.0.0',
+      requestSchema: {
+        type: 'object',
+        properties: {
+          topicId: { type: 'string', minLength: 1 },
+          attachments: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['topicId'],
+        additionalProperties: false
+      },
+      responseSchema: {
+        type: 'object',
+        properties: { echoed: { type: 'object' } },
+        required: ['echoed']
+      }
+    });
+  });
+
+  it('should pass valid requests through', async () => {
+    const result = await registry.invoke('chat:echo', { topicId: 't1' });
+    expect(result).toEqual({ echoed: { topicId: 't1' } });
+  });
+
+  it('should reject invalid requests with per-field paths', async () => {
+    await expect(
+      registry.invoke('chat:echo', { attachments: ['a', 2], extra: true })
+    ).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: {
+        operation: 'chat:echo',
+        phase: 'request',
+        errors: [
+          { path: '$.topicId', message: 'Required property missing' },
+          { path: '$.attachments[1]', message: 'Expected string, got number' },
+          { path: '$.extra', message: 'Unknown property' }
+        ]
+      }
+    });
+  });
+
+  it('should reject responses that do not match the response schema', async () => {
+    registry.addInterceptor({
+      name: 'corrupt',
+      priority: 900,
+      after: () => ({ wrong: true })
+    });
+
+    await expect(
+      registry.invoke('chat:echo', { topicId: 't1' })
+    ).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: { phase: 'response' }
+    });
+  });
+
+  it('should not validate streamed responses', async () => {
+    registry.register({
+      domain: 'chat',
+      method: 'tail',
+      plan: { async *tail() { yield 'a'; } },
+      version: '1.0.0',
+      responseSchema: { type: 'string' }
+    });
+
+    const stream = await registry.invoke<unknown, AsyncIterableIterator<string>>('chat:tail', {});
+    expect((await stream.next()).value).toBe('a');
+  });
+
+  it('should expose schemas through introspection', () => {
+    const described = registry.describe('chat:echo');
+    expect(described?.requestSchema?.required).toEqual(['topicId']);
+    expect(described?.responseSchema?.required).toEqual(['echoed']);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Runtime schema validation for registered operations
+ *
+ * Validates request and response payloads against the optional
+ * `requestSchema` / `responseSchema` of an operation's PlanMetadata.
+ * Validation runs as a built-in interceptor right after authorization,
+ * so untrusted transports (HTTP, stdio) never reach a plan with a
+ * malformed payload.
+ *
+ * Only the JSON Schema subset described in `types/schema.ts` is enforced.
+ */
+
+import type { JSONSchema, JSONSchemaType } from './types/schema.js';
+import type { PlanInterceptor } from './interceptors.js';
+import { ValidationError } from './errors.js';
+import { InterceptorPriority } from './interceptors.js';
+import { isAsyncIterable } from './streaming.js';
+
+/**
+ * A single schema violation
+ */
+export interface SchemaViolation {
+  /**
+   * Location of the offending value (e.g. '$.attachments[0]')
+   */
+  path: string;
+
+  /**
+   * Human-readable description of the violation
+   */
+  message: string;
+}
+
+/**
+ * Validate a value against a JSON schema
+ *
+ * @param schema - Schema to validate against
+ * @param value - Value to validate
+ * @param path - Path of the value (used in violation reports)
+ * @returns List of violations (empty if valid)
+ */
+export function validateSchema(
+  schema: JSONSchema,
+  value: unknown,
+  path = '$'
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+
+  // Type
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(type, value))) {
+      violations.push({
+        path,
+        message: `Expected ${types.join(' | ')}, got ${describeType(value)}`
+      });
+      // Further keywords are meaningless for a value of the wrong type
+      return violations;
+    }
+  }
+
+  // Enum / const
+  if (schema.enum && !schema.enum.some(candidate => deepEqual(candidate, value))) {
+    violations.push({
+      path,
+      message: `Must be one of: ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`
+    });
+  }
+
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    violations.push({ path, message: `Must equal ${JSON.stringify(schema.const)}` });
+  }
+
+  // Strings
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({ path, message: `Must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({ path, message: `Must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      violations.push({ path, message: `Must match pattern ${schema.pattern}` });
+    }
+  }
+
+  // Numbers
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path, message: `Must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path, message: `Must be <= ${schema.maximum}` });
+    }
+  }
+
+  // Arrays
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({ path, message: `Must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({ path, message: `Must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        violations.push(...validateSchema(schema.items!, item, `${path}[${index}]`));
+      });
+    }
+  }
+
+  // Objects
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value) || value[key] === undefined) {
+        violations.push({ path: `${path}.${key}`, message: 'Required property missing' });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        if (propertyValue !== undefined) {
+          violations.push(...validateSchema(propertySchema, propertyValue, `${path}.${key}`));
+        }
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: `${path}.${key}`, message: 'Unknown property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        violations.push(
+          ...validateSchema(schema.additionalProperties, propertyValue, `${path}.${key}`)
+        );
+      }
+    }
+  }
+
+  // Composition
+  if (schema.allOf) {
+    for (const subschema of schema.allOf) {
+      violations.push(...validateSchema(subschema, value, path));
+    }
+  }
+
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(subschema => validateSchema(subschema, value, path).length === 0);
+    if (!matches) {
+      violations.push({ path, message: 'Must match at least one allowed schema' });
+    }
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(subschema => validateSchema(subschema, value, path).length === 0);
+    if (matches.length !== 1) {
+      violations.push({
+        path,
+        message: `Must match exactly one allowed schema (matched ${matches.length})`
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Built-in request/response validation
+ *
+ * Validates against `requestSchema` before the plan runs and against
+ * `responseSchema` after it returns. Operations without schemas pass through,
+ * as do streamed results.
+ *
+ * @throws ValidationError with `details.errors` listing each violation
+ */
+export function createValidationInterceptor(): PlanInterceptor {
+  return {
+    name: 'validation',
+    priority: InterceptorPriority.VALIDATION,
+    before({ operation, metadata, request }) {
+      if (!metadata.requestSchema) {
+        return;
+      }
+
+      const errors = validateSchema(metadata.requestSchema, request);
+      if (errors.length > 0) {
+        throw new ValidationError(
+          `Invalid request for ${operation}`,
+          { operation, phase: 'request', errors }
+        );
+      }
+    },
+    after({ operation, metadata }, result) {
+      if (!metadata.responseSchema || metadata.streaming || isAsyncIterable(result)) {
+        return result;
+      }
+
+      const errors = validateSchema(metadata.responseSchema, result);
+      if (errors.length > 0) {
+        throw new ValidationError(
+          `Invalid response from ${operation}`,
+          { operation, phase: 'response', errors }
+        );
+      }
+
+      return result;
+    }
+  };
+}
+
+function matchesType(type: JSONSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,71 @@
+// Note: Using regular imports for Jest compatibility
+import type { PlanRegistry } from './PlanRegistry.js';
+import { contextWith, createTestRegistry } from './test-helpers.js';
+
+// Jest doesn't support describe/it/expect as imports, they're global
+const { describe, it, expect, beforeEach } = global as any;
+
+describe('versions', () => {
+  let registry: PlanRegistry;
+
+  beforeEach(() => {
+    registry = createTestRegistry();
+  });
+
+  // One plan class per version, as plan instances are shared per class
+  const plans: Record<string, any> = {
+    '1.0.0': new (class GreetPlanV100 { async greet() { return '1.0.0'; } })(),
+    '1.4.2': new (class GreetPlanV142 { async greet() { return '1.4.2'; } })(),
+    '2.1.0': new (class GreetPlanV210 { async greet() { return '2.1.0'; } })()
+  };
+
+  function registerGreet(version: string, extra: Record<string, any> = {}) {
+    registry.register({
+      domain: 'greet',
+      method: 'greet',
+      plan: plans[version] ?? plans['1.0.0'],
+      version,
+      ...extra
+    });
+  }
+
+  it('should register versions side by side and default to the latest', async () => {
+    registerGreet('1.0.0', { deprecated: true, sunset: '2027-01-01' });
+    registerGreet('2.1.0');
+    registerGreet('1.4.2');
+
+    const context = contextWith([]);
+    expect(await registry.invoke('greet:greet', {}, context)).toBe('2.1.0');
+    expect(registry.list().find(op => op.operation === 'greet:greet')?.versions)
+      .toEqual(['2.1.0', '1.4.2', '1.0.0']);
+  });
+
+  it('should route to the latest compatible version', async () => {
+    registerGreet('1.0.0');
+    registerGreet('1.4.2');
+    registerGreet('2.1.0');
+
+    const invokeWith = (versionRange: string) =>
+      registry.invoke('greet:greet', {}, { ...contextWith([]), versionRange });
+
+    expect(await invokeWith('^1.0.0')).toBe('1.4.2');
+    expect(await invokeWith('~1.0.0')).toBe('1.0.0');
+    expect(await invokeWith('>=1.2.0 <2.0.0')).toBe('1.4.2');
+    expect(await invokeWith('1.x || 3.x')).toBe('1.4.2');
+    await expect(invokeWith('^3.0.0')).rejects.toMatchObject({
+      code: 'UNSUPPORTED_VERSION',
+      details: { available: ['2.1.0', '1.4.2', '1.0.0'] }
+    });
+  });
+
+  it('should reject duplicate versions and invalid versions', () => {
+    registerGreet('1.0.0');
+
+    expect(() => registerGreet('1.0.0')).toThrow(/collision/);
+    expect(() => registerGreet('1.0')).toThrow(/Invalid version/);
+  });
+
+  it('should require a sunset date for deprecated versions', () => {
+    expect(() => registerGreet('1.0.0', { deprecated: true })).toThrow(/sunset/);
+  });
+});
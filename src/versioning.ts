@@ -0,0 +1,165 @@
+/**
+ * Semantic versioning helpers for side-by-side operation versions
+ *
+ * Operations may be registered in several versions. Callers select one
+ * with a version range; the registry picks the highest registered version
+ * that satisfies it ("latest compatible"), or the highest version overall
+ * if no range is given.
+ *
+ * Supported range syntax (subset of npm semver):
+ * - Exact:      '1.2.3'
+ * - Partial:    '1', '1.2', '1.x', '1.2.x', '*'
+ * - Caret:      '^1.2.3' (same major; same minor for 0.x)
+ * - Tilde:      '~1.2.3' (same major and minor)
+ * - Comparator: '>=1.0.0', '<2.0.0', '>1.0.0', '<=1.5.0'
+ * - AND:        '>=1.0.0 <2.0.0'
+ * - OR:         '^1.0.0 || ^2.0.0'
+ */
+
+/**
+ * Parsed semantic version
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+/**
+ * Parse a MAJOR.MINOR.PATCH version string
+ *
+ * @returns Parsed version, or null if the string is not a valid version
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = /^v?(\d+)\.(\d+)\.(\d+)$/.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3])
+  };
+}
+
+/**
+ * Check if a string is a valid MAJOR.MINOR.PATCH version
+ */
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Compare two versions
+ *
+ * @returns Negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const va = parseVersion(a);
+  const vb = parseVersion(b);
+  if (!va || !vb) {
+    throw new Error(`Invalid version: ${!va ? a : b}`);
+  }
+
+  return compare(va, vb);
+}
+
+/**
+ * Check if a version satisfies a range
+ *
+ * Invalid ranges are satisfied by nothing.
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    return false;
+  }
+
+  return range.split('||').some(alternative => {
+    const comparators = alternative.trim().split(/\s+/).filter(Boolean);
+    if (comparators.length === 0) {
+      return true; // Empty range matches everything
+    }
+    return comparators.every(comparator => matchesComparator(parsed, comparator));
+  });
+}
+
+function matchesComparator(version: SemVer, comparator: string): boolean {
+  const match = /^(\^|~|>=|<=|>|<|=)?v?(\*|x|\d+)(?:\.(\*|x|\d+))?(?:\.(\*|x|\d+))?$/i.exec(comparator);
+  if (!match) {
+    return false;
+  }
+
+  const [, operator = '', majorPart, minorPart, patchPart] = match;
+  const wildcard = (part?: string) => part === undefined || part === '*' || part.toLowerCase() === 'x';
+
+  // Partial versions ('1', '1.2', '1.x', '*') match everything in that prefix
+  if (wildcard(majorPart)) {
+    return operator === '' || operator === '=' || operator === '>=' || operator === '<=';
+  }
+
+  const major = Number(majorPart);
+  const minor = wildcard(minorPart) ? undefined : Number(minorPart);
+  const patch = wildcard(patchPart) ? undefined : Number(patchPart);
+  const base = { major, minor: minor ?? 0, patch: patch ?? 0 };
+  const cmp = compare(version, base);
+
+  switch (operator) {
+    case '^':
+      if (cmp < 0) {
+        return false;
+      }
+      if (major > 0 || minor === undefined) {
+        return version.major === major;
+      }
+      if (minor > 0 || patch === undefined) {
+        return version.major === 0 && version.minor === minor;
+      }
+      return version.major === 0 && version.minor === 0 && version.patch === patch;
+
+    case '~':
+      if (cmp < 0) {
+        return false;
+      }
+      return minor === undefined
+        ? version.major === major
+        : version.major === major && version.minor === minor;
+
+    case '>=':
+      return cmp >= 0;
+
+    case '>':
+      // '>1' means '>=2.0.0', '>1.2' means '>=1.3.0'
+      if (minor === undefined) {
+        return version.major > major;
+      }
+      if (patch === undefined) {
+        return version.major > major || (version.major === major && version.minor > minor);
+      }
+      return cmp > 0;
+
+    case '<':
+      return cmp < 0;
+
+    case '<=':
+      // '<=1' means '<2.0.0', '<=1.2' means '<1.3.0'
+      if (minor === undefined) {
+        return version.major <= major;
+      }
+      if (patch === undefined) {
+        return version.major < major || (version.major === major && version.minor <= minor);
+      }
+      return cmp <= 0;
+
+    default:
+      // Exact or partial match
+      return version.major === major &&
+        (minor === undefined || version.minor === minor) &&
+        (patch === undefined || version.patch === patch);
+  }
+}
+
+function compare(a: SemVer, b: SemVer): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
@@ -0,0 +1,57 @@
+// Benchmark: PlanRegistry.invoke() overhead as call volume grows
+//
+// Invokes a no-op operation in increasing volumes and reports the mean
+// per-call time of a fixed-size sample after each stage. With constant-
+// memory latency tracking the per-call time should stay flat.
+//
+// Usage: npm run build && npm run bench
+
+import { PlanRegistry } from '../../dist/PlanRegistry.js';
+
+const SAMPLE_SIZE = 10_000;
+const STAGES = [0, 10_000, 100_000, 500_000, 1_000_000];
+
+class NoopPlan {
+  async noop(request) {
+    return request;
+  }
+}
+
+async function invokeMany(registry, count) {
+  for (let i = 0; i < count; i++) {
+    await registry.invoke('bench:noop', i);
+  }
+}
+
+async function main() {
+  const registry = new PlanRegistry({ slowOperationThreshold: Infinity });
+  registry.register({ domain: 'bench', method: 'noop', plan: new NoopPlan(), version: '1.0.0' });
+
+  // Warm up the JIT before measuring
+  await invokeMany(registry, SAMPLE_SIZE);
+  registry.resetMetrics();
+
+  console.log('calls so far | mean invoke (µs) | p99 (ms)');
+  console.log('-------------|------------------|---------');
+
+  let total = 0;
+  for (const stage of STAGES) {
+    await invokeMany(registry, stage - total);
+    total = stage;
+
+    const start = performance.now();
+    await invokeMany(registry, SAMPLE_SIZE);
+    const mean = ((performance.now() - start) / SAMPLE_SIZE) * 1000;
+    total += SAMPLE_SIZE;
+
+    const { p99 } = registry.getMetrics('bench:noop');
+    console.log(
+      `${String(stage).padStart(12)} | ${mean.toFixed(2).padStart(16)} | ${p99.toFixed(4)}`
+    );
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});